@@ -1,894 +1,460 @@
-import { RefObject, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
-import * as handPoseDetection from "@tensorflow-models/hand-pose-detection";
-import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
-import * as poseDetection from "@tensorflow-models/pose-detection";
-import * as tf from "@tensorflow/tfjs-core";
-import "@tensorflow/tfjs-backend-webgl";
+import { handGestureList } from "./core/handGesture";
+import { DYNAMIC_GESTURE_DISPLAY_DURATION, dynamicGestureList } from "./core/dynamicGesture";
+import { ExerciseType, exerciseList } from "./core/exercise";
+import { FaceBlendshapes, blendshapeNames } from "./core/facialExpression";
+import { defaultGazeBaseline } from "./core/irisPosition";
+import { AttentionSettings, loadAttentionSettings, saveAttentionSettings } from "./core/attentionMonitor";
+import { AttentionPanel } from "./AttentionPanel";
+import {
+	CalibrationProfiles,
+	CalibrationSamples,
+	buildCalibration,
+	calibrationSteps,
+	loadCalibrationProfiles,
+	saveCalibrationProfiles,
+} from "./core/calibration";
+import { CalibrationOverlay } from "./CalibrationOverlay";
+import {
+	GazeHeatmap,
+	ScreenPoint,
+	addGazePoint,
+	createGazeHeatmap,
+	estimateGazePoint,
+	fitGazeModel,
+	gazeCalibrationSteps,
+	smoothGazePoint,
+} from "./core/gazeEstimation";
+import { GazeOverlay } from "./GazeOverlay";
+import { initialFaceTrackerState } from "./core/faceTracker";
+import {
+	EmotionTimeline,
+	addEmotions,
+	buildEmotionTimeline,
+	createEmotionTimeline,
+} from "./core/emotionTimeline";
+import { EmotionTimelinePanel } from "./EmotionTimelinePanel";
+import {
+	PoseTrackerOptions,
+	PoseTrackerSettings,
+	defaultPoseTrackerOptions,
+	initialPoseTrackerState,
+	loadPoseTrackerSettings,
+	savePoseTrackerSettings,
+} from "./core/poseTracker";
+import {
+	FaceResult,
+	HandResult,
+	LandmarkSession,
+	PoseResult,
+	RecordedFrame,
+	downloadFile,
+	sessionFileName,
+	sessionToCSV,
+	sessionToJSON,
+} from "./core/sessionRecorder";
+import { HolisticLayers, TabType } from "./core/types";
+import { parseLandmarkSession, playbackSpeeds } from "./core/sessionPlayer";
+import { batchFpsOptions, summarizeTimeline } from "./core/batchAnalysis";
+import {
+	MemoryPolicy,
+	ModelConfig,
+	ModelKey,
+	ModelLoadProgress,
+	enforceMemoryPolicy,
+	initializeBackend,
+	memoryPolicyOptions,
+	modelNames,
+	modelsForTab,
+} from "./core/modelManager";
+import { FrameSchedulerOptions, FrameSchedulerStats, maxFpsOptions } from "./core/frameScheduler";
+import { PerformanceHud } from "./PerformanceHud";
+import {
+	DetectorOptions,
+	HandModelType,
+	PoseModelType,
+	emotionWindowOptions,
+	handModelTypeOptions,
+	loadDetectorOptions,
+	poseModelTypeOptions,
+	saveDetectorOptions,
+} from "./core/detectorOptions";
+import {
+	DetectorRuntime,
+	RuntimeSettings,
+	TfBackend,
+	backendOptions,
+	loadRuntimeSettings,
+	runtimeOptions,
+	saveRuntimeSettings,
+} from "./core/runtimeSettings";
+import { enforceWorkerMemoryPolicy, isWorkerSupported, onWorkerCrash } from "./core/detectionWorkerClient";
+import {
+	OverlayThemeName,
+	loadOverlayThemeName,
+	overlayThemeOptions,
+	overlayThemes,
+	saveOverlayThemeName,
+} from "./core/overlayTheme";
+import { useVideo } from "./react/useVideo";
+import { useHandpose } from "./react/useHandpose";
+import { useFaceDetection } from "./react/useFaceDetection";
+import { usePoseDetection } from "./react/usePoseDetection";
+import { useHolisticDetection } from "./react/useHolisticDetection";
+import { useSessionRecorder } from "./react/useSessionRecorder";
+import { useSessionPlayer } from "./react/useSessionPlayer";
+import { useBatchAnalysis } from "./react/useBatchAnalysis";
+import { useVideoExport } from "./react/useVideoExport";
 
-// アプリ起動時にTensorFlow.jsのバックエンドを初期化
-tf.setBackend('webgl').then(() => {
-	console.log('TensorFlow.js backend initialized:', tf.getBackend());
-}).catch(err => {
-	console.error('Failed to initialize TensorFlow.js backend:', err);
-});
-
-type TabType = "hand" | "face" | "pose";
-
-const useVideo = (
-	videoRef: RefObject<HTMLVideoElement>,
-	videoFile: File | null
-) => {
-	const [isAllowed, setIsAllowed] = useState(false);
-	const [isVideoReady, setIsVideoReady] = useState(false);
+function App() {
+	const videoRef = useRef<HTMLVideoElement>(null);
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	// Workerで描画するときのキャンバス（OffscreenCanvasとしてWorkerに渡すため、再生・一括解析用とは分ける）
+	const workerCanvasRef = useRef<HTMLCanvasElement>(null);
+	// 検出結果のオーバーレイの表示テーマ（localStorageに保存する）
+	const [overlayThemeName, setOverlayThemeName] = useState<OverlayThemeName>(loadOverlayThemeName);
+	const overlayTheme = overlayThemes[overlayThemeName];
+	const [videoFile, setVideoFile] = useState<File | null>(null);
+	// 再生中の記録セッション（再生中はカメラもモデルも使わない）
+	const [replaySession, setReplaySession] = useState<LandmarkSession | null>(null);
+	const isReplaying = replaySession !== null;
+	const { isAllowed, isVideoReady } = useVideo(videoRef, videoFile, !isReplaying);
+	const [activeTab, setActiveTab] = useState<TabType>("face");
+	const player = useSessionPlayer(canvasRef, replaySession, overlayTheme);
+	const recorder = useSessionRecorder(videoRef, videoFile, activeTab);
+	const batch = useBatchAnalysis(videoRef, canvasRef, videoFile, activeTab, overlayTheme);
+	const [batchFps, setBatchFps] = useState<number | "all">(10);
+	// 再生中・一括解析中はリアルタイム検出を止める
+	const isLiveDetection = !isReplaying && !batch.isRunning;
+	const { recordFrame } = recorder;
+
+	// 同時に保持するモデル数。表示中のタブで使うモデルだけを読み込み、それ以外はこのポリシーに従って解放する
+	const [memoryPolicy, setMemoryPolicy] = useState<MemoryPolicy>(2);
+	// 使用するバックエンドと検出器ごとのランタイム（localStorageに保存する）
+	const [runtimeSettings, setRuntimeSettings] = useState<RuntimeSettings>(loadRuntimeSettings);
+	// 実際に初期化できたバックエンド（指定したものが使えない場合は別のバックエンドになる）
+	const [activeBackend, setActiveBackend] = useState<TfBackend | null>(null);
+	const [showRuntimeSettings, setShowRuntimeSettings] = useState(false);
+	// リアルタイム検出の推論と描画をWorkerで行うか（対応していないブラウザでは設定を無視する）
+	const inWorker = runtimeSettings.worker && isWorkerSupported();
+	// 検出Workerが異常終了した回数と最後のエラー
+	// 異常終了したWorkerに渡したキャンバスには描画できないため、回数をkeyにしてキャンバス要素を作り直す
+	const [workerCrash, setWorkerCrash] = useState<{ count: number; message: string } | null>(null);
+	useEffect(() => onWorkerCrash(message => {
+		setWorkerCrash(crash => ({ count: (crash?.count ?? 0) + 1, message }));
+	}), []);
+	// リアルタイム検出の描画先
+	const liveCanvasRef = inWorker ? workerCanvasRef : canvasRef;
+	const videoExport = useVideoExport(videoRef, isLiveDetection ? liveCanvasRef : canvasRef, videoFile);
+	// 検出器ごとのモデルの種類・検出数・閾値など（localStorageに保存する）
+	const [detectorOptions, setDetectorOptions] = useState<DetectorOptions>(loadDetectorOptions);
+	const [showDetectorOptions, setShowDetectorOptions] = useState(false);
 
-	// ファイルが選択された場合の処理
 	useEffect(() => {
-		if (videoFile && videoRef.current) {
-			console.log("動画ファイルが選択されました:", videoFile.name);
-			
-			// カメラのストリームを停止
-			const mediaStream = videoRef.current.srcObject as MediaStream;
-			if (mediaStream) {
-				mediaStream.getTracks().forEach(track => {
-					track.stop();
-					console.log("カメラトラック停止:", track.kind);
-				});
-			}
-
-			// 動画の準備状態をリセット
-			setIsVideoReady(false);
+		saveDetectorOptions(detectorOptions);
+	}, [detectorOptions]);
 
-			try {
-				// ファイルからの動画を設定
-				const fileURL = URL.createObjectURL(videoFile);
-				console.log("動画ファイルURL:", fileURL);
-				
-				// video要素をリセット
-				videoRef.current.pause();
-				videoRef.current.removeAttribute('srcObject');
-				videoRef.current.srcObject = null;
-				videoRef.current.src = fileURL;
-				videoRef.current.muted = false;
-				videoRef.current.crossOrigin = "anonymous";
-				videoRef.current.load();
-				
-				console.log("動画要素設定完了");
-				
-				// メタデータが読み込まれたら準備完了とマーク
-				videoRef.current.onloadedmetadata = () => {
-					console.log("動画メタデータ読み込み完了:", videoRef.current?.videoWidth, "x", videoRef.current?.videoHeight);
-					
-					// メタデータが読み込まれた後、実際の再生開始
-					videoRef.current?.play().then(() => {
-						console.log("動画再生開始");
-						setIsVideoReady(true);
-					}).catch(err => {
-						console.error("動画再生エラー:", err);
-					});
-				};
-				
-				// 再生終了時にループ再生
-				videoRef.current.onended = () => {
-					console.log("動画再生終了、ループします");
-					if (videoRef.current) {
-						videoRef.current.currentTime = 0;
-						videoRef.current.play().catch(err => {
-							console.error("動画ループ再生エラー:", err);
-						});
-					}
-				};
-				
-				// エラーハンドリング
-				videoRef.current.onerror = (e) => {
-					console.error("動画読み込みエラー:", e);
-				};
-				
-				setIsAllowed(true);
-			} catch (error) {
-				console.error("動画設定エラー:", error);
-			}
-			
-			// クリーンアップ
-			return () => {
-				if (videoRef.current) {
-					const oldSrc = videoRef.current.src;
-					videoRef.current.onloadedmetadata = null;
-					videoRef.current.onended = null;
-					videoRef.current.onerror = null;
-					videoRef.current.pause();
-					videoRef.current.src = "";
-					videoRef.current.load();
-					if (oldSrc) {
-						URL.revokeObjectURL(oldSrc);
-					}
-					console.log("動画リソース解放");
-				}
-				setIsVideoReady(false);
-			};
-		} else if (!videoFile) {
-			// ファイルがない場合はカメラを使用
-			const setupCamera = async () => {
-				if (!videoRef.current) return;
-				try {
-					if (navigator.mediaDevices.getUserMedia) {
-						const stream = await navigator.mediaDevices.getUserMedia({
-							video: true,
-						});
-						videoRef.current.srcObject = stream;
-						videoRef.current.muted = true; // カメラ映像はミュート
-						
-						// カメラのメタデータが読み込まれたら準備完了とマーク
-						videoRef.current.onloadedmetadata = () => {
-							console.log("カメラ映像メタデータ読み込み完了");
-							setIsVideoReady(true);
-						};
-					}
-					setIsAllowed(true);
-				} catch (err) {
-					console.error("カメラアクセスエラー:", err);
-					setIsAllowed(false);
-				}
-			};
-
-			setupCamera();
-			
-			// クリーンアップ
-			return () => {
-				if (videoRef.current) {
-					videoRef.current.onloadedmetadata = null;
-					videoRef.current.onloadeddata = null;
-					if (videoRef.current.srcObject) {
-						const mediaStream = videoRef.current.srcObject as MediaStream;
-						mediaStream.getTracks().forEach(track => track.stop());
-					}
-				}
-				setIsVideoReady(false);
-			};
-		}
-	}, [videoRef, videoFile]);
+	// 人物の追跡の設定（保存して次回も使う）
+	const [poseTrackerSettings, setPoseTrackerSettings] = useState<PoseTrackerSettings>(loadPoseTrackerSettings);
+	useEffect(() => {
+		savePoseTrackerSettings(poseTrackerSettings);
+	}, [poseTrackerSettings]);
 
-	return {
-		isAllowed,
-		isVideoReady,
-	}
-};
+	// ポーズ検出のキーポイントの閾値を追跡にも使う
+	const poseTrackerOptions = useMemo<PoseTrackerOptions>(
+		() => ({ ...defaultPoseTrackerOptions, ...poseTrackerSettings, minKeypointScore: detectorOptions.pose.minKeypointScore }),
+		[poseTrackerSettings, detectorOptions.pose.minKeypointScore]
+	);
 
-const useHandpose = (
-	videoRef: RefObject<HTMLVideoElement>,
-	canvasRef: RefObject<HTMLCanvasElement>,
-	isVideoReady: boolean,
-) => {
-	const [isLoading, setIsLoading] = useState(false);
-	const [model, setModel] = useState<handPoseDetection.HandDetector>();
+	// 検出器の設定を一部だけ変更する
+	const updateDetectorOptions = <K extends ModelKey>(key: K, changes: Partial<DetectorOptions[K]>) => {
+		setDetectorOptions(options => ({ ...options, [key]: { ...options[key], ...changes } }));
+	};
 
 	useEffect(() => {
-		const loadHandpose = async () => {
-			try {
-				// TensorFlowバックエンドの準備を確認
-				await tf.ready();
-				
-				// MediaPipeHandsモデルを使用
-				const model = handPoseDetection.SupportedModels.MediaPipeHands;
-				const detectorConfig = {
-					runtime: 'tfjs' as const,
-					modelType: 'full' as const,
-					maxHands: 2  // 最大2つの手を検出
-				};
-				const detector = await handPoseDetection.createDetector(
-					model,
-					detectorConfig
-				);
-				
-				setModel(detector);
-			} catch (error) {
-				console.error("手の検出モデルの読み込みエラー:", error);
-			}
-		};
-
-		setIsLoading(true);
-		loadHandpose().finally(() => {
-			setIsLoading(false)
-		});
-	}, []);
+		saveRuntimeSettings(runtimeSettings);
+	}, [runtimeSettings]);
 
 	useEffect(() => {
-		// 接続するランドマークのペア（骨格を描画するため）
-		const connections = [
-			// 親指
-			[0, 1], [1, 2], [2, 3], [3, 4],
-			// 人差し指
-			[0, 5], [5, 6], [6, 7], [7, 8],
-			// 中指
-			[0, 9], [9, 10], [10, 11], [11, 12],
-			// 薬指
-			[0, 13], [13, 14], [14, 15], [15, 16],
-			// 小指
-			[0, 17], [17, 18], [18, 19], [19, 20],
-			// 手のひら
-			[0, 5], [5, 9], [9, 13], [13, 17], [0, 17]
-		];
+		saveOverlayThemeName(overlayThemeName);
+	}, [overlayThemeName]);
 
-		const detect = async () => {
-			if (!model) return;
-			if (!videoRef.current) return;
-			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
-			
-			try {
-				// 動画のサイズチェック
-				if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
-					console.log("動画サイズが無効です。スキップします。");
-					return;
-				}
-				
-				// キャンバスサイズを動画サイズに合わせる
-				if (canvasRef.current) {
-					canvasRef.current.width = videoRef.current.videoWidth;
-					canvasRef.current.height = videoRef.current.videoHeight;
-				}
-
-				const hands = await model.estimateHands(videoRef.current);
-
-				if (!canvasRef.current) return;
-				const ctx = canvasRef.current.getContext("2d");
-				if (!ctx) return;
-
-				ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-
-				// 検出された各手について処理
-				for (let i = 0; i < hands.length; i++) {
-					const hand = hands[i];
-					const keypoints = hand.keypoints;
-					
-					// 各ランドマークを描画
-					for (let j = 0; j < keypoints.length; j++) {
-						const { x, y } = keypoints[j];
-						ctx.beginPath();
-						ctx.arc(x, y, 5, 0, 3 * Math.PI);
-						ctx.fillStyle = "aqua";
-						ctx.fill();
-					}
-					
-					// 骨格（指の接続）を描画
-					for (const [start, end] of connections) {
-						const startPoint = keypoints[start];
-						const endPoint = keypoints[end];
-						
-						if (startPoint && endPoint) {
-							ctx.beginPath();
-							ctx.moveTo(startPoint.x, startPoint.y);
-							ctx.lineTo(endPoint.x, endPoint.y);
-							ctx.strokeStyle = "yellow";
-							ctx.lineWidth = 2;
-							ctx.stroke();
-						}
-					}
-					
-					// 手の種類（左/右）を表示
-					const handedness = hand.handedness; // 'Left' または 'Right'
-					// ビデオ反転を削除したので、そのまま表示
-					const handText = `${handedness} Hand`;
-					ctx.font = "16px Arial";
-					ctx.fillStyle = "white";
-					
-					// 手首の位置の近くにテキストを表示
-					const wrist = keypoints[0];
-					if (wrist) {
-						ctx.fillText(handText, wrist.x - 20, wrist.y - 10);
-					}
-				}
-			} catch (error) {
-				console.error("手の検出エラー:", error);
-			}
+	useEffect(() => {
+		let cancelled = false;
+		setActiveBackend(null);
+		initializeBackend(runtimeSettings.backend)
+			.then(backend => {
+				if (!cancelled) setActiveBackend(backend);
+			})
+			.catch(error => {
+				console.error("Failed to initialize TensorFlow.js backend:", error);
+				alert("TensorFlow.jsのバックエンドを初期化できませんでした");
+			});
+		return () => {
+			cancelled = true;
 		};
+	}, [runtimeSettings.backend]);
+
+	// 表示中のタブで使うモデルだけを読み込む（再生中とバックエンドの初期化中はモデルを使わない）
+	const modelConfigFor = <K extends ModelKey>(key: K): ModelConfig<K> | null =>
+		!isReplaying && activeBackend && modelsForTab(activeTab).includes(key)
+			? {
+				runtime: runtimeSettings.runtimes[key],
+				backend: activeBackend,
+				options: detectorOptions[key],
+				worker: inWorker,
+			}
+			: null;
+
+	// 検出フレームレートの上限と、実際の検出の統計
+	const [maxFps, setMaxFps] = useState<number | null>(null);
+	const [schedulerStats, setSchedulerStats] = useState<FrameSchedulerStats | null>(null);
+	const [showPerformance, setShowPerformance] = useState(false);
+	const schedulerOptions = useMemo<FrameSchedulerOptions>(
+		() => ({ maxFps, onStats: setSchedulerStats }),
+		[maxFps]
+	);
 
-		const interval = setInterval(detect, 100); // 0.1秒ごとに検出
-		return () => clearInterval(interval);
-	}, [model, videoRef, canvasRef, isVideoReady]);
-
-	return {
-		isLoading,
-	}
-};
-
-const useFaceDetection = (
-	videoRef: RefObject<HTMLVideoElement>,
-	canvasRef: RefObject<HTMLCanvasElement>,
-	isVideoReady: boolean,
-) => {
-	const [isLoading, setIsLoading] = useState(false);
-	const [model, setModel] = useState<faceLandmarksDetection.FaceLandmarksDetector>();
-	const [emotion, setEmotion] = useState<string>("検出中...");
-	const [irisPosition, setIrisPosition] = useState<{ leftEye: string; rightEye: string; overall: string }>({
-		leftEye: "検出中",
-		rightEye: "検出中",
-		overall: "虹彩を検出中..."
-	});
+	// プロファイルごとの視線と無表情の基準（localStorageに保存する）
+	const [calibrationProfiles, setCalibrationProfiles] = useState<CalibrationProfiles>(loadCalibrationProfiles);
+	const [showCalibration, setShowCalibration] = useState(false);
+	// 実行中のキャリブレーション（"baseline" は視線と無表情の基準、"gaze" は注視点の9点キャリブレーション）
+	const [calibrationMode, setCalibrationMode] = useState<"baseline" | "gaze" | null>(null);
+	const activeCalibration = calibrationProfiles.profiles[calibrationProfiles.activeProfile] ?? null;
+	const activeGazeModel = calibrationProfiles.gazeModels[calibrationProfiles.activeProfile] ?? null;
 
 	useEffect(() => {
-		const loadFaceDetection = async () => {
-			try {
-				// TensorFlowバックエンドの準備を確認
-				await tf.ready();
-				
-				const model = faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh;
-				const detectorConfig = {
-					runtime: 'tfjs',
-					refineLandmarks: true, // 詳細なランドマークを取得
-					maxFaces: 1
-				} as const;
-				const detector = await faceLandmarksDetection.createDetector(
-					model,
-					detectorConfig
-				);
-				setModel(detector);
-			} catch (error) {
-				console.error("顔検出モデルの読み込みエラー:", error);
-			}
-		};
+		saveCalibrationProfiles(calibrationProfiles);
+	}, [calibrationProfiles]);
+
+	const addCalibrationProfile = () => {
+		const name = prompt("プロファイル名を入力してください")?.trim();
+		if (!name) return;
+		setCalibrationProfiles(current => ({
+			...current,
+			activeProfile: name,
+			profiles: { ...current.profiles, [name]: current.profiles[name] ?? null },
+		}));
+	};
 
-		setIsLoading(true);
-		loadFaceDetection().finally(() => {
-			setIsLoading(false);
+	const deleteCalibrationProfile = () => {
+		setCalibrationProfiles(current => {
+			const profiles = { ...current.profiles };
+			delete profiles[current.activeProfile];
+			const names = Object.keys(profiles);
+			if (names.length === 0) return current;
+			const gazeModels = { ...current.gazeModels };
+			delete gazeModels[current.activeProfile];
+			return { activeProfile: names[0], profiles, gazeModels };
 		});
-	}, []);
+	};
 
-	// 虹彩位置検出関数
-	const detectIrisPosition = (keypoints: faceLandmarksDetection.Keypoint[]) => {
-		// MediaPipe FaceMeshの虹彩関連のランドマーク
-		// 左目虹彩: 468-472
-		// 右目虹彩: 473-477
-		const leftIrisCenter = keypoints[468]; // 左虹彩の中心
-		const rightIrisCenter = keypoints[473]; // 右虹彩の中心
+	// まばたき・眠気・あくび・よそ見の警告の設定（localStorageに保存する）
+	const [attentionSettings, setAttentionSettings] = useState<AttentionSettings>(loadAttentionSettings);
 
-		// 目の端のランドマーク
-		const leftEyeInner = keypoints[133]; // 左目内側
-		const leftEyeOuter = keypoints[33];  // 左目外側
-		const rightEyeInner = keypoints[362]; // 右目内側
-		const rightEyeOuter = keypoints[263]; // 右目外側
+	useEffect(() => {
+		saveAttentionSettings(attentionSettings);
+	}, [attentionSettings]);
 
-		// 目の上下のランドマーク
-		const leftEyeTop = keypoints[159];
-		const leftEyeBottom = keypoints[145];
-		const rightEyeTop = keypoints[386];
-		const rightEyeBottom = keypoints[374];
+	// 各検出結果を記録用に受け取る
+	const recordHands = useCallback((hands: HandResult[]) => recordFrame({ hands }), [recordFrame]);
+	const recordFaces = useCallback((faces: FaceResult[]) => recordFrame({ faces }), [recordFrame]);
+	const recordPoses = useCallback((poses: PoseResult[]) => recordFrame({ poses }), [recordFrame]);
+	
+	const {
+		isLoading: isHandLoading,
+		loadProgress: handLoadProgress,
+		gestures: handGestures,
+		dynamicGestures,
+		analyzeFrame: analyzeHands,
+	} = useHandpose(
+		activeTab === "hand" && isLiveDetection ? videoRef : { current: null },
+		activeTab === "hand" && isLiveDetection ? liveCanvasRef : { current: null },
+		isVideoReady,
+		modelConfigFor("hand"),
+		schedulerOptions,
+		recordHands,
+		overlayTheme
+	);
+	
+	const {
+		isLoading: isFaceLoading,
+		loadProgress: faceLoadProgress,
+		faces: detectedFaces,
+		attention,
+		subscribeSamples: subscribeFaceSamples,
+		analyzeFrame: analyzeFaces,
+	} = useFaceDetection(
+		activeTab === "face" && isLiveDetection ? videoRef : { current: null },
+		activeTab === "face" && isLiveDetection ? liveCanvasRef : { current: null },
+		isVideoReady,
+		modelConfigFor("face"),
+		schedulerOptions,
+		activeCalibration,
+		attentionSettings,
+		recordFaces,
+		overlayTheme
+	);
 
-		if (!leftIrisCenter || !rightIrisCenter) {
-			return {
-				leftEye: "検出中",
-				rightEye: "検出中",
-				overall: "虹彩を検出中..."
-			};
-		}
+	const completeBaselineCalibration = (samples: CalibrationSamples) => {
+		const calibration = buildCalibration(samples, defaultGazeBaseline);
+		if (!calibration) return "キャリブレーションに必要な値を集められませんでした";
+		setCalibrationProfiles(current => ({
+			...current,
+			profiles: { ...current.profiles, [current.activeProfile]: calibration },
+		}));
+		setCalibrationMode(null);
+	};
 
-		// 左目の虹彩位置を計算
-		const leftEyeWidth = Math.abs(leftEyeOuter.x - leftEyeInner.x);
-		const leftEyeHeight = Math.abs(leftEyeBottom.y - leftEyeTop.y);
-		const leftIrisRelativeX = (leftIrisCenter.x - leftEyeInner.x) / leftEyeWidth;
-		const leftIrisRelativeY = (leftIrisCenter.y - leftEyeTop.y) / leftEyeHeight;
+	const completeGazeCalibration = (samples: CalibrationSamples) => {
+		const model = fitGazeModel(gazeCalibrationSteps.flatMap(({ key, target }) =>
+			target ? (samples[key] ?? []).map(sample => ({ iris: sample.iris, target })) : []
+		));
+		if (!model) return "注視点の推定モデルを作れませんでした。頭を動かさずに点を見てください";
+		setCalibrationProfiles(current => ({
+			...current,
+			gazeModels: { ...current.gazeModels, [current.activeProfile]: model },
+		}));
+		setGazeHeatmap(createGazeHeatmap());
+		setCalibrationMode(null);
+	};
 
-		// 右目の虹彩位置を計算
-		const rightEyeWidth = Math.abs(rightEyeOuter.x - rightEyeInner.x);
-		const rightEyeHeight = Math.abs(rightEyeBottom.y - rightEyeTop.y);
-		const rightIrisRelativeX = (rightIrisCenter.x - rightEyeInner.x) / rightEyeWidth;
-		const rightIrisRelativeY = (rightIrisCenter.y - rightEyeTop.y) / rightEyeHeight;
+	// 推定した注視点（画面の幅・高さに対する割合）と、その分布
+	const [gazePoint, setGazePoint] = useState<ScreenPoint | null>(null);
+	const [gazeHeatmap, setGazeHeatmap] = useState<GazeHeatmap>(createGazeHeatmap);
+	const [showGazeHeatmap, setShowGazeHeatmap] = useState(true);
 
-		// 左目の方向を判定
-		let leftEyeDirection = "中央";
-		if (leftIrisRelativeX < 0.35) {
-			leftEyeDirection = "外側";
-		} else if (leftIrisRelativeX > 0.65) {
-			leftEyeDirection = "内側";
-		}
+	const clearGazeHeatmap = () => setGazeHeatmap(createGazeHeatmap());
 
-		if (leftIrisRelativeY < 0.35) {
-			leftEyeDirection = leftEyeDirection === "中央" ? "上" : leftEyeDirection + "・上";
-		} else if (leftIrisRelativeY > 0.65) {
-			leftEyeDirection = leftEyeDirection === "中央" ? "下" : leftEyeDirection + "・下";
+	// 最もIDの小さい顔の虹彩の位置から注視点を推定し、ヒートマップに加える
+	useEffect(() => {
+		if (!activeGazeModel || calibrationMode) {
+			setGazePoint(null);
+			return;
 		}
+		return subscribeFaceSamples(sample => {
+			const point = estimateGazePoint(activeGazeModel, sample.iris);
+			setGazePoint(previous => smoothGazePoint(previous, point));
+			setGazeHeatmap(heatmap => addGazePoint(heatmap, point));
+		});
+	}, [activeGazeModel, calibrationMode, subscribeFaceSamples]);
 
-		// 右目の方向を判定
-		let rightEyeDirection = "中央";
-		if (rightIrisRelativeX < 0.35) {
-			rightEyeDirection = "内側";
-		} else if (rightIrisRelativeX > 0.65) {
-			rightEyeDirection = "外側";
-		}
+	// 検出した顔の表情の推移（1秒ごと）
+	const [emotionTimeline, setEmotionTimeline] = useState<EmotionTimeline>(createEmotionTimeline);
 
-		if (rightIrisRelativeY < 0.35) {
-			rightEyeDirection = rightEyeDirection === "中央" ? "上" : rightEyeDirection + "・上";
-		} else if (rightIrisRelativeY > 0.65) {
-			rightEyeDirection = rightEyeDirection === "中央" ? "下" : rightEyeDirection + "・下";
-		}
+	const clearEmotionTimeline = () => setEmotionTimeline(createEmotionTimeline());
 
-		// 全体的な視線方向を判定
-		let overallDirection = "正面";
-		const avgX = (leftIrisRelativeX + rightIrisRelativeX) / 2;
-		const avgY = (leftIrisRelativeY + rightIrisRelativeY) / 2;
+	useEffect(() => {
+		setEmotionTimeline(timeline => addEmotions(timeline, detectedFaces.map(face => face.emotion), Date.now()));
+	}, [detectedFaces]);
 
-		if (avgX < 0.35) {
-			overallDirection = "右";
-		} else if (avgX > 0.65) {
-			overallDirection = "左";
-		}
+	// 再生中は記録ファイルの表情の推移を表示する（表情の推移を書き出す前のファイルはフレームから求める）
+	const replayEmotionTimeline = useMemo(
+		() => replaySession && (replaySession.emotionTimeline ?? buildEmotionTimeline(replaySession.frames)),
+		[replaySession]
+	);
 
-		if (avgY < 0.35) {
-			overallDirection = overallDirection === "正面" ? "上" : overallDirection + "上";
-		} else if (avgY > 0.65) {
-			overallDirection = overallDirection === "正面" ? "下" : overallDirection + "下";
-		}
+	// ポーズ検出タブで回数を数える運動（nullなら数えない）
+	const [exercise, setExercise] = useState<ExerciseType | null>(null);
+
+	const {
+		isLoading: isPoseLoading,
+		loadProgress: poseLoadProgress,
+		repCounters,
+		resetRepCounters,
+		analyzeFrame: analyzePoses,
+	} = usePoseDetection(
+		activeTab === "pose" && isLiveDetection ? videoRef : { current: null },
+		activeTab === "pose" && isLiveDetection ? liveCanvasRef : { current: null },
+		isVideoReady,
+		modelConfigFor("pose"),
+		schedulerOptions,
+		exercise,
+		poseTrackerOptions,
+		recordPoses,
+		overlayTheme
+	);
 
-		return {
-			leftEye: leftEyeDirection,
-			rightEye: rightEyeDirection,
-			overall: `視線: ${overallDirection}`
-		};
+	// 統合検出タブで表示するレイヤー
+	const [holisticLayers, setHolisticLayers] = useState<HolisticLayers>({ pose: true, face: true, hand: true });
+	const toggleHolisticLayer = (layer: keyof HolisticLayers) => {
+		setHolisticLayers(layers => ({ ...layers, [layer]: !layers[layer] }));
 	};
 
-	// 表情検出関数
-	const detectEmotion = (keypoints: faceLandmarksDetection.Keypoint[]) => {
-		// 主要なランドマークのインデックス（MediaPipe Facemeshの場合）
-		// 口角のインデックス
-		const leftMouthCorner = keypoints.find(kp => kp.name === 'leftMouthCorner') || keypoints[61];
-		const rightMouthCorner = keypoints.find(kp => kp.name === 'rightMouthCorner') || keypoints[291];
-		
-		// 口の上下のインデックス
-		const upperLipTop = keypoints.find(kp => kp.name === 'upperLipTop') || keypoints[13];
-		const lowerLipBottom = keypoints.find(kp => kp.name === 'lowerLipBottom') || keypoints[14];
-		
-		// 目のインデックス
-		const leftEyeTop = keypoints.find(kp => kp.name === 'leftEyeTop') || keypoints[159];
-		const leftEyeBottom = keypoints.find(kp => kp.name === 'leftEyeBottom') || keypoints[145];
-		const rightEyeTop = keypoints.find(kp => kp.name === 'rightEyeTop') || keypoints[386];
-		const rightEyeBottom = keypoints.find(kp => kp.name === 'rightEyeBottom') || keypoints[374];
-		
-		// 眉毛のインデックス
-		const leftEyebrowTop = keypoints.find(kp => kp.name === 'leftEyebrowTop') || keypoints[66];
-		const rightEyebrowTop = keypoints.find(kp => kp.name === 'rightEyebrowTop') || keypoints[296];
-		const leftEyebrowBottom = keypoints.find(kp => kp.name === 'leftEyebrowBottom') || keypoints[65];
-		const rightEyebrowBottom = keypoints.find(kp => kp.name === 'rightEyebrowBottom') || keypoints[295];
-		
-		// 笑顔の検出（口角が上がっているか）
-		const mouthCenter = {
-			x: (leftMouthCorner.x + rightMouthCorner.x) / 2,
-			y: (leftMouthCorner.y + rightMouthCorner.y) / 2
-		};
-		
-		// 口の開き具合
-		const mouthOpenness = Math.abs(upperLipTop.y - lowerLipBottom.y);
-		
-		// 口角の上がり具合（yが小さいほど上）
-		const leftCornerHeight = mouthCenter.y - leftMouthCorner.y;
-		const rightCornerHeight = mouthCenter.y - rightMouthCorner.y;
-		const averageCornerHeight = (leftCornerHeight + rightCornerHeight) / 2;
-		
-		// 口角の下がり具合（yが大きいほど下）
-		const leftCornerDropping = leftMouthCorner.y - mouthCenter.y;
-		const rightCornerDropping = rightMouthCorner.y - mouthCenter.y;
-		const averageCornerDropping = (leftCornerDropping + rightCornerDropping) / 2;
-		
-		// 目の開き具合
-		const leftEyeOpenness = Math.abs(leftEyeTop.y - leftEyeBottom.y);
-		const rightEyeOpenness = Math.abs(rightEyeTop.y - rightEyeBottom.y);
-		const averageEyeOpenness = (leftEyeOpenness + rightEyeOpenness) / 2;
-		
-		// 眉の位置と動き
-		const eyebrowHeight = (leftEyebrowTop.y + rightEyebrowTop.y) / 2;
-		const eyesHeight = (leftEyeTop.y + rightEyeTop.y) / 2;
-		const eyebrowEyeDistance = eyesHeight - eyebrowHeight;
-		
-		// 眉間の寄り具合
-		const eyebrowInnerDistance = Math.abs(leftEyebrowBottom.x - rightEyebrowBottom.x);
-		
-		// ウインクの検出
-		const isLeftWink = leftEyeOpenness < rightEyeOpenness * 0.4;
-		const isRightWink = rightEyeOpenness < leftEyeOpenness * 0.4;
-		
-		// 大喜びの検出（眉が上がり、口が大きく開き、口角も上がっている）
-		if (eyebrowEyeDistance > 15 && mouthOpenness > 15 && averageCornerHeight > 8) {
-			return "大喜び 🤩";
-		}
-		
-		// 笑顔の判定（口角が上がっていて、目が少し細くなっている）
-		if (averageCornerHeight > 5 && mouthOpenness > 3) {
-			return "笑顔 😊";
-		}
-		
-		// ウインクの検出
-		if (isLeftWink && !isRightWink) {
-			return "左ウインク 😉";
-		}
-		if (isRightWink && !isLeftWink) {
-			return "右ウインク 😉";
-		}
-		
-		// 驚きの判定（目が大きく開いていて、口も開いている、眉も上がっている）
-		if (averageEyeOpenness > 15 && mouthOpenness > 10 && eyebrowEyeDistance > 12) {
-			return "驚き 😲";
-		}
-		
-		// 悲しみの判定（口角が下がっている、目が細い）
-		if (averageCornerDropping > 5 && averageEyeOpenness < 10) {
-			return "悲しみ 😢";
-		}
-		
-		// 怒りの判定（眉間が寄っている、口が開いている）
-		if (eyebrowInnerDistance < 60 && mouthOpenness > 5) {
-			return "怒り 😠";
-		}
-		
-		// 眠そうな表情（目が半分閉じている）
-		if (averageEyeOpenness < 7) {
-			return "眠い 😴";
-		}
-		
-		// 困惑/混乱（眉が上がっている、口が少し開いている）
-		if (eyebrowEyeDistance > 10 && mouthOpenness > 3 && mouthOpenness < 10) {
-			return "困惑 🤔";
-		}
-		
-		// 真面目な表情（口がほぼ閉じている、表情があまり変化していない）
-		if (mouthOpenness < 5 && Math.abs(averageCornerHeight) < 3) {
-			return "真面目 😐";
-		}
-		
-		// 十分な特徴がない場合
-		return "中立 😶";
-	};
+	const { counts: holisticCounts } = useHolisticDetection(
+		activeTab === "holistic" && isLiveDetection ? videoRef : { current: null },
+		activeTab === "holistic" && isLiveDetection ? liveCanvasRef : { current: null },
+		isVideoReady,
+		schedulerOptions,
+		holisticLayers,
+		detectorOptions.pose.minKeypointScore,
+		inWorker,
+		{ hands: analyzeHands, faces: analyzeFaces, poses: analyzePoses },
+		recordFrame,
+		overlayTheme
+	);
 
+	// 使わなくなったモデルをメモリポリシーに従って解放する
 	useEffect(() => {
-		const detect = async () => {
-			if (!model) return;
-			if (!videoRef.current) return;
-			if (!canvasRef.current) return;
-			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
-			
-			try {
-				// 動画のサイズチェック
-				if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
-					console.log("動画サイズが無効です。スキップします。");
-					return;
-				}
-				
-				// キャンバスサイズを動画サイズに合わせる
-				canvasRef.current.width = videoRef.current.videoWidth;
-				canvasRef.current.height = videoRef.current.videoHeight;
-				
-				const faces = await model.estimateFaces(videoRef.current);
-				
-				const ctx = canvasRef.current.getContext("2d");
-				if (!ctx) return;
-
-				ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-
-				for (let i = 0; i < faces.length; i++) {
-					const face = faces[i];
-					const keypoints = face.keypoints;
-					
-					// 表情と虹彩位置を検出
-					if (keypoints.length > 0) {
-						const detectedEmotion = detectEmotion(keypoints);
-						setEmotion(detectedEmotion);
-
-						// 虹彩位置を検出
-						const detectedIris = detectIrisPosition(keypoints);
-						setIrisPosition(detectedIris);
-					}
-					
-					// ランドマークの描画
-					for (let j = 0; j < keypoints.length; j++) {
-						const { x, y } = keypoints[j];
-						ctx.beginPath();
-
-						// 虹彩関連のランドマークを強調表示
-						if (j >= 468 && j <= 477) {
-							// 虹彩のランドマーク（468-477）を黄色で大きく表示
-							ctx.arc(x, y, 3, 0, 3 * Math.PI);
-							ctx.fillStyle = "yellow";
-						} else if ([33, 133, 159, 145, 263, 362, 386, 374].includes(j)) {
-							// 目の端と上下のランドマークを青で表示
-							ctx.arc(x, y, 2, 0, 3 * Math.PI);
-							ctx.fillStyle = "cyan";
-						} else {
-							// その他のランドマーク
-							ctx.arc(x, y, 1, 0, 3 * Math.PI);
-							ctx.fillStyle = "red";
-						}
-						ctx.fill();
-					}
-					
-					// 顔の中心と上部を計算
-					let faceTop = 50; // デフォルト値
-					let faceCenter = canvasRef.current.width / 2; // デフォルト値
-					
-					// 髪の生え際あたりのポイント (10番目あたり)を探す
-					const foreheadPoint = keypoints.find(kp => kp.name === 'foreheadMid') || keypoints[10];
-					if (foreheadPoint) {
-						faceTop = foreheadPoint.y - 40; // 額の少し上
-						faceCenter = foreheadPoint.x;
-					} else {
-						// 目の位置からも推定可能
-						const leftEye = keypoints.find(kp => kp.name === 'leftEye') || keypoints[159];
-						const rightEye = keypoints.find(kp => kp.name === 'rightEye') || keypoints[386];
-						
-						if (leftEye && rightEye) {
-							faceCenter = (leftEye.x + rightEye.x) / 2;
-							faceTop = Math.min(leftEye.y, rightEye.y) - 50;
-						}
-					}
-					
-					// 表示位置が画面外にならないよう調整
-					faceTop = Math.max(30, faceTop);
-					
-					// 表情の表示 - 顔の上部に表示
-					const emotionText = `${emotion}`;
-					ctx.font = "bold 24px Arial";
-
-					// テキストの幅を取得してセンタリング
-					const textWidth = ctx.measureText(emotionText).width;
-					const textX = faceCenter - (textWidth / 2);
-
-					// テキストに縁取りを追加して視認性を向上
-					ctx.strokeStyle = "black";
-					ctx.lineWidth = 3;
-					ctx.strokeText(emotionText, textX, faceTop);
-
-					// テキスト
-					ctx.fillStyle = "white";
-					ctx.fillText(emotionText, textX, faceTop);
-
-					// 虹彩位置の表示 - 表情の下に表示
-					const irisText = irisPosition.overall;
-					ctx.font = "bold 20px Arial";
-
-					const irisTextWidth = ctx.measureText(irisText).width;
-					const irisTextX = faceCenter - (irisTextWidth / 2);
-					const irisTextY = faceTop + 30;
-
-					// 縁取り
-					ctx.strokeStyle = "black";
-					ctx.lineWidth = 3;
-					ctx.strokeText(irisText, irisTextX, irisTextY);
-
-					// テキスト
-					ctx.fillStyle = "yellow";
-					ctx.fillText(irisText, irisTextX, irisTextY);
-
-					// 各目の詳細（小さく表示）
-					ctx.font = "14px Arial";
-					const detailText = `左目: ${irisPosition.leftEye} | 右目: ${irisPosition.rightEye}`;
-					const detailTextWidth = ctx.measureText(detailText).width;
-					const detailTextX = faceCenter - (detailTextWidth / 2);
-					const detailTextY = irisTextY + 20;
-
-					ctx.strokeStyle = "black";
-					ctx.lineWidth = 2;
-					ctx.strokeText(detailText, detailTextX, detailTextY);
-
-					ctx.fillStyle = "white";
-					ctx.fillText(detailText, detailTextX, detailTextY);
+		const activeKeys = isReplaying ? [] : modelsForTab(activeTab);
+		// メインスレッドとWorkerは別々にモデルを保持しているため、使っていない側のモデルはすべて解放の対象にする
+		enforceMemoryPolicy(inWorker ? [] : activeKeys, memoryPolicy);
+		enforceWorkerMemoryPolicy(inWorker ? activeKeys : [], memoryPolicy);
+	}, [activeTab, isReplaying, memoryPolicy, inWorker]);
+
+	// 表示中のタブの検出器で動画を一括解析する
+	const startBatchAnalysis = () => {
+		if (activeTab === "holistic") {
+			// 表示中のレイヤーの検出器だけを同じフレームに対して実行する
+			let tracker = initialPoseTrackerState;
+			let faceTracker = initialFaceTrackerState;
+			batch.startBatch(batchFps, async (video) => {
+				const results: Pick<RecordedFrame, "hands" | "faces" | "poses"> = {};
+				if (holisticLayers.pose) {
+					const result = await analyzePoses(video, tracker, video.currentTime * 1000);
+					tracker = result.tracker;
+					results.poses = result.poses;
 				}
-				
-				// 顔が検出されない場合
-				if (faces.length === 0) {
-					setEmotion("顔が見つかりません");
-					
-					// 顔が見つからないメッセージを画面中央に表示
-					const noFaceText = `${emotion}`;
-					ctx.font = "bold 24px Arial";
-					
-					// テキストの幅を取得してセンタリング
-					const textWidth = ctx.measureText(noFaceText).width;
-					const textX = canvasRef.current.width / 2 - (textWidth / 2);
-					const textY = canvasRef.current.height / 2;
-					
-					// テキストに縁取りを追加して視認性を向上
-					ctx.strokeStyle = "black";
-					ctx.lineWidth = 3;
-					ctx.strokeText(noFaceText, textX, textY);
-					
-					// テキスト
-					ctx.fillStyle = "white";
-					ctx.fillText(noFaceText, textX, textY);
+				if (holisticLayers.face) {
+					const result = await analyzeFaces(video, faceTracker, video.currentTime * 1000);
+					faceTracker = result.tracker;
+					results.faces = result.faces;
 				}
-			} catch (error) {
-				console.error("顔の検出エラー:", error);
-			}
-		};
-
-		const interval = setInterval(detect, 100); // 0.1秒ごとに検出
-		return () => clearInterval(interval);
-	}, [model, videoRef, canvasRef, isVideoReady, emotion, irisPosition]);
-
-	return {
-		isLoading,
-		emotion,
-		irisPosition,
-	}
-};
-
-const usePoseDetection = (
-	videoRef: RefObject<HTMLVideoElement>,
-	canvasRef: RefObject<HTMLCanvasElement>,
-	isVideoReady: boolean,
-) => {
-	const [isLoading, setIsLoading] = useState(false);
-	const [model, setModel] = useState<poseDetection.PoseDetector>();
-
-	useEffect(() => {
-		const loadPoseDetection = async () => {
-			try {
-				// TensorFlowバックエンドの準備を確認
-				await tf.ready();
-				
-				const model = poseDetection.SupportedModels.MoveNet;
-				// 複数人検出用のモデルを設定
-				const detector = await poseDetection.createDetector(
-					model,
-					{
-						modelType: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
-						enableSmoothing: true, // スムージングを有効化
-					}
-				);
-				setModel(detector);
-			} catch (error) {
-				console.error("ポーズ検出モデルの読み込みエラー:", error);
-			}
-		};
-
-		setIsLoading(true);
-		loadPoseDetection().finally(() => {
-			setIsLoading(false);
-		});
-	}, []);
-
-	useEffect(() => {
-		// 骨格の接続定義
-		const connections = [
-			// 顔
-			['nose', 'left_eye'],
-			['nose', 'right_eye'],
-			['left_eye', 'left_ear'],
-			['right_eye', 'right_ear'],
-			// 上半身
-			['left_shoulder', 'right_shoulder'],
-			['left_shoulder', 'left_elbow'],
-			['right_shoulder', 'right_elbow'],
-			['left_elbow', 'left_wrist'],
-			['right_elbow', 'right_wrist'],
-			// 下半身
-			['left_shoulder', 'left_hip'],
-			['right_shoulder', 'right_hip'],
-			['left_hip', 'right_hip'],
-			['left_hip', 'left_knee'],
-			['right_hip', 'right_knee'],
-			['left_knee', 'left_ankle'],
-			['right_knee', 'right_ankle'],
-		];
-
-		// 各ポーズに異なる色を割り当てるための配列
-		const colors = [
-			{ point: "lime", line: "aqua" },      // 1人目: 薄緑と水色
-			{ point: "magenta", line: "yellow" },  // 2人目: マゼンタと黄色
-			{ point: "orange", line: "red" },      // 3人目: オレンジと赤
-			{ point: "cyan", line: "blue" },       // 4人目: シアンと青
-			{ point: "white", line: "green" }      // 5人目: 白と緑
-		];
-
-		const detect = async () => {
-			if (!model) return;
-			if (!videoRef.current) return;
-			if (!canvasRef.current) return;
-			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
-			
-			try {
-				// 動画のサイズチェック
-				if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
-					console.log("動画サイズが無効です。スキップします。");
-					return;
+				if (holisticLayers.hand) {
+					results.hands = await analyzeHands(video);
 				}
-				
-				// キャンバスサイズを動画サイズに合わせる
-				canvasRef.current.width = videoRef.current.videoWidth;
-				canvasRef.current.height = videoRef.current.videoHeight;
-				
-				const poses = await model.estimatePoses(videoRef.current);
-				
-				const ctx = canvasRef.current.getContext("2d");
-				if (!ctx) return;
-
-				ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-
-				// 検出された人数を表示
-				ctx.font = "16px Arial";
-				ctx.fillStyle = "white";
-				ctx.fillText(`検出された人数: ${poses.length}人`, 20, 30);
-
-				// 各検出されたポーズを処理
-				for (let i = 0; i < poses.length; i++) {
-					const pose = poses[i];
-					const keypoints = pose.keypoints;
-					const colorSet = colors[i % colors.length]; // 人数に応じて色を循環使用
-
-					// キーポイントの描画
-					for (const keypoint of keypoints) {
-						if (keypoint.score && keypoint.score > 0.3) { // 信頼度が30%以上のポイントのみ描画
-							const { x, y } = keypoint;
-							ctx.beginPath();
-							ctx.arc(x, y, 6, 0, 3 * Math.PI);
-							ctx.fillStyle = colorSet.point;
-							ctx.fill();
-						}
-					}
-					
-					// 骨格の線を描画
-					ctx.lineWidth = 3;
-					ctx.strokeStyle = colorSet.line;
-					
-					for (const [from, to] of connections) {
-						const fromPoint = keypoints.find(kp => kp.name === from);
-						const toPoint = keypoints.find(kp => kp.name === to);
-						
-						if (fromPoint && toPoint && 
-							fromPoint.score && toPoint.score && 
-							fromPoint.score > 0.3 && toPoint.score > 0.3) {
-							ctx.beginPath();
-							ctx.moveTo(fromPoint.x, fromPoint.y);
-							ctx.lineTo(toPoint.x, toPoint.y);
-							ctx.stroke();
-						}
-					}
-					
-					// 信頼度スコアの表示
-					ctx.font = "16px Arial";
-					ctx.fillStyle = colorSet.point;
-					const score = Math.round((pose.score || 0) * 100) / 100;
-					// 各人のスコアを表示（少しずつ位置をずらす）
-					ctx.fillText(`ID ${i+1} 信頼度: ${score}`, 20, 60 + i * 25);
-				}
-			} catch (error) {
-				console.error("ポーズ検出エラー:", error);
-			}
-		};
-
-		const interval = setInterval(detect, 100); // 0.1秒ごとに検出
-		return () => clearInterval(interval);
-	}, [model, videoRef, canvasRef, isVideoReady]);
-
-	return {
-		isLoading,
-	}
-};
-
-function App() {
-	const videoRef = useRef<HTMLVideoElement>(null);
-	const canvasRef = useRef<HTMLCanvasElement>(null);
-	const [videoFile, setVideoFile] = useState<File | null>(null);
-	const { isAllowed, isVideoReady } = useVideo(videoRef, videoFile);
-	const [activeTab, setActiveTab] = useState<TabType>("face");
-	
-	const { isLoading: isHandLoading } = useHandpose(
-		activeTab === "hand" ? videoRef : { current: null },
-		activeTab === "hand" ? canvasRef : { current: null },
-		isVideoReady
-	);
-	
-	const { isLoading: isFaceLoading, emotion: faceEmotion, irisPosition } = useFaceDetection(
-		activeTab === "face" ? videoRef : { current: null },
-		activeTab === "face" ? canvasRef : { current: null },
-		isVideoReady
-	);
-
-	const { isLoading: isPoseLoading } = usePoseDetection(
-		activeTab === "pose" ? videoRef : { current: null },
-		activeTab === "pose" ? canvasRef : { current: null },
-		isVideoReady
-	);
+				return results;
+			});
+		} else if (activeTab === "hand") {
+			batch.startBatch(batchFps, async (video) => ({ hands: await analyzeHands(video) }));
+		} else if (activeTab === "face") {
+			let tracker = initialFaceTrackerState;
+			batch.startBatch(batchFps, async (video) => {
+				const result = await analyzeFaces(video, tracker, video.currentTime * 1000);
+				tracker = result.tracker;
+				return { faces: result.faces };
+			});
+		} else {
+			// 一括解析用のトラッカーは動画の再生位置を時刻として使う
+			let tracker = initialPoseTrackerState;
+			batch.startBatch(batchFps, async (video) => {
+				const result = await analyzePoses(video, tracker, video.currentTime * 1000);
+				tracker = result.tracker;
+				return { poses: result.poses };
+			});
+		}
+	};
 
-	const isLoading = 
+	const isLoading = activeBackend === null || (
 		activeTab === "hand" ? isHandLoading : 
 		activeTab === "face" ? isFaceLoading : 
-		isPoseLoading;
+		activeTab === "pose" ? isPoseLoading :
+		isHandLoading || isFaceLoading || isPoseLoading
+	);
+	// 読み込み中のモデルの進捗（ローディング表示用）
+	const loadProgresses = [handLoadProgress, faceLoadProgress, poseLoadProgress]
+		.filter((progress): progress is ModelLoadProgress => progress !== null && modelConfigFor(progress.key) !== null);
 
 	// ファイル選択ハンドラー
 	const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -909,6 +475,29 @@ function App() {
 		setVideoFile(null);
 	};
 
+	// 記録ファイル選択ハンドラー
+	const handleSessionFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		// 同じファイルを続けて選べるように選択状態をリセット
+		event.target.value = "";
+		if (!file) return;
+		try {
+			const session = parseLandmarkSession(await file.text());
+			setActiveTab(session.tab);
+			setReplaySession(session);
+		} catch (error) {
+			console.error("記録ファイル読み込みエラー:", error);
+			alert(`記録ファイルを読み込めませんでした: ${error instanceof Error ? error.message : error}`);
+		}
+	};
+
+	// 再生中に別のタブに切り替えたら再生を終了
+	useEffect(() => {
+		if (replaySession && replaySession.tab !== activeTab) {
+			setReplaySession(null);
+		}
+	}, [replaySession, activeTab]);
+
 	// ビューポートの幅を監視するためのstate
 	const [windowWidth, setWindowWidth] = useState(window.innerWidth);
 
@@ -987,9 +576,26 @@ function App() {
 						height: "100%",
 						objectFit: "cover",
 						pointerEvents: "none", // キャンバスを操作不可に
+						visibility: inWorker && isLiveDetection ? "hidden" : "visible",
 					}}
 					ref={canvasRef}
 				/>
+				{inWorker && (
+					<canvas
+						key={workerCrash?.count ?? 0}
+						style={{
+							position: "absolute",
+							top: 0,
+							left: 0,
+							width: "100%",
+							height: "100%",
+							objectFit: "cover",
+							pointerEvents: "none",
+							visibility: isLiveDetection ? "visible" : "hidden",
+						}}
+						ref={workerCanvasRef}
+					/>
+				)}
 			</div>
 
 			{/* フローティングタイトル */}
@@ -1013,6 +619,561 @@ function App() {
 				}}>TensorFlow.jsを使った手と顔とポーズの検出</p>
 			</div>
 
+			{/* 記録・エクスポートフローティングUI */}
+			<div style={{
+				position: "absolute",
+				top: isMobile ? "70px" : "90px",
+				left: isMobile ? "10px" : "20px",
+				zIndex: 10,
+				padding: isMobile ? "6px 8px" : "8px 10px",
+				backgroundColor: "rgba(0, 0, 0, 0.6)",
+				color: "white",
+				borderRadius: "8px",
+				backdropFilter: "blur(4px)",
+				boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+				display: "flex",
+				flexDirection: "column",
+				gap: "6px",
+				fontSize: isMobile ? "11px" : "13px",
+			}}>
+				<button
+					onClick={recorder.isRecording ? recorder.stopRecording : recorder.startRecording}
+					disabled={!isVideoReady}
+					style={{
+						backgroundColor: recorder.isRecording ? "rgba(220, 53, 69, 0.9)" : "rgba(52, 152, 219, 0.7)",
+						color: "white",
+						border: "none",
+						borderRadius: "20px",
+						padding: isMobile ? "4px 10px" : "6px 12px",
+						cursor: isVideoReady ? "pointer" : "not-allowed",
+						opacity: isVideoReady ? 1 : 0.5,
+						fontSize: isMobile ? "12px" : "13px",
+					}}
+				>
+					{recorder.isRecording ? `⏹ 記録停止 (${recorder.frameCount}フレーム)` : "⏺ ランドマークを記録"}
+				</button>
+				<button
+					onClick={videoExport.isExporting ? videoExport.stopExport : videoExport.startExport}
+					disabled={!isVideoReady && !isReplaying}
+					style={{
+						backgroundColor: videoExport.isExporting ? "rgba(220, 53, 69, 0.9)" : "rgba(155, 89, 182, 0.7)",
+						color: "white",
+						border: "none",
+						borderRadius: "20px",
+						padding: isMobile ? "4px 10px" : "6px 12px",
+						cursor: isVideoReady || isReplaying ? "pointer" : "not-allowed",
+						opacity: isVideoReady || isReplaying ? 1 : 0.5,
+						fontSize: isMobile ? "12px" : "13px",
+					}}
+				>
+					{videoExport.isExporting
+						? `⏹ 書き出し停止 (${Math.floor(videoExport.elapsed / 60)}:${String(videoExport.elapsed % 60).padStart(2, "0")})`
+						: "🎬 動画を書き出し"}
+				</button>
+				<button
+					onClick={() => setShowRuntimeSettings(show => !show)}
+					style={{
+						backgroundColor: showRuntimeSettings ? "rgba(52, 152, 219, 0.9)" : "rgba(255, 255, 255, 0.15)",
+						color: "white",
+						border: "none",
+						borderRadius: "20px",
+						padding: isMobile ? "4px 10px" : "6px 12px",
+						cursor: "pointer",
+						fontSize: isMobile ? "12px" : "13px",
+					}}
+				>
+					⚙️ 実行環境
+				</button>
+				{showRuntimeSettings && (
+					<div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+						<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+							<span>バックエンド</span>
+							<select
+								value={runtimeSettings.backend}
+								onChange={(e) => {
+									const backend = e.target.value as TfBackend;
+									setRuntimeSettings(settings => ({ ...settings, backend }));
+								}}
+								style={{
+									backgroundColor: "rgba(0, 0, 0, 0.6)",
+									color: "white",
+									border: "1px solid rgba(255, 255, 255, 0.3)",
+									borderRadius: "12px",
+									padding: "2px 6px",
+								}}
+							>
+								{backendOptions.map(option => (
+									<option key={option.value} value={option.value}>{option.label}</option>
+								))}
+							</select>
+						</label>
+						{activeBackend && activeBackend !== runtimeSettings.backend && (
+							<span style={{ color: "orange" }}>
+								{runtimeSettings.backend}が使えないため{activeBackend}で実行中
+							</span>
+						)}
+						<label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+							<input
+								type="checkbox"
+								checked={inWorker}
+								disabled={!isWorkerSupported()}
+								onChange={(e) => {
+									const worker = e.target.checked;
+									setRuntimeSettings(settings => ({ ...settings, worker }));
+								}}
+								style={{ margin: 0 }}
+							/>
+							<span>Workerで推論・描画</span>
+						</label>
+						{!isWorkerSupported() && (
+							<span style={{ color: "orange" }}>このブラウザはOffscreenCanvasに対応していません</span>
+						)}
+						{inWorker && (
+							<span style={{ opacity: 0.8 }}>Workerでは常にTensorFlow.jsで実行します</span>
+						)}
+						{inWorker && workerCrash && (
+							<span style={{ color: "orange" }}>Workerが停止したため再起動しました（{workerCrash.message}）</span>
+						)}
+						{(["hand", "face", "pose"] as const).map(key => (
+							<label key={key} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+								<span>{modelNames[key]}</span>
+								<select
+									value={runtimeSettings.runtimes[key]}
+									disabled={inWorker}
+									onChange={(e) => {
+										const runtime = e.target.value as DetectorRuntime;
+										setRuntimeSettings(settings => ({
+											...settings,
+											runtimes: { ...settings.runtimes, [key]: runtime },
+										}));
+									}}
+									style={{
+										backgroundColor: "rgba(0, 0, 0, 0.6)",
+										color: "white",
+										border: "1px solid rgba(255, 255, 255, 0.3)",
+										borderRadius: "12px",
+										padding: "2px 6px",
+									}}
+								>
+									{runtimeOptions.map(option => (
+										<option key={option.value} value={option.value}>{option.label}</option>
+									))}
+								</select>
+							</label>
+						))}
+					</div>
+				)}
+				<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+					<span>🎨 表示テーマ</span>
+					<select
+						value={overlayThemeName}
+						onChange={(e) => setOverlayThemeName(e.target.value as OverlayThemeName)}
+						style={{
+							backgroundColor: "rgba(0, 0, 0, 0.6)",
+							color: "white",
+							border: "1px solid rgba(255, 255, 255, 0.3)",
+							borderRadius: "12px",
+							padding: "2px 6px",
+						}}
+					>
+						{overlayThemeOptions.map(option => (
+							<option key={option.value} value={option.value}>{option.label}</option>
+						))}
+					</select>
+				</label>
+				<button
+					onClick={() => setShowDetectorOptions(show => !show)}
+					style={{
+						backgroundColor: showDetectorOptions ? "rgba(52, 152, 219, 0.9)" : "rgba(255, 255, 255, 0.15)",
+						color: "white",
+						border: "none",
+						borderRadius: "20px",
+						padding: isMobile ? "4px 10px" : "6px 12px",
+						cursor: "pointer",
+						fontSize: isMobile ? "12px" : "13px",
+					}}
+				>
+					🎛 検出設定
+				</button>
+				{showDetectorOptions && (
+					<div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+						{modelsForTab(activeTab).includes("hand") && (
+							<>
+								<strong>{modelNames.hand}</strong>
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>モデル</span>
+									<select
+										value={detectorOptions.hand.modelType}
+										onChange={(e) => updateDetectorOptions("hand", { modelType: e.target.value as HandModelType })}
+										style={{
+											backgroundColor: "rgba(0, 0, 0, 0.6)",
+											color: "white",
+											border: "1px solid rgba(255, 255, 255, 0.3)",
+											borderRadius: "12px",
+											padding: "2px 6px",
+										}}
+									>
+										{handModelTypeOptions.map(option => (
+											<option key={option.value} value={option.value}>{option.label}</option>
+										))}
+									</select>
+								</label>
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>最大検出数</span>
+									<input
+										type="number"
+										min={1}
+										max={4}
+										value={detectorOptions.hand.maxHands}
+										onChange={(e) => updateDetectorOptions("hand", { maxHands: Math.min(4, Math.max(1, Number(e.target.value))) })}
+										style={{ width: "48px" }}
+									/>
+								</label>
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>信頼度 {detectorOptions.hand.minScore.toFixed(2)}以上</span>
+									<input
+										type="range"
+										min={0}
+										max={1}
+										step={0.05}
+										value={detectorOptions.hand.minScore}
+										onChange={(e) => updateDetectorOptions("hand", { minScore: Number(e.target.value) })}
+										style={{ width: "80px" }}
+									/>
+								</label>
+							</>
+						)}
+						{modelsForTab(activeTab).includes("face") && (
+							<>
+								<strong>{modelNames.face}</strong>
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>最大検出数</span>
+									<input
+										type="number"
+										min={1}
+										max={4}
+										value={detectorOptions.face.maxFaces}
+										onChange={(e) => updateDetectorOptions("face", { maxFaces: Math.min(4, Math.max(1, Number(e.target.value))) })}
+										style={{ width: "48px" }}
+									/>
+								</label>
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>表情のスムージング</span>
+									<select
+										value={detectorOptions.face.emotionWindow}
+										onChange={(e) => updateDetectorOptions("face", { emotionWindow: Number(e.target.value) })}
+										style={{
+											backgroundColor: "rgba(0, 0, 0, 0.6)",
+											color: "white",
+											border: "1px solid rgba(255, 255, 255, 0.3)",
+											borderRadius: "12px",
+											padding: "2px 6px",
+										}}
+									>
+										{emotionWindowOptions.map(option => (
+											<option key={option.value} value={option.value}>{option.label}</option>
+										))}
+									</select>
+								</label>
+							</>
+						)}
+						{modelsForTab(activeTab).includes("pose") && (
+							<>
+								<strong>{modelNames.pose}</strong>
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>モデル</span>
+									<select
+										value={detectorOptions.pose.modelType}
+										onChange={(e) => updateDetectorOptions("pose", { modelType: e.target.value as PoseModelType })}
+										style={{
+											backgroundColor: "rgba(0, 0, 0, 0.6)",
+											color: "white",
+											border: "1px solid rgba(255, 255, 255, 0.3)",
+											borderRadius: "12px",
+											padding: "2px 6px",
+										}}
+									>
+										{poseModelTypeOptions.map(option => (
+											<option key={option.value} value={option.value}>{option.label}</option>
+										))}
+									</select>
+								</label>
+								{detectorOptions.pose.modelType === "movenet_multipose_lightning" && (
+									<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+										<span>最大人数</span>
+										<input
+											type="number"
+											min={1}
+											max={6}
+											value={detectorOptions.pose.maxPoses}
+											onChange={(e) => updateDetectorOptions("pose", { maxPoses: Math.min(6, Math.max(1, Number(e.target.value))) })}
+											style={{ width: "48px" }}
+										/>
+									</label>
+								)}
+								<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+									<span>信頼度 {detectorOptions.pose.minKeypointScore.toFixed(2)}以上</span>
+									<input
+										type="range"
+										min={0}
+										max={1}
+										step={0.05}
+										value={detectorOptions.pose.minKeypointScore}
+										onChange={(e) => updateDetectorOptions("pose", { minKeypointScore: Number(e.target.value) })}
+										style={{ width: "80px" }}
+									/>
+								</label>
+								<label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+									<input
+										type="checkbox"
+										checked={detectorOptions.pose.enableSmoothing}
+										onChange={(e) => updateDetectorOptions("pose", { enableSmoothing: e.target.checked })}
+										style={{ margin: 0 }}
+									/>
+									<span>スムージング</span>
+								</label>
+							</>
+						)}
+					</div>
+				)}
+				{modelsForTab(activeTab).includes("face") && (
+					<button
+						onClick={() => setShowCalibration(show => !show)}
+						style={{
+							backgroundColor: showCalibration ? "rgba(52, 152, 219, 0.9)" : "rgba(255, 255, 255, 0.15)",
+							color: "white",
+							border: "none",
+							borderRadius: "20px",
+							padding: isMobile ? "4px 10px" : "6px 12px",
+							cursor: "pointer",
+							fontSize: isMobile ? "12px" : "13px",
+						}}
+					>
+						👤 キャリブレーション
+					</button>
+				)}
+				{modelsForTab(activeTab).includes("face") && showCalibration && (
+					<div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+						<label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+							<span>プロファイル</span>
+							<select
+								value={calibrationProfiles.activeProfile}
+								onChange={(e) => {
+									const activeProfile = e.target.value;
+									setCalibrationProfiles(current => ({ ...current, activeProfile }));
+								}}
+								style={{
+									backgroundColor: "rgba(0, 0, 0, 0.6)",
+									color: "white",
+									border: "1px solid rgba(255, 255, 255, 0.3)",
+									borderRadius: "12px",
+									padding: "2px 6px",
+								}}
+							>
+								{Object.keys(calibrationProfiles.profiles).map(name => (
+									<option key={name} value={name}>{name}</option>
+								))}
+							</select>
+						</label>
+						<span style={{ opacity: 0.8 }}>
+							{activeCalibration
+								? `調整済み (${new Date(activeCalibration.calibratedAt).toLocaleString()})`
+								: "未調整（既定の基準）"}
+							{activeGazeModel ? " / 注視点推定あり" : ""}
+						</span>
+						<div style={{ display: "flex", gap: "4px" }}>
+							<button
+								onClick={addCalibrationProfile}
+								style={{
+									backgroundColor: "rgba(255, 255, 255, 0.15)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 10px",
+									cursor: "pointer",
+									fontSize: isMobile ? "11px" : "12px",
+								}}
+							>
+								追加
+							</button>
+							<button
+								onClick={deleteCalibrationProfile}
+								disabled={Object.keys(calibrationProfiles.profiles).length <= 1}
+								style={{
+									backgroundColor: "rgba(255, 255, 255, 0.15)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 10px",
+									cursor: Object.keys(calibrationProfiles.profiles).length > 1 ? "pointer" : "not-allowed",
+									opacity: Object.keys(calibrationProfiles.profiles).length > 1 ? 1 : 0.5,
+									fontSize: isMobile ? "11px" : "12px",
+								}}
+							>
+								削除
+							</button>
+							<button
+								onClick={() => setCalibrationProfiles(current => {
+									const gazeModels = { ...current.gazeModels };
+									delete gazeModels[current.activeProfile];
+									return {
+										...current,
+										profiles: { ...current.profiles, [current.activeProfile]: null },
+										gazeModels,
+									};
+								})}
+								disabled={!activeCalibration && !activeGazeModel}
+								style={{
+									backgroundColor: "rgba(255, 255, 255, 0.15)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 10px",
+									cursor: activeCalibration || activeGazeModel ? "pointer" : "not-allowed",
+									opacity: activeCalibration || activeGazeModel ? 1 : 0.5,
+									fontSize: isMobile ? "11px" : "12px",
+								}}
+							>
+								リセット
+							</button>
+						</div>
+						{/* 補正前の値は顔検出タブのリアルタイム検出から受け取る */}
+						{([
+							{ mode: "baseline", label: "キャリブレーション開始" },
+							{ mode: "gaze", label: "注視点の9点キャリブレーション" },
+						] as const).map(({ mode, label }) => (
+							<button
+								key={mode}
+								onClick={() => setCalibrationMode(mode)}
+								disabled={activeTab !== "face" || !isLiveDetection || !isVideoReady}
+								style={{
+									backgroundColor: "rgba(52, 152, 219, 0.7)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 10px",
+									cursor: activeTab === "face" && isLiveDetection && isVideoReady ? "pointer" : "not-allowed",
+									opacity: activeTab === "face" && isLiveDetection && isVideoReady ? 1 : 0.5,
+									fontSize: isMobile ? "11px" : "12px",
+								}}
+							>
+								{label}
+							</button>
+						))}
+						{activeGazeModel && (
+							<>
+								<label style={{ display: "flex", alignItems: "center", gap: "6px", cursor: "pointer" }}>
+									<input
+										type="checkbox"
+										checked={showGazeHeatmap}
+										onChange={(e) => setShowGazeHeatmap(e.target.checked)}
+										style={{ margin: 0 }}
+									/>
+									<span>注視点のヒートマップ</span>
+								</label>
+								<button
+									onClick={clearGazeHeatmap}
+									style={{
+										backgroundColor: "rgba(255, 255, 255, 0.15)",
+										color: "white",
+										border: "none",
+										borderRadius: "20px",
+										padding: "4px 10px",
+										cursor: "pointer",
+										fontSize: isMobile ? "11px" : "12px",
+									}}
+								>
+									ヒートマップをクリア ({gazeHeatmap.total})
+								</button>
+							</>
+						)}
+					</div>
+				)}
+				<label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+					<span>モデル保持</span>
+					<select
+						value={memoryPolicy}
+						onChange={(e) => setMemoryPolicy(e.target.value === "all" ? "all" : Number(e.target.value))}
+						style={{
+							backgroundColor: "rgba(0, 0, 0, 0.6)",
+							color: "white",
+							border: "1px solid rgba(255, 255, 255, 0.3)",
+							borderRadius: "12px",
+							padding: "2px 6px",
+						}}
+					>
+						{memoryPolicyOptions.map(option => (
+							<option key={option.value} value={option.value}>{option.label}</option>
+						))}
+					</select>
+				</label>
+				<label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+					<span>検出上限</span>
+					<select
+						value={maxFps ?? ""}
+						onChange={(e) => setMaxFps(e.target.value === "" ? null : Number(e.target.value))}
+						style={{
+							backgroundColor: "rgba(0, 0, 0, 0.6)",
+							color: "white",
+							border: "1px solid rgba(255, 255, 255, 0.3)",
+							borderRadius: "12px",
+							padding: "2px 6px",
+						}}
+					>
+						{maxFpsOptions.map(option => (
+							<option key={option.label} value={option.value ?? ""}>{option.label}</option>
+						))}
+					</select>
+				</label>
+				<button
+					onClick={() => setShowPerformance(show => !show)}
+					style={{
+						backgroundColor: showPerformance ? "rgba(52, 152, 219, 0.9)" : "rgba(255, 255, 255, 0.15)",
+						color: "white",
+						border: "none",
+						borderRadius: "20px",
+						padding: isMobile ? "4px 10px" : "6px 12px",
+						cursor: "pointer",
+						fontSize: isMobile ? "12px" : "13px",
+					}}
+				>
+					📈 パフォーマンス表示
+				</button>
+				{!recorder.isRecording && recorder.session && (
+					<div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+						<span>{recorder.session.frames.length}フレーム</span>
+						<button
+							onClick={recorder.exportJSON}
+							style={{
+								backgroundColor: "rgba(46, 204, 113, 0.7)",
+								color: "white",
+								border: "none",
+								borderRadius: "20px",
+								padding: "4px 10px",
+								cursor: "pointer",
+								fontSize: isMobile ? "11px" : "12px",
+							}}
+						>
+							JSON
+						</button>
+						<button
+							onClick={recorder.exportCSV}
+							style={{
+								backgroundColor: "rgba(46, 204, 113, 0.7)",
+								color: "white",
+								border: "none",
+								borderRadius: "20px",
+								padding: "4px 10px",
+								cursor: "pointer",
+								fontSize: isMobile ? "11px" : "12px",
+							}}
+						>
+							CSV
+						</button>
+					</div>
+				)}
+			</div>
+
 			{/* フローティングタブ切り替え */}
 			<div style={{ 
 				position: "absolute",
@@ -1083,6 +1244,26 @@ function App() {
 				>
 					<span style={{ marginRight: "6px" }}>🏃</span> ポーズ検出
 				</button>
+				<button 
+					onClick={() => setActiveTab("holistic")}
+					style={{ 
+						padding: isMobile ? "6px 12px" : "8px 16px", 
+						backgroundColor: activeTab === "holistic" ? "rgba(52, 152, 219, 0.9)" : "rgba(0, 0, 0, 0.6)",
+						color: "white",
+						border: "none",
+						borderRadius: "30px",
+						cursor: "pointer",
+						backdropFilter: "blur(4px)",
+						boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+						display: "flex",
+						alignItems: "center",
+						fontWeight: activeTab === "holistic" ? "bold" : "normal",
+						fontSize: isMobile ? "13px" : "15px",
+						transition: "all 0.3s ease",
+					}}
+				>
+					<span style={{ marginRight: "6px" }}>🧍</span> 統合検出
+				</button>
 			</div>
 
 			{/* 表情一覧フローティングUI - 顔検出タブでのみ表示 */}
@@ -1119,7 +1300,7 @@ function App() {
 							display: "flex", 
 							alignItems: "center", 
 							gap: "4px",
-							backgroundColor: faceEmotion.includes(emotion.name) ? "rgba(52, 152, 219, 0.3)" : "transparent",
+							backgroundColor: detectedFaces.some(face => face.emotion.includes(emotion.name)) ? "rgba(52, 152, 219, 0.3)" : "transparent",
 							padding: "2px 4px",
 							borderRadius: "4px",
 						}}>
@@ -1127,9 +1308,308 @@ function App() {
 							<span style={{ fontSize: isMobile ? "10px" : "11px" }}>{emotion.name}</span>
 						</div>
 					))}
+					{/* 最初の顔の表情の各要素の強さ */}
+					{detectedFaces.length > 0 && (
+						<>
+							<div style={{ 
+								fontWeight: "bold", 
+								fontSize: isMobile ? "11px" : "13px",
+								textAlign: "center",
+								marginTop: "4px",
+							}}>
+								要素 (ID {detectedFaces[0].id})
+							</div>
+							{(Object.keys(blendshapeNames) as (keyof FaceBlendshapes)[]).map(key => (
+								<div key={key} style={{ fontSize: isMobile ? "9px" : "10px" }}>
+									<div style={{ display: "flex", justifyContent: "space-between" }}>
+										<span>{blendshapeNames[key]}</span>
+										<span>{Math.round(detectedFaces[0].blendshapes[key] * 100)}</span>
+									</div>
+									<div style={{ height: "3px", backgroundColor: "rgba(255, 255, 255, 0.2)", borderRadius: "2px" }}>
+										<div style={{
+											width: `${detectedFaces[0].blendshapes[key] * 100}%`,
+											height: "100%",
+											backgroundColor: "#3498db",
+											borderRadius: "2px",
+										}} />
+									</div>
+								</div>
+							))}
+						</>
+					)}
+				</div>
+			)}
+			
+			{/* ジェスチャー一覧フローティングUI - 手の検出タブでのみ表示 */}
+			{activeTab === "hand" && (
+				<div style={{ 
+					position: "absolute",
+					top: "50%",
+					right: isMobile ? "5px" : "10px",
+					transform: "translateY(-50%)",
+					zIndex: 10,
+					padding: isMobile ? "6px 8px" : "8px 10px", 
+					backgroundColor: "rgba(0, 0, 0, 0.6)",
+					color: "white",
+					borderRadius: "8px",
+					backdropFilter: "blur(4px)",
+					boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+					display: "flex",
+					flexDirection: "column",
+					gap: isMobile ? "4px" : "6px",
+					maxHeight: "50vh",
+					maxWidth: isMobile ? "100px" : "120px",
+					overflowY: "auto",
+				}}>
+					<div style={{ 
+						fontWeight: "bold", 
+						fontSize: isMobile ? "11px" : "13px",
+						textAlign: "center",
+						marginBottom: "2px",
+					}}>
+						ジェスチャー一覧
+					</div>
+					{handGestureList.map((gesture) => (
+						<div key={gesture.type} style={{ 
+							display: "flex", 
+							alignItems: "center", 
+							gap: "4px",
+							backgroundColor: handGestures.some(g => g.gesture.type === gesture.type) ? "rgba(52, 152, 219, 0.3)" : "transparent",
+							padding: "2px 4px",
+							borderRadius: "4px",
+						}}>
+							<span style={{ fontSize: isMobile ? "12px" : "14px" }}>{gesture.emoji}</span>
+							<span style={{ fontSize: isMobile ? "10px" : "11px" }}>{gesture.name}</span>
+						</div>
+					))}
+					<div style={{ 
+						fontWeight: "bold", 
+						fontSize: isMobile ? "11px" : "13px",
+						textAlign: "center",
+						margin: "4px 0 2px 0",
+					}}>
+						動きのジェスチャー
+					</div>
+					{dynamicGestureList.map((gesture) => (
+						<div key={gesture.type} style={{ 
+							display: "flex", 
+							alignItems: "center", 
+							gap: "4px",
+							backgroundColor: dynamicGestures.some(e =>
+								e.type === gesture.type && Date.now() - e.timestamp < DYNAMIC_GESTURE_DISPLAY_DURATION
+							) ? "rgba(230, 126, 34, 0.4)" : "transparent",
+							padding: "2px 4px",
+							borderRadius: "4px",
+						}}>
+							<span style={{ fontSize: isMobile ? "12px" : "14px" }}>{gesture.emoji}</span>
+							<span style={{ fontSize: isMobile ? "10px" : "11px" }}>{gesture.name}</span>
+						</div>
+					))}
+				</div>
+			)}
+			
+			{/* 運動カウンターフローティングUI - ポーズ検出タブでのみ表示 */}
+			{activeTab === "pose" && (
+				<div style={{ 
+					position: "absolute",
+					top: "50%",
+					right: isMobile ? "5px" : "10px",
+					transform: "translateY(-50%)",
+					zIndex: 10,
+					padding: isMobile ? "6px 8px" : "8px 10px", 
+					backgroundColor: "rgba(0, 0, 0, 0.6)",
+					color: "white",
+					borderRadius: "8px",
+					backdropFilter: "blur(4px)",
+					boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+					display: "flex",
+					flexDirection: "column",
+					gap: isMobile ? "4px" : "6px",
+					maxHeight: "50vh",
+					maxWidth: isMobile ? "120px" : "160px",
+					overflowY: "auto",
+				}}>
+					<div style={{ 
+						fontWeight: "bold", 
+						fontSize: isMobile ? "11px" : "13px",
+						textAlign: "center",
+						marginBottom: "2px",
+					}}>
+						運動カウンター
+					</div>
+					{exerciseList.map((item) => (
+						<div
+							key={item.type}
+							onClick={() => setExercise(exercise === item.type ? null : item.type)}
+							style={{ 
+								display: "flex", 
+								alignItems: "center", 
+								gap: "4px",
+								backgroundColor: exercise === item.type ? "rgba(52, 152, 219, 0.3)" : "transparent",
+								padding: "2px 4px",
+								borderRadius: "4px",
+								cursor: "pointer",
+							}}
+						>
+							<span style={{ fontSize: isMobile ? "12px" : "14px" }}>{item.emoji}</span>
+							<span style={{ fontSize: isMobile ? "10px" : "11px" }}>{item.name}</span>
+						</div>
+					))}
+					{exercise && (
+						<>
+							{repCounters.map(({ id, state }) => (
+								<div key={id} style={{ fontSize: isMobile ? "10px" : "11px", padding: "2px 4px" }}>
+									ID {id}: <strong>{state.count}回</strong>
+									{state.feedback && <div style={{ opacity: 0.8 }}>{state.feedback}</div>}
+								</div>
+							))}
+							<button
+								onClick={resetRepCounters}
+								style={{
+									backgroundColor: "rgba(220, 53, 69, 0.7)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 8px",
+									cursor: "pointer",
+									fontSize: isMobile ? "10px" : "11px",
+								}}
+							>
+								リセット
+							</button>
+						</>
+					)}
+					<div style={{
+						fontWeight: "bold",
+						fontSize: isMobile ? "11px" : "13px",
+						textAlign: "center",
+						marginTop: "4px",
+					}}>
+						人物の追跡
+					</div>
+					<label style={{ display: "flex", flexDirection: "column", fontSize: isMobile ? "10px" : "11px" }}>
+						<span>見失ってから{(poseTrackerSettings.maxLostDuration / 1000).toFixed(1)}秒でID破棄</span>
+						<input
+							type="range"
+							min={200}
+							max={5000}
+							step={100}
+							value={poseTrackerSettings.maxLostDuration}
+							onChange={(e) => setPoseTrackerSettings(prev => ({ ...prev, maxLostDuration: Number(e.target.value) }))}
+						/>
+					</label>
+					<label style={{ display: "flex", flexDirection: "column", fontSize: isMobile ? "10px" : "11px" }}>
+						<span>同一人物の類似度 {poseTrackerSettings.minSimilarity.toFixed(2)}以上</span>
+						<input
+							type="range"
+							min={0.05}
+							max={0.9}
+							step={0.05}
+							value={poseTrackerSettings.minSimilarity}
+							onChange={(e) => setPoseTrackerSettings(prev => ({ ...prev, minSimilarity: Number(e.target.value) }))}
+						/>
+					</label>
 				</div>
 			)}
 			
+			{/* レイヤー切り替えフローティングUI - 統合検出タブでのみ表示 */}
+			{activeTab === "holistic" && (
+				<div style={{ 
+					position: "absolute",
+					top: "50%",
+					right: isMobile ? "5px" : "10px",
+					transform: "translateY(-50%)",
+					zIndex: 10,
+					padding: isMobile ? "6px 8px" : "8px 10px", 
+					backgroundColor: "rgba(0, 0, 0, 0.6)",
+					color: "white",
+					borderRadius: "8px",
+					backdropFilter: "blur(4px)",
+					boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+					display: "flex",
+					flexDirection: "column",
+					gap: isMobile ? "4px" : "6px",
+					maxHeight: "50vh",
+					maxWidth: isMobile ? "100px" : "120px",
+					overflowY: "auto",
+				}}>
+					<div style={{ 
+						fontWeight: "bold", 
+						fontSize: isMobile ? "11px" : "13px",
+						textAlign: "center",
+						marginBottom: "2px",
+					}}>
+						レイヤー
+					</div>
+					{([
+						{ layer: "pose", name: "ポーズ", emoji: "🏃", count: holisticCounts.poses },
+						{ layer: "face", name: "顔", emoji: "😊", count: holisticCounts.faces },
+						{ layer: "hand", name: "手", emoji: "✋", count: holisticCounts.hands },
+					] as const).map((item) => (
+						<label key={item.layer} style={{ 
+							display: "flex", 
+							alignItems: "center", 
+							gap: "4px",
+							backgroundColor: holisticLayers[item.layer] ? "rgba(52, 152, 219, 0.3)" : "transparent",
+							padding: "2px 4px",
+							borderRadius: "4px",
+							cursor: "pointer",
+						}}>
+							<input
+								type="checkbox"
+								checked={holisticLayers[item.layer]}
+								onChange={() => toggleHolisticLayer(item.layer)}
+								style={{ margin: 0 }}
+							/>
+							<span style={{ fontSize: isMobile ? "12px" : "14px" }}>{item.emoji}</span>
+							<span style={{ fontSize: isMobile ? "10px" : "11px" }}>
+								{item.name}{holisticLayers[item.layer] ? ` (${item.count})` : ""}
+							</span>
+						</label>
+					))}
+				</div>
+			)}
+			
+			{/* まばたき・眠気・あくび・よそ見の監視（顔検出タブでのみ表示） */}
+			{activeTab === "face" && isLiveDetection && (
+				<AttentionPanel
+					metrics={attention}
+					settings={attentionSettings}
+					onSettingsChange={setAttentionSettings}
+					isMobile={isMobile}
+				/>
+			)}
+
+			{/* 表情の推移（顔検出タブでのみ表示） */}
+			{activeTab === "face" && (isLiveDetection || replayEmotionTimeline) && (
+				<EmotionTimelinePanel
+					timeline={replayEmotionTimeline ?? emotionTimeline}
+					onClear={replayEmotionTimeline ? undefined : clearEmotionTimeline}
+					isMobile={isMobile}
+				/>
+			)}
+
+			{/* 注視点とヒートマップ（顔検出タブで注視点を推定できる場合のみ） */}
+			{activeTab === "face" && activeGazeModel && !calibrationMode && (
+				<GazeOverlay heatmap={gazeHeatmap} gazePoint={gazePoint} showHeatmap={showGazeHeatmap} theme={overlayTheme} />
+			)}
+
+			{/* キャリブレーションの案内 */}
+			{calibrationMode && (
+				<CalibrationOverlay
+					steps={calibrationMode === "gaze" ? gazeCalibrationSteps : calibrationSteps}
+					subscribeSamples={subscribeFaceSamples}
+					onComplete={calibrationMode === "gaze" ? completeGazeCalibration : completeBaselineCalibration}
+					onCancel={() => setCalibrationMode(null)}
+					isMobile={isMobile}
+				/>
+			)}
+
+			{/* パフォーマンス表示 */}
+			{showPerformance && isLiveDetection && (
+				<PerformanceHud stats={schedulerStats} inWorker={inWorker} isMobile={isMobile} />
+			)}
+			
 			{/* フローティングヒント */}
 			<div style={{ 
 				position: "absolute",
@@ -1148,13 +1628,164 @@ function App() {
 			}}>
 				<p style={{ margin: "0", fontSize: isMobile ? "13px" : "15px" }}>
 					<strong>ヒント:</strong> {
-						activeTab === "hand" ? "両手を画面内に表示すると、関節と骨格が検出されます。" :
-						activeTab === "face" ? `顔を画面内に表示すると、虹彩の位置と表情が検出されます。(${faceEmotion} / ${irisPosition.overall})` :
+						activeTab === "hand" ? `両手を画面内に表示すると、関節と骨格、ジェスチャーが検出されます。${handGestures.length > 0 ? `(${handGestures.map(g => `${g.handedness}: ${g.gesture.label}`).join(" / ")})` : ""}` :
+						activeTab === "face" ? `顔を画面内に表示すると、虹彩の位置と表情が検出されます。${detectedFaces.length > 0 ? `(${detectedFaces.map(f => `ID ${f.id}: ${f.emotion} / ${f.iris.overall}`).join(" | ")})` : ""}${gazePoint ? ` 注視点: (${Math.round(gazePoint.x * window.innerWidth)}, ${Math.round(gazePoint.y * window.innerHeight)})px` : ""}` :
+						activeTab === "holistic" ? "手・顔・ポーズを同じフレームで同時に検出します。右のチェックボックスでレイヤーの表示を切り替えられます。" :
+						exercise ? "全身が映るように立つと、関節の角度から運動の回数を数えます。" :
 						"複数人の姿勢も検出できます。それぞれ異なる色で表示されます。"
 					}
 				</p>
 			</div>
 
+			{/* 一括解析フローティングUI - 動画ファイル選択時のみ表示 */}
+			{videoFile && !isReplaying && (
+				<div style={{ 
+					position: "absolute",
+					bottom: isMobile ? "200px" : "140px",
+					left: "50%",
+					transform: "translateX(-50%)",
+					zIndex: 10,
+					padding: isMobile ? "8px 12px" : "10px 16px", 
+					backgroundColor: "rgba(0, 0, 0, 0.6)",
+					color: "white",
+					borderRadius: "12px",
+					backdropFilter: "blur(4px)",
+					boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+					display: "flex",
+					flexDirection: "column",
+					alignItems: "center",
+					gap: "8px",
+					width: isMobile ? "80%" : "400px",
+					fontSize: isMobile ? "12px" : "14px",
+				}}>
+					{batch.isRunning ? (
+						<>
+							<div style={{ width: "100%", display: "flex", alignItems: "center", gap: "8px" }}>
+								<div style={{
+									flex: 1,
+									height: "8px",
+									backgroundColor: "rgba(255, 255, 255, 0.2)",
+									borderRadius: "4px",
+									overflow: "hidden",
+								}}>
+									<div style={{
+										width: batch.progress ? `${batch.progress.processed / batch.progress.total * 100}%` : "0%",
+										height: "100%",
+										backgroundColor: "rgba(52, 152, 219, 0.9)",
+									}} />
+								</div>
+								<span style={{ whiteSpace: "nowrap" }}>
+									{batch.progress ? `${batch.progress.processed} / ${batch.progress.total}` : "準備中..."}
+								</span>
+							</div>
+							<button
+								onClick={batch.cancelBatch}
+								style={{
+									backgroundColor: "rgba(220, 53, 69, 0.7)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 12px",
+									cursor: "pointer",
+									fontSize: isMobile ? "12px" : "13px",
+								}}
+							>
+								中止
+							</button>
+						</>
+					) : (
+						<div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+							<select
+								value={batchFps}
+								onChange={(e) => setBatchFps(e.target.value === "all" ? "all" : Number(e.target.value))}
+								style={{
+									backgroundColor: "rgba(0, 0, 0, 0.6)",
+									color: "white",
+									border: "1px solid rgba(255, 255, 255, 0.3)",
+									borderRadius: "12px",
+									padding: "2px 6px",
+								}}
+							>
+								{batchFpsOptions.map(option => (
+									<option key={option.value} value={option.value}>{option.label}</option>
+								))}
+							</select>
+							<button
+								onClick={startBatchAnalysis}
+								disabled={!isVideoReady || isLoading}
+								style={{
+									backgroundColor: "rgba(52, 152, 219, 0.7)",
+									color: "white",
+									border: "none",
+									borderRadius: "20px",
+									padding: "4px 12px",
+									cursor: isVideoReady && !isLoading ? "pointer" : "not-allowed",
+									opacity: isVideoReady && !isLoading ? 1 : 0.5,
+									fontSize: isMobile ? "12px" : "13px",
+								}}
+							>
+								📊 一括解析
+							</button>
+						</div>
+					)}
+					{batch.result && !batch.isRunning && (
+						<>
+							{/* 検出できたフレームの割合を色の濃さで表したタイムライン */}
+							<div style={{ width: "100%", display: "flex", height: "12px", borderRadius: "4px", overflow: "hidden" }}>
+								{summarizeTimeline(batch.result.frames).map((ratio, i) => (
+									<div key={i} style={{ flex: 1, backgroundColor: `rgba(46, 204, 113, ${0.15 + ratio * 0.85})` }} />
+								))}
+							</div>
+							<div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+								<span>{batch.result.frames.length}フレーム</span>
+								<button
+									onClick={() => setReplaySession(batch.result)}
+									style={{
+										backgroundColor: "rgba(155, 89, 182, 0.7)",
+										color: "white",
+										border: "none",
+										borderRadius: "20px",
+										padding: "4px 10px",
+										cursor: "pointer",
+										fontSize: isMobile ? "11px" : "12px",
+									}}
+								>
+									🎞 結果を再生
+								</button>
+								<button
+									onClick={() => batch.result && downloadFile(sessionToJSON(batch.result), `${sessionFileName(batch.result)}.json`, "application/json")}
+									style={{
+										backgroundColor: "rgba(46, 204, 113, 0.7)",
+										color: "white",
+										border: "none",
+										borderRadius: "20px",
+										padding: "4px 10px",
+										cursor: "pointer",
+										fontSize: isMobile ? "11px" : "12px",
+									}}
+								>
+									JSON
+								</button>
+								<button
+									onClick={() => batch.result && downloadFile(sessionToCSV(batch.result), `${sessionFileName(batch.result)}.csv`, "text/csv")}
+									style={{
+										backgroundColor: "rgba(46, 204, 113, 0.7)",
+										color: "white",
+										border: "none",
+										borderRadius: "20px",
+										padding: "4px 10px",
+										cursor: "pointer",
+										fontSize: isMobile ? "11px" : "12px",
+									}}
+								>
+									CSV
+								</button>
+							</div>
+						</>
+					)}
+				</div>
+			)}
+
 			{/* ファイル入力UI */}
 			<div style={{ 
 				position: "absolute",
@@ -1169,13 +1800,74 @@ function App() {
 				backdropFilter: "blur(4px)",
 				boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
 				display: "flex",
-				flexDirection: isMobile && videoFile ? "column" : "row",
+				flexDirection: isMobile && (videoFile || replaySession) ? "column" : "row",
 				alignItems: "center",
 				gap: "10px",
 				width: isMobile ? "auto" : "auto",
 				maxWidth: isMobile ? "90%" : "auto",
 			}}>
-				{videoFile ? (
+				{replaySession ? (
+					<>
+						<button
+							onClick={() => player.setIsPlaying(!player.isPlaying)}
+							style={{
+								backgroundColor: "rgba(52, 152, 219, 0.7)",
+								color: "white",
+								border: "none",
+								borderRadius: "20px",
+								padding: isMobile ? "5px 10px" : "6px 12px",
+								cursor: "pointer",
+								fontSize: isMobile ? "13px" : "15px",
+							}}
+						>
+							{player.isPlaying ? "⏸ 一時停止" : "▶ 再生"}
+						</button>
+						<input
+							type="range"
+							min={0}
+							max={player.duration}
+							step={1}
+							value={player.currentTime}
+							onChange={(e) => player.seek(Number(e.target.value))}
+							style={{ width: isMobile ? "140px" : "240px" }}
+						/>
+						<span style={{ fontSize: isMobile ? "12px" : "14px", whiteSpace: "nowrap" }}>
+							{(player.currentTime / 1000).toFixed(1)} / {(player.duration / 1000).toFixed(1)}秒
+						</span>
+						<select
+							value={player.speed}
+							onChange={(e) => player.setSpeed(Number(e.target.value))}
+							style={{
+								backgroundColor: "rgba(0, 0, 0, 0.6)",
+								color: "white",
+								border: "1px solid rgba(255, 255, 255, 0.3)",
+								borderRadius: "12px",
+								padding: "2px 6px",
+							}}
+						>
+							{playbackSpeeds.map(speed => (
+								<option key={speed} value={speed}>{speed}x</option>
+							))}
+						</select>
+						<button
+							onClick={() => setReplaySession(null)}
+							style={{
+								backgroundColor: "rgba(220, 53, 69, 0.7)",
+								color: "white",
+								border: "none",
+								borderRadius: "20px",
+								padding: isMobile ? "5px 10px" : "6px 12px",
+								cursor: "pointer",
+								display: "flex",
+								alignItems: "center",
+								gap: "5px",
+								fontSize: isMobile ? "13px" : "15px",
+							}}
+						>
+							<span>✖</span> 再生終了
+						</button>
+					</>
+				) : videoFile ? (
 					<>
 						<span style={{ 
 							fontSize: isMobile ? "13px" : "15px",
@@ -1228,12 +1920,35 @@ function App() {
 							onChange={handleFileChange}
 							style={{ display: "none" }}
 						/>
+						<label
+							htmlFor="session-upload"
+							style={{
+								backgroundColor: "rgba(155, 89, 182, 0.7)",
+								color: "white",
+								borderRadius: "20px",
+								padding: isMobile ? "5px 10px" : "6px 12px",
+								cursor: "pointer",
+								display: "flex",
+								alignItems: "center",
+								gap: "5px",
+								fontSize: isMobile ? "13px" : "15px",
+							}}
+						>
+							<span>🎞</span> 記録を再生
+						</label>
+						<input
+							id="session-upload"
+							type="file"
+							accept=".json,application/json"
+							onChange={handleSessionFileChange}
+							style={{ display: "none" }}
+						/>
 					</>
 				)}
 			</div>
 
 			{/* カメラ許可通知 */}
-			{!isAllowed && (
+			{!isAllowed && !isReplaying && (
 				<div style={{
 					position: "absolute",
 					top: "50%",
@@ -1257,7 +1972,7 @@ function App() {
 			)}
 			
 			{/* ローディング表示 */}
-			{isLoading && (
+			{isLoading && !isReplaying && (
 				<div style={{
 					position: "absolute",
 					top: "50%",
@@ -1288,6 +2003,23 @@ function App() {
 						marginBottom: "12px",
 					}} />
 					<p style={{ margin: "0", fontWeight: "bold", fontSize: isMobile ? "14px" : "16px" }}>モデルを読み込み中...</p>
+					{loadProgresses.map(progress => (
+						<div key={progress.key} style={{ marginTop: "8px", width: "100%", fontSize: isMobile ? "11px" : "12px" }}>
+							<div style={{ display: "flex", justifyContent: "space-between", gap: "8px", marginBottom: "2px" }}>
+								<span>{modelNames[progress.key]}: {progress.stage}</span>
+								<span>{Math.round(progress.progress * 100)}%</span>
+							</div>
+							<div style={{ height: "4px", backgroundColor: "rgba(255, 255, 255, 0.2)", borderRadius: "2px" }}>
+								<div style={{
+									width: `${progress.progress * 100}%`,
+									height: "100%",
+									backgroundColor: "rgba(52, 152, 219, 0.9)",
+									borderRadius: "2px",
+									transition: "width 0.3s ease",
+								}} />
+							</div>
+						</div>
+					))}
 				</div>
 			)}
 			
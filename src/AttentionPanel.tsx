@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import { playBeep } from "./core/alertSound";
+import {
+	AttentionAlertType,
+	AttentionMetrics,
+	AttentionSettings,
+	attentionAlertLabels,
+} from "./core/attentionMonitor";
+
+// 設定画面で変更できる数値の項目（表示用の倍率をかけた値で入力する）
+const numberFields: {
+	key: Exclude<keyof AttentionSettings, "sound">;
+	label: string;
+	unit: string;
+	scale: number;
+	step: number;
+}[] = [
+	{ key: "earThreshold", label: "目を閉じたとみなすEAR", unit: "", scale: 1, step: 0.01 },
+	{ key: "perclosThreshold", label: "眠気のPERCLOS", unit: "%", scale: 100, step: 1 },
+	{ key: "marThreshold", label: "あくびとみなすMAR", unit: "", scale: 1, step: 0.05 },
+	{ key: "maxYawns", label: "あくびの回数", unit: "回", scale: 1, step: 1 },
+	{ key: "lookAwayAngle", label: "よそ見の角度", unit: "°", scale: 1, step: 5 },
+	{ key: "lookAwayDuration", label: "よそ見の時間", unit: "秒", scale: 0.001, step: 0.5 },
+	{ key: "windowDuration", label: "集計期間", unit: "秒", scale: 0.001, step: 10 },
+];
+
+// まばたき・眠気・あくび・よそ見の指標と警告を表示するパネル
+export const AttentionPanel = ({ metrics, settings, onSettingsChange, isMobile }: {
+	metrics: AttentionMetrics | null;
+	settings: AttentionSettings;
+	onSettingsChange: (settings: AttentionSettings) => void;
+	isMobile: boolean;
+}) => {
+	const [showSettings, setShowSettings] = useState(false);
+	const previousAlertsRef = useRef<AttentionAlertType[]>([]);
+	const alerts = metrics?.alerts ?? [];
+
+	// 新しく警告が出たときに音を鳴らす
+	useEffect(() => {
+		const current = metrics?.alerts ?? [];
+		const newAlerts = current.filter(alert => !previousAlertsRef.current.includes(alert));
+		previousAlertsRef.current = current;
+		if (newAlerts.length > 0 && settings.sound) {
+			playBeep();
+		}
+	}, [metrics, settings.sound]);
+
+	return (
+		<>
+			{/* 警告 */}
+			{alerts.length > 0 && (
+				<div style={{
+					position: "absolute",
+					top: isMobile ? "70px" : "90px",
+					left: "50%",
+					transform: "translateX(-50%)",
+					zIndex: 15,
+					display: "flex",
+					flexDirection: "column",
+					gap: "6px",
+					pointerEvents: "none",
+				}}>
+					{alerts.map(alert => (
+						<div key={alert} style={{
+							padding: isMobile ? "6px 12px" : "8px 16px",
+							backgroundColor: "rgba(220, 53, 69, 0.9)",
+							color: "white",
+							borderRadius: "20px",
+							fontWeight: "bold",
+							fontSize: isMobile ? "13px" : "16px",
+							boxShadow: "0 2px 8px rgba(0, 0, 0, 0.4)",
+							textAlign: "center",
+						}}>
+							⚠️ {attentionAlertLabels[alert]}
+						</div>
+					))}
+				</div>
+			)}
+
+			<div style={{
+				position: "absolute",
+				bottom: isMobile ? "80px" : "100px",
+				left: isMobile ? "5px" : "10px",
+				zIndex: 10,
+				padding: isMobile ? "6px 8px" : "8px 10px",
+				backgroundColor: "rgba(0, 0, 0, 0.6)",
+				color: "white",
+				borderRadius: "8px",
+				backdropFilter: "blur(4px)",
+				boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+				fontSize: isMobile ? "10px" : "12px",
+				lineHeight: 1.5,
+				display: "flex",
+				flexDirection: "column",
+				gap: "2px",
+			}}>
+				<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "8px" }}>
+					<strong>注意モニター</strong>
+					<button
+						onClick={() => setShowSettings(show => !show)}
+						style={{
+							backgroundColor: showSettings ? "rgba(52, 152, 219, 0.9)" : "rgba(255, 255, 255, 0.15)",
+							color: "white",
+							border: "none",
+							borderRadius: "12px",
+							padding: "0 8px",
+							cursor: "pointer",
+							fontSize: isMobile ? "10px" : "11px",
+						}}
+					>
+						⚙️
+					</button>
+				</div>
+				<div>EAR: {metrics?.ear != null ? metrics.ear.toFixed(2) : "-"}</div>
+				<div>まばたき: {metrics ? `${Math.round(metrics.blinkRate)}回/分` : "-"}</div>
+				<div style={{ color: alerts.includes("drowsy") ? "#ff6b6b" : undefined }}>
+					PERCLOS: {metrics ? `${Math.round(metrics.perclos * 100)}%` : "-"}
+				</div>
+				<div style={{ color: alerts.includes("yawn") ? "#ff6b6b" : undefined }}>
+					あくび: {metrics ? `${metrics.yawnCount}回${metrics.isYawning ? "（あくび中）" : ""}` : "-"}
+				</div>
+				<div style={{ color: alerts.includes("lookingAway") ? "#ff6b6b" : undefined }}>
+					よそ見: {metrics ? `${(metrics.lookingAwayDuration / 1000).toFixed(1)}秒` : "-"}
+				</div>
+				{showSettings && (
+					<div style={{ display: "flex", flexDirection: "column", gap: "4px", marginTop: "4px" }}>
+						{numberFields.map(({ key, label, unit, scale, step }) => (
+							<label key={key} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "6px" }}>
+								<span>{label}</span>
+								<span>
+									<input
+										type="number"
+										min={0}
+										step={step}
+										value={Math.round(settings[key] * scale * 100) / 100}
+										onChange={(e) => {
+											const value = Number(e.target.value);
+											if (!Number.isFinite(value) || value < 0) return;
+											onSettingsChange({ ...settings, [key]: value / scale });
+										}}
+										style={{
+											width: "52px",
+											backgroundColor: "rgba(0, 0, 0, 0.6)",
+											color: "white",
+											border: "1px solid rgba(255, 255, 255, 0.3)",
+											borderRadius: "8px",
+											padding: "1px 4px",
+										}}
+									/>
+									{unit}
+								</span>
+							</label>
+						))}
+						<label style={{ display: "flex", alignItems: "center", gap: "6px", cursor: "pointer" }}>
+							<input
+								type="checkbox"
+								checked={settings.sound}
+								onChange={(e) => onSettingsChange({ ...settings, sound: e.target.checked })}
+								style={{ margin: 0 }}
+							/>
+							<span>警告音を鳴らす</span>
+						</label>
+					</div>
+				)}
+			</div>
+		</>
+	);
+};
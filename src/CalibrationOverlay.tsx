@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import {
+	CalibrationSamples,
+	CalibrationStep,
+	FaceSample,
+	SAMPLE_DURATION,
+	SETTLE_DURATION,
+} from "./core/calibration";
+
+// キャリブレーションの各ステップの案内を画面全体に表示し、ステップごとに補正前の値を集める
+export const CalibrationOverlay = ({ steps, subscribeSamples, onComplete, onCancel, isMobile }: {
+	steps: CalibrationStep[];
+	// 顔検出の補正前の値を購読する。戻り値の関数で購読を解除する
+	subscribeSamples: (listener: (sample: FaceSample) => void) => () => void;
+	// すべてのステップで値を集められたときに呼ばれる。結果を使えない場合はエラーメッセージを返す
+	onComplete: (samples: CalibrationSamples) => string | void;
+	onCancel: () => void;
+	isMobile: boolean;
+}) => {
+	const [stepIndex, setStepIndex] = useState(0);
+	const [isSampling, setIsSampling] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const isSamplingRef = useRef(false);
+	const samplesRef = useRef<CalibrationSamples>({});
+	const stepIndexRef = useRef(0);
+	const onCompleteRef = useRef(onComplete);
+	useEffect(() => {
+		onCompleteRef.current = onComplete;
+		stepIndexRef.current = stepIndex;
+	});
+
+	// 値を集めている間だけ、表示中のステップの値として記録する
+	useEffect(() => subscribeSamples(sample => {
+		if (!isSamplingRef.current) return;
+		const { key } = steps[stepIndexRef.current];
+		(samplesRef.current[key] ??= []).push(sample);
+	}), [subscribeSamples, steps]);
+
+	// 視線が落ち着くまで待ってから値を集め、次のステップに進む
+	useEffect(() => {
+		if (error) return;
+		const settle = setTimeout(() => {
+			isSamplingRef.current = true;
+			setIsSampling(true);
+		}, SETTLE_DURATION);
+		const next = setTimeout(() => {
+			isSamplingRef.current = false;
+			setIsSampling(false);
+			if (stepIndex < steps.length - 1) {
+				setStepIndex(stepIndex + 1);
+				return;
+			}
+			if (steps.some(step => !samplesRef.current[step.key]?.length)) {
+				setError("顔を検出できなかったため、キャリブレーションできませんでした");
+				return;
+			}
+			const message = onCompleteRef.current(samplesRef.current);
+			if (message) setError(message);
+		}, SETTLE_DURATION + SAMPLE_DURATION);
+		return () => {
+			clearTimeout(settle);
+			clearTimeout(next);
+		};
+	}, [stepIndex, error, steps]);
+
+	const step = steps[stepIndex];
+
+	return (
+		<div style={{
+			position: "absolute",
+			inset: 0,
+			zIndex: 30,
+			backgroundColor: "rgba(0, 0, 0, 0.75)",
+			color: "white",
+		}}>
+			{step.target && !error && (
+				<div style={{
+					position: "absolute",
+					left: `${step.target.x * 100}%`,
+					top: `${step.target.y * 100}%`,
+					width: isMobile ? "18px" : "24px",
+					height: isMobile ? "18px" : "24px",
+					transform: "translate(-50%, -50%)",
+					borderRadius: "50%",
+					backgroundColor: isSampling ? "#2ecc71" : "#e74c3c",
+					boxShadow: "0 0 12px rgba(255, 255, 255, 0.8)",
+					transition: "background-color 0.2s",
+				}} />
+			)}
+			<div style={{
+				position: "absolute",
+				top: "65%",
+				left: "50%",
+				transform: "translateX(-50%)",
+				display: "flex",
+				flexDirection: "column",
+				alignItems: "center",
+				gap: "10px",
+				textAlign: "center",
+				fontSize: isMobile ? "14px" : "18px",
+			}}>
+				<div style={{ opacity: 0.8, fontSize: isMobile ? "12px" : "14px" }}>
+					キャリブレーション {stepIndex + 1} / {steps.length}
+				</div>
+				<div style={{ fontWeight: "bold" }}>{error ?? step.label}</div>
+				{!error && (
+					<div style={{ fontSize: isMobile ? "12px" : "14px" }}>
+						{isSampling ? "測定中..." : "準備してください"}
+					</div>
+				)}
+				<button
+					onClick={onCancel}
+					style={{
+						backgroundColor: "rgba(255, 255, 255, 0.15)",
+						color: "white",
+						border: "none",
+						borderRadius: "20px",
+						padding: isMobile ? "4px 10px" : "6px 12px",
+						cursor: "pointer",
+						fontSize: isMobile ? "12px" : "13px",
+					}}
+				>
+					{error ? "閉じる" : "中止"}
+				</button>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,105 @@
+import { useEffect, useRef } from "react";
+import { EmotionTimeline, emotionColor, emotionDistribution } from "./core/emotionTimeline";
+
+const GRAPH_WIDTH = 200;
+const GRAPH_HEIGHT = 50;
+
+const formatDuration = (ms: number) => {
+	const seconds = Math.floor(ms / 1000);
+	return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// 計測を始めてからの表情の推移と割合を表示するパネル
+export const EmotionTimelinePanel = ({ timeline, onClear, isMobile }: {
+	timeline: EmotionTimeline;
+	// 省略した場合はクリアボタンを表示しない（記録ファイルの再生中など）
+	onClear?: () => void;
+	isMobile: boolean;
+}) => {
+	const graphRef = useRef<HTMLCanvasElement>(null);
+	const distribution = emotionDistribution(timeline);
+	const total = distribution.reduce((sum, { count }) => sum + count, 0);
+	const last = timeline.buckets[timeline.buckets.length - 1];
+	const duration = last ? last.start + timeline.bucketDuration : 0;
+
+	// 全期間を横幅に収め、区間ごとの表情の割合を積み上げて描画
+	useEffect(() => {
+		const ctx = graphRef.current?.getContext("2d");
+		if (!ctx) return;
+		ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+		if (!last) return;
+		const width = GRAPH_WIDTH / (last.start / timeline.bucketDuration + 1);
+		for (const bucket of timeline.buckets) {
+			const x = bucket.start / timeline.bucketDuration * width;
+			const count = Object.values(bucket.counts).reduce((sum, value) => sum + value, 0);
+			let y = GRAPH_HEIGHT;
+			for (const [name, value] of Object.entries(bucket.counts)) {
+				const height = value / count * GRAPH_HEIGHT;
+				y -= height;
+				ctx.fillStyle = emotionColor(name);
+				ctx.fillRect(x, y, Math.max(width, 1), height);
+			}
+		}
+	}, [timeline, last]);
+
+	return (
+		<div style={{
+			position: "absolute",
+			bottom: isMobile ? "80px" : "100px",
+			right: isMobile ? "5px" : "10px",
+			zIndex: 10,
+			padding: isMobile ? "6px 8px" : "8px 10px",
+			backgroundColor: "rgba(0, 0, 0, 0.6)",
+			color: "white",
+			borderRadius: "8px",
+			backdropFilter: "blur(4px)",
+			boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+			fontSize: isMobile ? "10px" : "12px",
+			lineHeight: 1.5,
+		}}>
+			<div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "8px" }}>
+				<strong>表情の推移 ({formatDuration(duration)})</strong>
+				{onClear && (
+					<button
+						onClick={onClear}
+						disabled={total === 0}
+						style={{
+							backgroundColor: "rgba(255, 255, 255, 0.15)",
+							color: "white",
+							border: "none",
+							borderRadius: "12px",
+							padding: "0 8px",
+							cursor: total === 0 ? "default" : "pointer",
+							fontSize: isMobile ? "10px" : "11px",
+						}}
+					>
+						クリア
+					</button>
+				)}
+			</div>
+			<canvas
+				ref={graphRef}
+				width={GRAPH_WIDTH}
+				height={GRAPH_HEIGHT}
+				style={{
+					display: "block",
+					margin: "4px 0",
+					backgroundColor: "rgba(255, 255, 255, 0.1)",
+					borderRadius: "4px",
+				}}
+			/>
+			{distribution.length === 0 ? (
+				<div>顔が検出されると記録されます</div>
+			) : (
+				<div style={{ display: "flex", flexWrap: "wrap", gap: "2px 8px", maxWidth: `${GRAPH_WIDTH}px` }}>
+					{distribution.map(({ name, count }) => (
+						<span key={name} style={{ display: "flex", alignItems: "center", gap: "3px" }}>
+							<span style={{ width: "8px", height: "8px", borderRadius: "2px", backgroundColor: emotionColor(name) }} />
+							{name} {Math.round(count / total * 100)}%
+						</span>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
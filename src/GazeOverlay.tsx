@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import type { GazeHeatmap, ScreenPoint } from "./core/gazeEstimation";
+import type { OverlayTheme } from "./core/overlayTheme";
+import { drawGazeHeatmap, drawGazePoint, resizeCanvas } from "./core/renderers";
+
+// 画面全体に注視点のヒートマップと現在の注視点を重ねて表示する
+export const GazeOverlay = ({ heatmap, gazePoint, showHeatmap, theme }: {
+	heatmap: GazeHeatmap;
+	gazePoint: ScreenPoint | null;
+	showHeatmap: boolean;
+	theme: OverlayTheme;
+}) => {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+
+	// ヒートマップは記録のたびに書き換わるため、注視点が更新されるたびに描き直す
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		const ctx = canvas?.getContext("2d");
+		if (!canvas || !ctx) return;
+		resizeCanvas(canvas, canvas.clientWidth, canvas.clientHeight);
+		ctx.clearRect(0, 0, canvas.width, canvas.height);
+		if (showHeatmap) drawGazeHeatmap(ctx, heatmap);
+		if (gazePoint) drawGazePoint(ctx, gazePoint, theme);
+	}, [heatmap, gazePoint, showHeatmap, theme]);
+
+	return (
+		<canvas
+			ref={canvasRef}
+			style={{
+				position: "absolute",
+				inset: 0,
+				width: "100%",
+				height: "100%",
+				zIndex: 5,
+				pointerEvents: "none",
+			}}
+		/>
+	);
+};
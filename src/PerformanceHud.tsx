@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from "react";
+import * as tf from "@tensorflow/tfjs-core";
+import type { FrameSchedulerStats } from "./core/frameScheduler";
+import { getWorkerRuntimeStatus } from "./core/detectionWorkerClient";
+
+type Sample = {
+	fps: number;
+	latency: number;
+	// Workerで推論していて、まだWorkerから届いていない場合はnull
+	memory: { numTensors: number; numBytes: number } | null;
+};
+
+// グラフに表示するサンプル数（統計は0.5秒ごとなので約30秒分）
+const MAX_SAMPLES = 60;
+const GRAPH_WIDTH = 180;
+const GRAPH_HEIGHT = 50;
+
+const formatMs = (value: number | null) => value === null ? "-" : `${value.toFixed(1)}ms`;
+const formatBytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+// 検出のフレームレート・処理時間・テンソルのメモリ使用量を表示するパネル
+// inWorkerがtrueなら、バックエンドとメモリ使用量はメインスレッドではなくWorkerのものを表示する
+export const PerformanceHud = ({ stats, inWorker, isMobile }: {
+	stats: FrameSchedulerStats | null;
+	inWorker: boolean;
+	isMobile: boolean;
+}) => {
+	const [samples, setSamples] = useState<Sample[]>([]);
+	const graphRef = useRef<HTMLCanvasElement>(null);
+
+	// 統計が届くたびにメモリ使用量と合わせて記録する
+	useEffect(() => {
+		if (!stats) return;
+		const memory = inWorker ? getWorkerRuntimeStatus().memory : tf.memory();
+		setSamples(prev => [
+			...prev,
+			{ fps: stats.fps, latency: stats.latency, memory: memory && { numTensors: memory.numTensors, numBytes: memory.numBytes } },
+		].slice(-MAX_SAMPLES));
+	}, [stats, inWorker]);
+
+	// FPS（緑）と処理時間（橙）の推移をグラフに描画
+	useEffect(() => {
+		const ctx = graphRef.current?.getContext("2d");
+		if (!ctx) return;
+		ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+		if (samples.length < 2) return;
+
+		const maxFps = Math.max(30, ...samples.map(sample => sample.fps));
+		const maxLatency = Math.max(50, ...samples.map(sample => sample.latency));
+		const drawLine = (values: number[], max: number, color: string) => {
+			ctx.beginPath();
+			values.forEach((value, i) => {
+				const x = i * GRAPH_WIDTH / (MAX_SAMPLES - 1);
+				const y = GRAPH_HEIGHT - value / max * (GRAPH_HEIGHT - 2) - 1;
+				if (i === 0) {
+					ctx.moveTo(x, y);
+				} else {
+					ctx.lineTo(x, y);
+				}
+			});
+			ctx.strokeStyle = color;
+			ctx.lineWidth = 1.5;
+			ctx.stroke();
+		};
+		drawLine(samples.map(sample => sample.fps), maxFps, "lime");
+		drawLine(samples.map(sample => sample.latency), maxLatency, "orange");
+	}, [samples]);
+
+	const latest = samples[samples.length - 1];
+	const backend = inWorker ? getWorkerRuntimeStatus().backend : tf.getBackend();
+	const workerError = inWorker ? getWorkerRuntimeStatus().error : null;
+
+	return (
+		<div style={{
+			position: "absolute",
+			top: "50%",
+			left: isMobile ? "5px" : "10px",
+			transform: "translateY(-50%)",
+			zIndex: 10,
+			padding: isMobile ? "6px 8px" : "8px 10px",
+			backgroundColor: "rgba(0, 0, 0, 0.6)",
+			color: "white",
+			borderRadius: "8px",
+			backdropFilter: "blur(4px)",
+			boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+			fontFamily: "monospace",
+			fontSize: isMobile ? "10px" : "12px",
+			lineHeight: 1.5,
+		}}>
+			<div style={{ fontWeight: "bold", marginBottom: "2px" }}>パフォーマンス</div>
+			<div>バックエンド{inWorker ? "（Worker）" : ""}: {backend ?? "-"}</div>
+			<div style={{ color: "lime" }}>FPS: {stats?.fps ?? "-"}</div>
+			<div style={{ color: "orange" }}>処理時間: {formatMs(stats?.latency ?? null)}</div>
+			<div style={{ paddingLeft: "1em" }}>推論: {formatMs(stats?.inferenceTime ?? null)}</div>
+			<div style={{ paddingLeft: "1em" }}>描画: {formatMs(stats?.renderTime ?? null)}</div>
+			<div>読み飛ばし: {stats?.droppedFrames ?? "-"}</div>
+			<div>テンソル: {latest?.memory ? `${latest.memory.numTensors}個 / ${formatBytes(latest.memory.numBytes)}` : "-"}</div>
+			{workerError && <div style={{ color: "tomato" }}>Workerのエラー: {workerError}</div>}
+			<canvas
+				ref={graphRef}
+				width={GRAPH_WIDTH}
+				height={GRAPH_HEIGHT}
+				style={{
+					display: "block",
+					marginTop: "4px",
+					backgroundColor: "rgba(255, 255, 255, 0.1)",
+					borderRadius: "4px",
+				}}
+			/>
+		</div>
+	);
+};
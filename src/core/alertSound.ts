@@ -0,0 +1,19 @@
+let audioContext: AudioContext | null = null;
+
+// 警告音（短いビープ音）を鳴らす
+export const playBeep = (frequency = 880, duration = 0.2) => {
+	try {
+		audioContext ??= new AudioContext();
+		const oscillator = audioContext.createOscillator();
+		const gain = audioContext.createGain();
+		oscillator.type = "square";
+		oscillator.frequency.value = frequency;
+		gain.gain.setValueAtTime(0.2, audioContext.currentTime);
+		gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + duration);
+		oscillator.connect(gain).connect(audioContext.destination);
+		oscillator.start();
+		oscillator.stop(audioContext.currentTime + duration);
+	} catch (error) {
+		console.error("警告音の再生エラー:", error);
+	}
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { createFaceKeypoints } from "../test/fixtures/face";
+import type { FaceShape } from "../test/fixtures/face";
+import {
+	AttentionInput,
+	AttentionMetrics,
+	AttentionState,
+	computeEyeAspectRatio,
+	computeMouthAspectRatio,
+	initialAttentionState,
+	updateAttention,
+} from "./attentionMonitor";
+import { estimateHeadPose } from "./headPose";
+
+const toInput = (shape: Partial<FaceShape>, yaw = 0): AttentionInput => {
+	const keypoints = createFaceKeypoints(shape, { yaw });
+	const { left, right } = computeEyeAspectRatio(keypoints);
+	return { ear: (left + right) / 2, mar: computeMouthAspectRatio(keypoints), headPose: estimateHeadPose(keypoints) };
+};
+
+const open = toInput({});
+const closed = toInput({ leftEyeOpen: 0.01, rightEyeOpen: 0.01 });
+
+// 33ミリ秒（約30fps）ごとの入力を順に与えて、最後の指標を返す
+const run = (inputs: AttentionInput[], frameDuration = 33) => {
+	let state: AttentionState = initialAttentionState;
+	let metrics: AttentionMetrics | null = null;
+	inputs.forEach((input, i) => {
+		const result = updateAttention(state, input, i * frameDuration);
+		state = result.state;
+		metrics = result.metrics;
+	});
+	if (!metrics) throw new Error("入力がありません");
+	return metrics as AttentionMetrics;
+};
+
+const repeat = <T>(value: T, count: number) => Array<T>(count).fill(value);
+
+describe("computeEyeAspectRatio", () => {
+	it("目を閉じるとEARが小さくなる", () => {
+		expect(open?.ear).toBeGreaterThan(0.25);
+		expect(closed?.ear).toBeLessThan(0.1);
+	});
+});
+
+describe("updateAttention", () => {
+	it("短く目を閉じたらまばたきとして数える", () => {
+		const metrics = run([...repeat(open, 30), ...repeat(closed, 5), ...repeat(open, 30), ...repeat(closed, 5), ...repeat(open, 5)]);
+		expect(metrics.blinkRate).toBeGreaterThan(0);
+		expect(metrics.alerts).toEqual([]);
+	});
+
+	it("目を閉じている割合が高い状態が続いたら眠気の警告を出す", () => {
+		// 11秒間、1秒のうち0.5秒目を閉じる
+		const second = [...repeat(open, 15), ...repeat(closed, 15)];
+		const metrics = run(Array.from({ length: 11 }, () => second).flat());
+		expect(metrics.perclos).toBeGreaterThan(0.4);
+		expect(metrics.alerts).toContain("drowsy");
+	});
+
+	it("口を大きく開けた状態が続いたらあくびとして数える", () => {
+		const yawn = toInput({ mouthOpen: 0.7 });
+		const metrics = run([...repeat(open, 10), ...repeat(yawn, 60), ...repeat(open, 10), ...repeat(yawn, 60)]);
+		expect(metrics.yawnCount).toBe(2);
+		expect(metrics.alerts).toContain("yawn");
+	});
+
+	it("横を向いた状態が続いたらよそ見の警告を出す", () => {
+		const away = toInput({}, 45);
+		expect(run(repeat(away, 60)).alerts).toEqual([]);
+		expect(run(repeat(away, 100)).alerts).toContain("lookingAway");
+	});
+
+	it("顔が見つからない場合もよそ見とみなす", () => {
+		const metrics = run(repeat(null, 100));
+		expect(metrics.ear).toBeNull();
+		expect(metrics.alerts).toEqual(["lookingAway"]);
+	});
+});
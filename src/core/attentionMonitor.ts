@@ -0,0 +1,217 @@
+import type { HeadPose } from "./headPose";
+import type { Keypoint } from "./types";
+
+export type AttentionAlertType = "drowsy" | "yawn" | "lookingAway";
+
+export const attentionAlertLabels: Record<AttentionAlertType, string> = {
+	drowsy: "眠気を検知しました 😴",
+	yawn: "あくびが続いています 🥱",
+	lookingAway: "画面から目を離しています 👀",
+};
+
+export type AttentionSettings = {
+	// 目の縦横比（EAR）がこれを下回ったら目を閉じているとみなす
+	earThreshold: number;
+	// 口の縦横比（MAR）がこれを上回ったら口を大きく開けているとみなす
+	marThreshold: number;
+	// 口を大きく開けた状態がこれ以上続いたらあくびとみなす（ミリ秒）
+	yawnMinDuration: number;
+	// まばたきの回数・PERCLOS・あくびの回数を数える期間（ミリ秒）
+	windowDuration: number;
+	// 期間内で目を閉じていた時間の割合（PERCLOS）がこれを超えたら眠気の警告を出す
+	perclosThreshold: number;
+	// 期間内のあくびの回数がこれ以上になったら警告を出す
+	maxYawns: number;
+	// 頭の向きがこれ（度）を超えたら画面から目を離しているとみなす
+	lookAwayAngle: number;
+	// 画面から目を離した状態がこれ以上続いたら警告を出す（ミリ秒）
+	lookAwayDuration: number;
+	// 警告のときに音を鳴らす
+	sound: boolean;
+};
+
+export const defaultAttentionSettings: AttentionSettings = {
+	earThreshold: 0.2,
+	marThreshold: 0.6,
+	yawnMinDuration: 1500,
+	windowDuration: 60000,
+	perclosThreshold: 0.15,
+	maxYawns: 2,
+	lookAwayAngle: 30,
+	lookAwayDuration: 3000,
+	sound: true,
+};
+
+// 目を閉じていた時間がこれより短ければまばたき、長ければ居眠りとみなす（ミリ秒）
+const MAX_BLINK_DURATION = 500;
+// PERCLOSを判定するのに必要な計測時間（ミリ秒）。これより短い間は警告を出さない
+const MIN_PERCLOS_DURATION = 10000;
+
+// MediaPipe FaceMeshの目の6点 [目尻, 上1, 上2, 目頭, 下2, 下1]
+const LEFT_EYE = [33, 160, 158, 133, 153, 144];
+const RIGHT_EYE = [263, 387, 385, 362, 380, 373];
+// 口の [左端, 右端] と上下の3組
+const MOUTH_CORNERS = [61, 291];
+const MOUTH_VERTICAL = [[81, 178], [13, 14], [311, 402]];
+
+const distance = (a: Keypoint, b: Keypoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// 目の縦横比（Eye Aspect Ratio）。開いているときは約0.3、閉じると0に近づく
+const eyeAspectRatio = (keypoints: Keypoint[], [p1, p2, p3, p4, p5, p6]: number[]) =>
+	(distance(keypoints[p2], keypoints[p6]) + distance(keypoints[p3], keypoints[p5])) /
+	(2 * distance(keypoints[p1], keypoints[p4]) || 1);
+
+export const computeEyeAspectRatio = (keypoints: Keypoint[]) => ({
+	left: eyeAspectRatio(keypoints, LEFT_EYE),
+	right: eyeAspectRatio(keypoints, RIGHT_EYE),
+});
+
+// 口の縦横比（Mouth Aspect Ratio）。閉じているときは0に近く、あくびでは0.6を超える
+export const computeMouthAspectRatio = (keypoints: Keypoint[]) => {
+	const width = distance(keypoints[MOUTH_CORNERS[0]], keypoints[MOUTH_CORNERS[1]]) || 1;
+	const height = MOUTH_VERTICAL.reduce((sum, [top, bottom]) => sum + distance(keypoints[top], keypoints[bottom]), 0);
+	return height / MOUTH_VERTICAL.length / width;
+};
+
+// 1フレーム分の入力（顔が見つからない場合はnull）
+export type AttentionInput = {
+	// 両目のEARの平均
+	ear: number;
+	mar: number;
+	headPose: HeadPose;
+} | null;
+
+export type AttentionState = {
+	// 期間内の各フレームの時刻と目を閉じていたか
+	frames: { timestamp: number; eyesClosed: boolean }[];
+	// 期間内のまばたき・あくびの時刻
+	blinks: number[];
+	yawns: number[];
+	eyesClosedSince: number | null;
+	mouthOpenSince: number | null;
+	// 今回の口を開けている間にあくびとして数えたか
+	yawnCounted: boolean;
+	lookingAwaySince: number | null;
+};
+
+export const initialAttentionState: AttentionState = {
+	frames: [],
+	blinks: [],
+	yawns: [],
+	eyesClosedSince: null,
+	mouthOpenSince: null,
+	yawnCounted: false,
+	lookingAwaySince: null,
+};
+
+export type AttentionMetrics = {
+	// 両目のEARの平均（顔が見つからない場合はnull）
+	ear: number | null;
+	mar: number | null;
+	// 1分あたりのまばたきの回数
+	blinkRate: number;
+	// 期間内で目を閉じていた時間の割合（0〜1）
+	perclos: number;
+	yawnCount: number;
+	isYawning: boolean;
+	// 画面から目を離している時間（ミリ秒）
+	lookingAwayDuration: number;
+	alerts: AttentionAlertType[];
+};
+
+// 1フレーム分の入力を加えて、新しい状態と指標を返す
+export const updateAttention = (
+	state: AttentionState,
+	input: AttentionInput,
+	timestamp: number,
+	settings: AttentionSettings = defaultAttentionSettings,
+): { state: AttentionState; metrics: AttentionMetrics } => {
+	const windowStart = timestamp - settings.windowDuration;
+	const ear = input?.ear ?? null;
+	const eyesClosed = ear !== null && ear < settings.earThreshold;
+	const mouthOpen = input !== null && input.mar > settings.marThreshold;
+	const lookingAway = input === null ||
+		Math.abs(input.headPose.yaw) > settings.lookAwayAngle ||
+		Math.abs(input.headPose.pitch) > settings.lookAwayAngle;
+
+	// 目を開けた瞬間に、閉じていた時間が短ければまばたきとして数える
+	let blinks = state.blinks.filter(time => time >= windowStart);
+	if (!eyesClosed && state.eyesClosedSince !== null && timestamp - state.eyesClosedSince <= MAX_BLINK_DURATION) {
+		blinks = [...blinks, timestamp];
+	}
+
+	// 口を大きく開けた状態が続いたら、1回のあくびとして数える
+	const mouthOpenSince = mouthOpen ? state.mouthOpenSince ?? timestamp : null;
+	const isYawning = mouthOpenSince !== null && timestamp - mouthOpenSince >= settings.yawnMinDuration;
+	let yawns = state.yawns.filter(time => time >= windowStart);
+	if (isYawning && !state.yawnCounted) {
+		yawns = [...yawns, timestamp];
+	}
+
+	// 顔が見つからないフレームはPERCLOSの計算に含めない
+	const frames = [
+		...state.frames.filter(frame => frame.timestamp >= windowStart),
+		...(input ? [{ timestamp, eyesClosed }] : []),
+	];
+	const perclos = frames.length > 0 ? frames.filter(frame => frame.eyesClosed).length / frames.length : 0;
+	const measuredDuration = frames.length > 0 ? timestamp - frames[0].timestamp : 0;
+	const blinkDuration = Math.min(settings.windowDuration, Math.max(measuredDuration, 1000));
+
+	const lookingAwaySince = lookingAway ? state.lookingAwaySince ?? timestamp : null;
+	const lookingAwayDuration = lookingAwaySince !== null ? timestamp - lookingAwaySince : 0;
+
+	const alerts: AttentionAlertType[] = [];
+	if (measuredDuration >= MIN_PERCLOS_DURATION && perclos > settings.perclosThreshold) alerts.push("drowsy");
+	if (yawns.length >= settings.maxYawns) alerts.push("yawn");
+	if (lookingAwayDuration >= settings.lookAwayDuration) alerts.push("lookingAway");
+
+	return {
+		state: {
+			frames,
+			blinks,
+			yawns,
+			eyesClosedSince: eyesClosed ? state.eyesClosedSince ?? timestamp : null,
+			mouthOpenSince,
+			yawnCounted: isYawning,
+			lookingAwaySince,
+		},
+		metrics: {
+			ear,
+			mar: input?.mar ?? null,
+			blinkRate: blinks.length * 60000 / blinkDuration,
+			perclos,
+			yawnCount: yawns.length,
+			isYawning,
+			lookingAwayDuration,
+			alerts,
+		},
+	};
+};
+
+const STORAGE_KEY = "react-handpose:attention-settings";
+
+// 保存された設定を読み込む。保存されていない項目や不正な値は既定値を使う
+export const loadAttentionSettings = (): AttentionSettings => {
+	try {
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<AttentionSettings> | null;
+		if (!saved) return defaultAttentionSettings;
+		const settings = { ...defaultAttentionSettings };
+		for (const key of Object.keys(settings) as (keyof AttentionSettings)[]) {
+			if (typeof saved[key] === typeof settings[key]) {
+				(settings as Record<string, unknown>)[key] = saved[key];
+			}
+		}
+		return settings;
+	} catch (error) {
+		console.error("注意モニターの設定の読み込みエラー:", error);
+		return defaultAttentionSettings;
+	}
+};
+
+export const saveAttentionSettings = (settings: AttentionSettings) => {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+	} catch (error) {
+		console.error("注意モニターの設定の保存エラー:", error);
+	}
+};
@@ -0,0 +1,127 @@
+import type { RecordedFrame } from "./sessionRecorder";
+
+// 解析のフレームレートの選択肢（"all" は動画の全フレーム）
+export const batchFpsOptions: { value: number | "all"; label: string }[] = [
+	{ value: "all", label: "全フレーム" },
+	{ value: 30, label: "30fps" },
+	{ value: 15, label: "15fps" },
+	{ value: 10, label: "10fps" },
+	{ value: 5, label: "5fps" },
+];
+
+// フレームレートを推定できなかった場合に使う値
+const DEFAULT_FRAME_RATE = 30;
+// シークが終わるのを待つ最大時間（ミリ秒）
+const SEEK_TIMEOUT = 5000;
+
+// 指定した再生位置（秒）にシークし、フレームが表示できる状態になるまで待つ
+export const seekVideo = (video: HTMLVideoElement, time: number) =>
+	new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(() => {
+			video.removeEventListener("seeked", onSeeked);
+			reject(new Error(`シークがタイムアウトしました (${time.toFixed(3)}秒)`));
+		}, SEEK_TIMEOUT);
+		const onSeeked = () => {
+			clearTimeout(timer);
+			video.removeEventListener("seeked", onSeeked);
+			resolve();
+		};
+		video.addEventListener("seeked", onSeeked);
+		video.currentTime = time;
+	});
+
+// requestVideoFrameCallbackで数フレーム再生して動画のフレームレートを推定する
+// 対応していないブラウザではDEFAULT_FRAME_RATEを返す
+export const estimateFrameRate = async (video: HTMLVideoElement): Promise<number> => {
+	if (!("requestVideoFrameCallback" in video)) return DEFAULT_FRAME_RATE;
+
+	const wasMuted = video.muted;
+	video.muted = true;
+	const mediaTimes: number[] = [];
+	try {
+		await video.play();
+		await new Promise<void>(resolve => {
+			const timer = setTimeout(resolve, 1000);
+			const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+				mediaTimes.push(metadata.mediaTime);
+				if (mediaTimes.length >= 10) {
+					clearTimeout(timer);
+					resolve();
+					return;
+				}
+				video.requestVideoFrameCallback(onFrame);
+			};
+			video.requestVideoFrameCallback(onFrame);
+		});
+	} catch (error) {
+		console.error("フレームレート推定エラー:", error);
+	} finally {
+		video.pause();
+		video.muted = wasMuted;
+	}
+
+	// 隣り合うフレームの時間差の中央値からフレームレートを求める
+	const deltas = mediaTimes
+		.slice(1)
+		.map((time, i) => time - mediaTimes[i])
+		.filter(delta => delta > 0)
+		.sort((a, b) => a - b);
+	if (deltas.length === 0) return DEFAULT_FRAME_RATE;
+	const median = deltas[Math.floor(deltas.length / 2)];
+	return Math.min(120, Math.max(1, Math.round(1 / median)));
+};
+
+export type BatchProgress = {
+	processed: number;
+	total: number;
+};
+
+// 動画を先頭から一定間隔でシークしながら1フレームずつ解析し、全フレームの結果を返す
+// 処理速度に関係なく同じ動画からは同じフレーム列が得られる
+export const analyzeVideo = async (
+	video: HTMLVideoElement,
+	fps: number,
+	analyzeFrame: (video: HTMLVideoElement) => Promise<Pick<RecordedFrame, "hands" | "faces" | "poses">>,
+	{ onFrame, signal }: {
+		onFrame?: (frame: RecordedFrame, progress: BatchProgress) => void;
+		signal?: AbortSignal;
+	} = {},
+): Promise<RecordedFrame[]> => {
+	video.pause();
+	const total = Math.max(1, Math.floor(video.duration * fps));
+	const frames: RecordedFrame[] = [];
+
+	for (let i = 0; i < total; i++) {
+		if (signal?.aborted) {
+			throw new DOMException("解析を中止しました", "AbortError");
+		}
+		// フレームの境界ちょうどだと前のフレームが表示されることがあるため、フレームの中央にシークする
+		const videoTime = Math.min((i + 0.5) / fps, video.duration - 0.001);
+		await seekVideo(video, videoTime);
+		const results = await analyzeFrame(video);
+		const frame: RecordedFrame = {
+			time: Math.round(i * 1000 / fps),
+			timestamp: Date.now(),
+			videoTime,
+			...results,
+		};
+		frames.push(frame);
+		onFrame?.(frame, { processed: i + 1, total });
+	}
+
+	return frames;
+};
+
+// タイムライン表示用に、フレームを区間に分けて各区間で何か検出されたフレームの割合を求める
+export const summarizeTimeline = (frames: RecordedFrame[], buckets = 200): number[] => {
+	const count = Math.min(buckets, frames.length);
+	return Array.from({ length: count }, (_, i) => {
+		const start = Math.floor(i * frames.length / count);
+		const end = Math.floor((i + 1) * frames.length / count);
+		const slice = frames.slice(start, end);
+		const detected = slice.filter(frame =>
+			(frame.hands?.length ?? 0) + (frame.faces?.length ?? 0) + (frame.poses?.length ?? 0) > 0
+		);
+		return slice.length > 0 ? detected.length / slice.length : 0;
+	});
+};
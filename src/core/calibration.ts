@@ -0,0 +1,157 @@
+import { FaceBlendshapes, neutralBlendshapes } from "./facialExpression";
+import { GazeModel, isGazeModel } from "./gazeEstimation";
+import type { EyeBaseline, EyeRatio, GazeBaseline, IrisMeasurement } from "./irisPosition";
+
+// 1人分のキャリブレーション結果
+export type FaceCalibration = {
+	gaze: GazeBaseline;
+	// 無表情のときの表情の各要素の強さ
+	neutral: FaceBlendshapes;
+	calibratedAt: string; // ISO 8601
+};
+
+// キャリブレーション中に1フレームごとに集める補正前の値
+export type FaceSample = {
+	iris: IrisMeasurement;
+	blendshapes: FaceBlendshapes;
+};
+
+export type CalibrationStep = {
+	key: string;
+	label: string;
+	// 見てもらう点の画面上の位置（0〜1）。nullなら点を表示しない
+	target: { x: number; y: number } | null;
+};
+
+// 正面と四隅を順に見てもらい、最後に無表情を保ってもらう
+export const calibrationSteps: CalibrationStep[] = [
+	{ key: "center", label: "画面中央の点を見てください", target: { x: 0.5, y: 0.5 } },
+	{ key: "topLeft", label: "左上の点を見てください", target: { x: 0.05, y: 0.08 } },
+	{ key: "topRight", label: "右上の点を見てください", target: { x: 0.95, y: 0.08 } },
+	{ key: "bottomLeft", label: "左下の点を見てください", target: { x: 0.05, y: 0.92 } },
+	{ key: "bottomRight", label: "右下の点を見てください", target: { x: 0.95, y: 0.92 } },
+	{ key: "neutral", label: "正面を向いて無表情を保ってください", target: null },
+];
+
+// 各ステップで視線が落ち着くまで待つ時間と、値を集める時間（ミリ秒）
+export const SETTLE_DURATION = 1000;
+export const SAMPLE_DURATION = 1500;
+
+// 中心からのずれがこれより小さい場合は正しく測れていないとみなす
+const MIN_RANGE = 0.05;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const meanRatio = (ratios: EyeRatio[]): EyeRatio => ({
+	x: mean(ratios.map(ratio => ratio.x)),
+	y: mean(ratios.map(ratio => ratio.y)),
+});
+
+// 正面を見たときの位置を中心、四隅を見たときの中心からのずれの平均を範囲とする
+const buildEyeBaseline = (center: EyeRatio, corners: EyeRatio[], fallback: EyeBaseline): EyeBaseline => {
+	const rangeX = mean(corners.map(corner => Math.abs(corner.x - center.x)));
+	const rangeY = mean(corners.map(corner => Math.abs(corner.y - center.y)));
+	return {
+		center,
+		range: {
+			x: rangeX >= MIN_RANGE ? rangeX : fallback.range.x,
+			y: rangeY >= MIN_RANGE ? rangeY : fallback.range.y,
+		},
+	};
+};
+
+// ステップごとに集めた値
+export type CalibrationSamples = Record<string, FaceSample[]>;
+
+// 各ステップで集めた値からキャリブレーション結果を作る。値を集められなかったステップがある場合はnull
+export const buildCalibration = (
+	samples: CalibrationSamples,
+	fallback: GazeBaseline,
+): FaceCalibration | null => {
+	if (calibrationSteps.some(step => !samples[step.key]?.length)) return null;
+
+	const gazeSteps = calibrationSteps.filter(step => step.target);
+	const eyeBaseline = (eye: keyof IrisMeasurement) => {
+		const [center, ...corners] = gazeSteps.map(step => meanRatio(samples[step.key].map(sample => sample.iris[eye])));
+		return buildEyeBaseline(center, corners, fallback[eye]);
+	};
+
+	const neutral = { ...neutralBlendshapes };
+	for (const key of Object.keys(neutral) as (keyof FaceBlendshapes)[]) {
+		neutral[key] = mean(samples.neutral.map(sample => sample.blendshapes[key]));
+	}
+
+	return {
+		gaze: { leftEye: eyeBaseline("leftEye"), rightEye: eyeBaseline("rightEye") },
+		neutral,
+		calibratedAt: new Date().toISOString(),
+	};
+};
+
+// プロファイルごとのキャリブレーション結果（未キャリブレーションのプロファイルはnull）
+export type CalibrationProfiles = {
+	activeProfile: string;
+	profiles: Record<string, FaceCalibration | null>;
+	// 9点キャリブレーションで作った注視点の回帰モデル（作っていないプロファイルは含まない）
+	gazeModels: Record<string, GazeModel>;
+};
+
+export const DEFAULT_PROFILE = "既定";
+
+export const defaultCalibrationProfiles: CalibrationProfiles = {
+	activeProfile: DEFAULT_PROFILE,
+	profiles: { [DEFAULT_PROFILE]: null },
+	gazeModels: {},
+};
+
+const STORAGE_KEY = "react-handpose:calibration-profiles";
+
+const isNumberRecord = (value: unknown, keys: string[]) =>
+	typeof value === "object" && value !== null &&
+	keys.every(key => typeof (value as Record<string, unknown>)[key] === "number");
+
+const isEyeBaseline = (value: unknown): value is EyeBaseline =>
+	typeof value === "object" && value !== null &&
+	isNumberRecord((value as EyeBaseline).center, ["x", "y"]) &&
+	isNumberRecord((value as EyeBaseline).range, ["x", "y"]);
+
+const isCalibration = (value: unknown): value is FaceCalibration => {
+	const calibration = value as FaceCalibration | null;
+	return typeof calibration === "object" && calibration !== null &&
+		isEyeBaseline(calibration.gaze?.leftEye) &&
+		isEyeBaseline(calibration.gaze?.rightEye) &&
+		isNumberRecord(calibration.neutral, Object.keys(neutralBlendshapes)) &&
+		typeof calibration.calibratedAt === "string";
+};
+
+// 保存されたプロファイルを読み込む。形式が正しくないプロファイルは未キャリブレーションとして扱う
+export const loadCalibrationProfiles = (): CalibrationProfiles => {
+	try {
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<CalibrationProfiles> | null;
+		if (!saved || typeof saved.profiles !== "object" || saved.profiles === null) return defaultCalibrationProfiles;
+		const profiles: Record<string, FaceCalibration | null> = {};
+		for (const [name, calibration] of Object.entries(saved.profiles)) {
+			profiles[name] = isCalibration(calibration) ? calibration : null;
+		}
+		if (Object.keys(profiles).length === 0) return defaultCalibrationProfiles;
+		const activeProfile = typeof saved.activeProfile === "string" && saved.activeProfile in profiles
+			? saved.activeProfile
+			: Object.keys(profiles)[0];
+		const gazeModels: Record<string, GazeModel> = {};
+		for (const [name, model] of Object.entries(saved.gazeModels ?? {})) {
+			if (name in profiles && isGazeModel(model)) gazeModels[name] = model;
+		}
+		return { activeProfile, profiles, gazeModels };
+	} catch (error) {
+		console.error("キャリブレーションの読み込みエラー:", error);
+		return defaultCalibrationProfiles;
+	}
+};
+
+export const saveCalibrationProfiles = (profiles: CalibrationProfiles) => {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+	} catch (error) {
+		console.error("キャリブレーションの保存エラー:", error);
+	}
+};
@@ -0,0 +1,114 @@
+import * as tf from "@tensorflow/tfjs-core";
+import type { DetectionWorkerRequest, DetectionWorkerResponse, WorkerDetections, WorkerEstimationConfig } from "./detectionWorkerProtocol";
+import {
+	Detectors,
+	ModelConfig,
+	ModelKey,
+	enforceMemoryPolicy,
+	initializeBackend,
+	loadModel,
+	modelNames,
+	releaseModel,
+} from "./modelManager";
+import { renderOverlayScene } from "./overlayScene";
+import { resizeCanvas } from "./renderers";
+import type { TfBackend } from "./runtimeSettings";
+
+// モデルの読み込みと推論、オーバーレイの描画をメインスレッドの外で行うWorker
+// メッセージの形式は detectionWorkerProtocol.ts を参照
+
+// 描画先（メインスレッドから受け取ったOffscreenCanvas）
+let canvas: OffscreenCanvas | null = null;
+// Workerのバックエンドはメインスレッドとは別に初期化する
+let requestedBackend: TfBackend | null = null;
+let backendReady: Promise<TfBackend> | null = null;
+// 読み込んだモデルの設定（推論のたびに読み込み済みの検出器を取り出すのに使う）
+const configs = new Map<ModelKey, ModelConfig>();
+
+const respond = (response: DetectionWorkerResponse) => self.postMessage(response);
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const estimators: {
+	[K in ModelKey]: (detector: Detectors[K], frame: ImageBitmap, config: WorkerEstimationConfig) => Promise<WorkerDetections[K]>
+} = {
+	hand: (detector, frame) => detector.estimateHands(frame),
+	face: (detector, frame) => detector.estimateFaces(frame),
+	pose: (detector, frame, { maxPoses }) => detector.estimatePoses(frame, { maxPoses }),
+};
+
+const load = async (key: ModelKey, config: ModelConfig, requestId: number) => {
+	if (!backendReady || requestedBackend !== config.backend) {
+		requestedBackend = config.backend;
+		backendReady = initializeBackend(config.backend);
+	}
+	const backend = await backendReady;
+	// MediaPipeランタイムはdocumentを使うためWorkerでは動かない。TensorFlow.jsランタイムで読み込む
+	const workerConfig: ModelConfig = { ...config, runtime: "tfjs", backend };
+	configs.set(key, workerConfig);
+	await loadModel(key, workerConfig, progress => respond({ type: "progress", requestId, progress }));
+	return backend;
+};
+
+const estimate = async <K extends ModelKey>(key: K, frame: ImageBitmap, estimationConfig: WorkerEstimationConfig) => {
+	const config = configs.get(key) as ModelConfig<K> | undefined;
+	try {
+		if (!config) throw new Error(`${modelNames[key]}のモデルが読み込まれていません`);
+		return await estimators[key](await loadModel(key, config), frame, estimationConfig);
+	} finally {
+		frame.close();
+	}
+};
+
+self.addEventListener("message", async (event: MessageEvent<DetectionWorkerRequest>) => {
+	const request = event.data;
+	switch (request.type) {
+		case "load":
+			try {
+				const backend = await load(request.key, request.config, request.requestId);
+				respond({ type: "loaded", requestId: request.requestId, backend });
+			} catch (error) {
+				respond({ type: "failed", requestId: request.requestId, message: errorMessage(error) });
+			}
+			break;
+		case "detect":
+			try {
+				const results = await estimate(request.key, request.frame, request.estimationConfig);
+				const { numTensors, numBytes } = tf.memory();
+				respond({ type: "detected", requestId: request.requestId, results, memory: { numTensors, numBytes } });
+			} catch (error) {
+				respond({ type: "failed", requestId: request.requestId, message: errorMessage(error) });
+			}
+			break;
+		case "reset":
+			try {
+				const config = configs.get(request.key);
+				if (config) (await loadModel(request.key, config)).reset();
+			} catch (error) {
+				respond({ type: "error", message: `${modelNames[request.key]}の検出器のリセットに失敗しました: ${errorMessage(error)}` });
+			}
+			break;
+		case "release":
+			try {
+				configs.delete(request.key);
+				await releaseModel(request.key);
+			} catch (error) {
+				respond({ type: "error", message: `${modelNames[request.key]}のモデルの解放に失敗しました: ${errorMessage(error)}` });
+			}
+			break;
+		case "memoryPolicy":
+			enforceMemoryPolicy(request.activeKeys, request.policy);
+			break;
+		case "attachCanvas":
+			canvas = request.canvas;
+			break;
+		case "render": {
+			if (!canvas) return;
+			resizeCanvas(canvas, request.width, request.height);
+			const ctx = canvas.getContext("2d");
+			if (!ctx) return;
+			renderOverlayScene(ctx, request.scene, request.theme);
+			break;
+		}
+	}
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { toFaces } from "../test/fakeDetector";
+import { createFaceKeypoints } from "../test/fixtures/face";
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from "./detectionWorkerProtocol";
+import { getWorkerRuntimeStatus, loadWorkerModel, onWorkerCrash, presentOverlay } from "./detectionWorkerClient";
+import type { ModelConfig, ModelLoadProgress } from "./modelManager";
+import { defaultOverlayTheme } from "./overlayTheme";
+
+// 受け取ったメッセージを記録し、respondで応答を返すだけのWorker
+class FakeWorker extends EventTarget {
+	static instance: FakeWorker | null = null;
+	messages: { request: DetectionWorkerRequest; transfer: Transferable[] }[] = [];
+
+	constructor() {
+		super();
+		FakeWorker.instance = this;
+	}
+
+	postMessage(request: DetectionWorkerRequest, transfer: Transferable[] = []) {
+		this.messages.push({ request, transfer });
+	}
+
+	terminate() {}
+
+	respond(response: DetectionWorkerResponse) {
+		this.dispatchEvent(new MessageEvent("message", { data: response }));
+	}
+
+	// 最後に受け取ったメッセージ
+	get last() {
+		return this.messages[this.messages.length - 1];
+	}
+}
+
+const config: ModelConfig<"face"> = {
+	runtime: "tfjs",
+	backend: "cpu",
+	options: { maxFaces: 1, emotionWindow: 1 },
+	worker: true,
+};
+
+const worker = () => {
+	if (!FakeWorker.instance) throw new Error("Workerが起動していません");
+	return FakeWorker.instance;
+};
+
+// モデルを読み込み、Workerで推論する検出器を返す
+const loadFaceModel = async () => {
+	const promise = loadWorkerModel("face", config);
+	const { request } = worker().last;
+	if (request.type !== "load") throw new Error("読み込みの要求ではありません");
+	worker().respond({ type: "loaded", requestId: request.requestId, backend: "cpu" });
+	return promise;
+};
+
+describe("loadWorkerModel", () => {
+	beforeEach(() => {
+		vi.stubGlobal("Worker", FakeWorker);
+		vi.stubGlobal("createImageBitmap", async () => ({ close: () => {} }));
+	});
+
+	it("Workerでの読み込みの進み具合を通知して検出器を返す", async () => {
+		const progresses: ModelLoadProgress[] = [];
+		const promise = loadWorkerModel("face", config, progress => progresses.push(progress));
+		const { request } = worker().last;
+		expect(request).toMatchObject({ type: "load", key: "face", config });
+		if (request.type !== "load") return;
+
+		const progress = { key: "face" as const, progress: 0.5, stage: "モデルをダウンロード中" };
+		worker().respond({ type: "progress", requestId: request.requestId, progress });
+		worker().respond({ type: "loaded", requestId: request.requestId, backend: "cpu" });
+		const detector = await promise;
+		expect(progresses).toEqual([progress]);
+		expect(typeof detector.estimateFaces).toBe("function");
+	});
+
+	it("フレームをImageBitmapとして転送し、Workerの検出結果を返す", async () => {
+		const detector = await loadFaceModel();
+		const faces = toFaces([createFaceKeypoints()]);
+
+		const promise = detector.estimateFaces({} as HTMLCanvasElement);
+		await vi.waitFor(() => expect(worker().last.request.type).toBe("detect"));
+		const { request, transfer } = worker().last;
+		if (request.type !== "detect") return;
+		expect(transfer).toEqual([request.frame]);
+
+		const memory = { numTensors: 12, numBytes: 2048 };
+		worker().respond({ type: "detected", requestId: request.requestId, results: faces, memory });
+		expect(await promise).toEqual(faces);
+		// パフォーマンスの表示用にWorkerのバックエンドとメモリ使用量を記録する
+		expect(getWorkerRuntimeStatus()).toEqual({ backend: "cpu", memory, error: null });
+	});
+
+	it("Workerで推論に失敗したらエラーにする", async () => {
+		const detector = await loadFaceModel();
+
+		const promise = detector.estimateFaces({} as HTMLCanvasElement);
+		await vi.waitFor(() => expect(worker().last.request.type).toBe("detect"));
+		const { request } = worker().last;
+		if (request.type !== "detect") return;
+
+		worker().respond({ type: "failed", requestId: request.requestId, message: "推論エラー" });
+		await expect(promise).rejects.toThrow("推論エラー");
+	});
+});
+
+describe("Workerの異常終了", () => {
+	beforeEach(() => {
+		vi.stubGlobal("Worker", FakeWorker);
+		vi.stubGlobal("createImageBitmap", async () => ({ close: () => {} }));
+	});
+
+	// OffscreenCanvasとしてWorkerに渡せるだけのキャンバス
+	const createCanvas = () => ({ transferControlToOffscreen: () => ({}) }) as unknown as HTMLCanvasElement;
+	const present = (canvas: HTMLCanvasElement) =>
+		presentOverlay(canvas, 640, 480, { type: "hand", hands: [] }, defaultOverlayTheme, true);
+
+	it("待っている推論を失敗させ、エラーを通知して次のWorkerに新しいキャンバスを渡す", async () => {
+		const detector = await loadFaceModel();
+		const canvas = createCanvas();
+		present(canvas);
+		const crashed = worker();
+		expect(crashed.messages.map(({ request }) => request.type)).toContain("attachCanvas");
+
+		const onCrash = vi.fn();
+		const unsubscribe = onWorkerCrash(onCrash);
+		const promise = detector.estimateFaces({} as HTMLCanvasElement);
+		await vi.waitFor(() => expect(crashed.last.request.type).toBe("detect"));
+		crashed.dispatchEvent(Object.assign(new Event("error"), { message: "メモリ不足" }));
+		unsubscribe();
+
+		await expect(promise).rejects.toThrow("メモリ不足");
+		expect(onCrash).toHaveBeenCalledWith("メモリ不足");
+		expect(getWorkerRuntimeStatus()).toEqual({ backend: null, memory: null, error: "メモリ不足" });
+
+		// 異常終了したWorkerに渡したキャンバスは使えないので、作り直したキャンバスだけを新しいWorkerに渡す
+		await loadFaceModel();
+		const restarted = worker();
+		expect(restarted).not.toBe(crashed);
+		present(canvas);
+		expect(restarted.messages.map(({ request }) => request.type)).toEqual(["load"]);
+		present(createCanvas());
+		expect(restarted.messages.map(({ request }) => request.type)).toEqual(["load", "attachCanvas", "render"]);
+	});
+});
+
+describe("WorkerのURL", () => {
+	// tscで lib/ に出力すると .ts は .js になるため、出力後のファイル名で指定していれば lib/ でも解決できる
+	it("lib/に出力されるWorkerのファイルを指す", () => {
+		const sources = import.meta.glob<string>("./*.ts", { query: "?raw", import: "default", eager: true });
+		const urls = [...sources["./detectionWorkerClient.ts"].matchAll(/new URL\("([^"]+)", import\.meta\.url\)/g)]
+			.map(match => match[1]);
+		expect(urls).toEqual(["./detectionWorker.js"]);
+		for (const url of urls) {
+			expect(Object.keys(sources)).toContain(url.replace(/\.js$/, ".ts"));
+		}
+	});
+});
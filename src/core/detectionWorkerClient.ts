@@ -0,0 +1,217 @@
+import type * as handPoseDetection from "@tensorflow-models/hand-pose-detection";
+import type * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+import type * as poseDetection from "@tensorflow-models/pose-detection";
+import type {
+	DetectionWorkerRequest,
+	DetectionWorkerResponse,
+	WorkerDetections,
+	WorkerEstimationConfig,
+	WorkerMemory,
+} from "./detectionWorkerProtocol";
+import type { Detectors, MemoryPolicy, ModelConfig, ModelKey, ModelLoadProgress } from "./modelManager";
+import { OverlayRenderer, OverlayScene, renderOverlayScene } from "./overlayScene";
+import type { OverlayTheme } from "./overlayTheme";
+import { resizeCanvas } from "./renderers";
+import type { TfBackend } from "./runtimeSettings";
+
+// Workerでの推論とOffscreenCanvasへの描画に必要な機能があるか
+export const isWorkerSupported = () =>
+	typeof Worker !== "undefined" &&
+	typeof OffscreenCanvas !== "undefined" &&
+	typeof createImageBitmap === "function" &&
+	typeof HTMLCanvasElement !== "undefined" &&
+	"transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
+type PendingRequest = {
+	resolve: (response: DetectionWorkerResponse) => void;
+	reject: (error: Error) => void;
+	onProgress?: (progress: ModelLoadProgress) => void;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+// OffscreenCanvasとしてWorkerに渡したキャンバス（1つのキャンバスは1度しか渡せない）
+const transferredCanvases = new WeakSet<HTMLCanvasElement>();
+// 今動いているWorkerに渡したキャンバス（Workerが異常終了したら空にする）
+let attachedCanvases = new WeakSet<HTMLCanvasElement>();
+// Workerが異常終了したときに呼ぶ関数
+const crashListeners = new Set<(message: string) => void>();
+
+// Workerのバックエンドとテンソルのメモリ使用量（読み込み・推論の応答のたびに更新する）と、最後に起きたエラー
+export type WorkerRuntimeStatus = {
+	backend: TfBackend | null;
+	memory: WorkerMemory | null;
+	error: string | null;
+};
+
+let runtimeStatus: WorkerRuntimeStatus = { backend: null, memory: null, error: null };
+
+// メインスレッドのtf.getBackend()・tf.memory()の代わりに、Workerの状態を返す
+export const getWorkerRuntimeStatus = () => runtimeStatus;
+
+const handleResponse = (response: DetectionWorkerResponse) => {
+	if (response.type === "error") {
+		runtimeStatus = { ...runtimeStatus, error: response.message };
+		return;
+	}
+	if (response.type === "loaded") {
+		runtimeStatus = { ...runtimeStatus, backend: response.backend };
+	} else if (response.type === "detected") {
+		runtimeStatus = { ...runtimeStatus, memory: response.memory };
+	}
+	const request = pending.get(response.requestId);
+	if (!request) return;
+	if (response.type === "progress") {
+		request.onProgress?.(response.progress);
+		return;
+	}
+	pending.delete(response.requestId);
+	if (response.type === "failed") {
+		request.reject(new Error(response.message));
+	} else {
+		request.resolve(response);
+	}
+};
+
+// 最初に使うときにWorkerを起動する
+const getWorker = () => {
+	if (worker) return worker;
+	// tscで lib/ に出力したときのファイル名で指定する（アプリの開発・ビルドでは vite.config.ts で .ts に読み替える）
+	const created = new Worker(new URL("./detectionWorker.js", import.meta.url), { type: "module" });
+	created.addEventListener("message", (event: MessageEvent<DetectionWorkerResponse>) => handleResponse(event.data));
+	// Worker自体が動かなくなった場合は待っている要求をすべて失敗させ、次に使うときに起動し直す
+	// 読み込んだモデルと渡したキャンバスは新しいWorkerには引き継がれないため、onWorkerCrashで通知する
+	created.addEventListener("error", event => {
+		const message = event.message || "検出Workerでエラーが発生しました";
+		for (const request of pending.values()) {
+			request.reject(new Error(message));
+		}
+		pending.clear();
+		runtimeStatus = { backend: null, memory: null, error: message };
+		attachedCanvases = new WeakSet();
+		created.terminate();
+		if (worker === created) worker = null;
+		for (const listener of crashListeners) listener(message);
+	});
+	worker = created;
+	return created;
+};
+
+const post = (request: DetectionWorkerRequest, transfer: Transferable[] = []) => {
+	getWorker().postMessage(request, transfer);
+};
+
+// requestIdを割り当てて送信し、応答を待つ
+const sendRequest = (
+	build: (requestId: number) => DetectionWorkerRequest,
+	transfer: Transferable[] = [],
+	onProgress?: (progress: ModelLoadProgress) => void,
+) =>
+	new Promise<DetectionWorkerResponse>((resolve, reject) => {
+		const requestId = nextRequestId++;
+		pending.set(requestId, { resolve, reject, onProgress });
+		post(build(requestId), transfer);
+	});
+
+// 検出器に渡せる入力（このアプリではテンソルは渡さない）
+type FrameSource =
+	| handPoseDetection.HandDetectorInput
+	| faceLandmarksDetection.FaceLandmarksDetectorInput
+	| poseDetection.PoseDetectorInput;
+
+// 1フレームをImageBitmapにしてWorkerに転送し、検出結果を受け取る
+const detect = async <K extends ModelKey>(
+	key: K,
+	input: FrameSource,
+	estimationConfig: WorkerEstimationConfig = {},
+): Promise<WorkerDetections[K]> => {
+	const frame = await createImageBitmap(input as ImageBitmapSource);
+	const response = await sendRequest(
+		requestId => ({ type: "detect", requestId, key, frame, estimationConfig }),
+		[frame],
+	);
+	return response.type === "detected" ? response.results as WorkerDetections[K] : [];
+};
+
+// Workerの検出器をメインスレッドの検出器と同じ形で使えるようにする
+const createWorkerDetectors: { [K in ModelKey]: () => Detectors[K] } = {
+	hand: () => ({
+		estimateHands: input => detect("hand", input),
+		reset: () => post({ type: "reset", key: "hand" }),
+		dispose: () => post({ type: "release", key: "hand" }),
+	}),
+	face: () => ({
+		estimateFaces: input => detect("face", input),
+		reset: () => post({ type: "reset", key: "face" }),
+		dispose: () => post({ type: "release", key: "face" }),
+	}),
+	pose: () => ({
+		estimatePoses: (input, config) => detect("pose", input, {
+			maxPoses: config && "maxPoses" in config ? config.maxPoses : undefined,
+		}),
+		reset: () => post({ type: "reset", key: "pose" }),
+		dispose: () => post({ type: "release", key: "pose" }),
+	}),
+};
+
+// Workerでモデルを読み込み、Workerで推論する検出器を返す
+// 読み込み済みの場合はWorkerの中のキャッシュが使われる
+export const loadWorkerModel = async <K extends ModelKey>(
+	key: K,
+	config: ModelConfig<K>,
+	onProgress?: (progress: ModelLoadProgress) => void,
+): Promise<Detectors[K]> => {
+	await sendRequest(requestId => ({ type: "load", requestId, key, config }), [], onProgress);
+	return createWorkerDetectors[key]();
+};
+
+// Workerで保持しているモデルをメモリポリシーに従って解放する（Workerを起動していなければ何もしない）
+export const enforceWorkerMemoryPolicy = (activeKeys: ModelKey[], policy: MemoryPolicy) => {
+	if (!worker) return;
+	post({ type: "memoryPolicy", activeKeys, policy });
+};
+
+// Workerが異常終了したときに呼ぶ関数を登録し、登録を解除する関数を返す
+// 異常終了する前にWorkerに渡したキャンバスにはもう描画できないため、新しいキャンバス要素に作り直す必要がある
+export const onWorkerCrash = (listener: (message: string) => void) => {
+	crashListeners.add(listener);
+	return () => {
+		crashListeners.delete(listener);
+	};
+};
+
+// オーバーレイを描画する
+// inWorkerがtrueならキャンバスをOffscreenCanvasとしてWorkerに渡し、描画もWorkerで行う
+// （一度Workerに渡したキャンバスはメインスレッドでは描画できない）
+// 関数はWorkerに送れないため、rendererに独自の描画関数を指定した場合は推論だけWorkerで行い、描画はメインスレッドで行う
+export const presentOverlay = (
+	canvas: HTMLCanvasElement,
+	width: number,
+	height: number,
+	scene: OverlayScene,
+	theme: OverlayTheme,
+	inWorker: boolean,
+	renderer: OverlayRenderer = renderOverlayScene,
+) => {
+	if (inWorker && renderer === renderOverlayScene) {
+		if (!attachedCanvases.has(canvas)) {
+			// 異常終了したWorkerに渡したキャンバスは、新しいキャンバス要素に作り直されるまで描画しない
+			if (transferredCanvases.has(canvas)) return;
+			const offscreen = canvas.transferControlToOffscreen();
+			transferredCanvases.add(canvas);
+			attachedCanvases.add(canvas);
+			post({ type: "attachCanvas", canvas: offscreen }, [offscreen]);
+		}
+		post({ type: "render", width, height, scene, theme });
+		return;
+	}
+	if (transferredCanvases.has(canvas)) {
+		console.warn("Workerに渡したキャンバスにはメインスレッドから描画できません");
+		return;
+	}
+	resizeCanvas(canvas, width, height);
+	const ctx = canvas.getContext("2d");
+	if (!ctx) return;
+	renderer(ctx, scene, theme);
+};
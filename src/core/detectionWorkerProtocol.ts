@@ -0,0 +1,55 @@
+import type * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+import type * as handPoseDetection from "@tensorflow-models/hand-pose-detection";
+import type * as poseDetection from "@tensorflow-models/pose-detection";
+import type { MemoryPolicy, ModelConfig, ModelKey, ModelLoadProgress } from "./modelManager";
+import type { OverlayScene } from "./overlayScene";
+import type { OverlayTheme } from "./overlayTheme";
+import type { TfBackend } from "./runtimeSettings";
+
+// 検出器ごとの1フレーム分の検出結果（構造化複製でそのまま送れる）
+export type WorkerDetections = {
+	hand: handPoseDetection.Hand[];
+	face: faceLandmarksDetection.Face[];
+	pose: poseDetection.Pose[];
+};
+
+// Workerのテンソルのメモリ使用量（tf.memory()の一部）
+export type WorkerMemory = {
+	numTensors: number;
+	numBytes: number;
+};
+
+// 推論ごとに検出器に渡す設定
+export type WorkerEstimationConfig = {
+	maxPoses?: number;
+};
+
+// メインスレッドからWorkerへのメッセージ
+// requestIdのあるメッセージには同じrequestIdで応答する
+export type DetectionWorkerRequest =
+	| { type: "load"; requestId: number; key: ModelKey; config: ModelConfig }
+	// frameは転送する（送った後はメインスレッドでは使えない）
+	| {
+		type: "detect";
+		requestId: number;
+		key: ModelKey;
+		frame: ImageBitmap;
+		estimationConfig: WorkerEstimationConfig;
+	}
+	| { type: "reset"; key: ModelKey }
+	| { type: "release"; key: ModelKey }
+	| { type: "memoryPolicy"; activeKeys: ModelKey[]; policy: MemoryPolicy }
+	// 描画先のキャンバス（transferControlToOffscreenで画面のキャンバスから切り離したもの）
+	| { type: "attachCanvas"; canvas: OffscreenCanvas }
+	| { type: "render"; width: number; height: number; scene: OverlayScene; theme: OverlayTheme };
+
+// Workerからメインスレッドへのメッセージ
+export type DetectionWorkerResponse =
+	| { type: "progress"; requestId: number; progress: ModelLoadProgress }
+	// backendはWorkerで実際に初期化できたバックエンド
+	| { type: "loaded"; requestId: number; backend: TfBackend }
+	// memoryは推論した後のWorkerのメモリ使用量
+	| { type: "detected"; requestId: number; results: WorkerDetections[ModelKey]; memory: WorkerMemory }
+	| { type: "failed"; requestId: number; message: string }
+	// 応答を待っていない要求（reset・releaseなど）の失敗
+	| { type: "error"; message: string };
@@ -0,0 +1,125 @@
+import type { ModelKey } from "./modelManager";
+
+export type HandModelType = "lite" | "full";
+
+// MoveNet（Lightningは高速、Thunderは高精度）とBlazePose
+export type PoseModelType =
+	| "movenet_multipose_lightning"
+	| "movenet_singlepose_lightning"
+	| "movenet_singlepose_thunder"
+	| "blazepose_lite"
+	| "blazepose_full"
+	| "blazepose_heavy";
+
+export type HandDetectorOptions = {
+	modelType: HandModelType;
+	maxHands: number;
+	// この信頼度を下回る手は無視する
+	minScore: number;
+};
+
+export type FaceDetectorOptions = {
+	maxFaces: number;
+	// 表情の判定をならす直近のフレーム数（1ならならさない）
+	emotionWindow: number;
+};
+
+export type PoseDetectorOptions = {
+	modelType: PoseModelType;
+	// 複数人検出モデルのみ有効
+	maxPoses: number;
+	// この信頼度を下回るキーポイントは描画・追跡・角度計算に使わない
+	minKeypointScore: number;
+	enableSmoothing: boolean;
+};
+
+export type DetectorOptions = {
+	hand: HandDetectorOptions;
+	face: FaceDetectorOptions;
+	pose: PoseDetectorOptions;
+};
+
+export const handModelTypeOptions: { value: HandModelType; label: string }[] = [
+	{ value: "lite", label: "Lite（高速）" },
+	{ value: "full", label: "Full（高精度）" },
+];
+
+export const poseModelTypeOptions: { value: PoseModelType; label: string }[] = [
+	{ value: "movenet_multipose_lightning", label: "MoveNet 複数人" },
+	{ value: "movenet_singlepose_lightning", label: "MoveNet Lightning（1人）" },
+	{ value: "movenet_singlepose_thunder", label: "MoveNet Thunder（1人）" },
+	{ value: "blazepose_lite", label: "BlazePose Lite（1人）" },
+	{ value: "blazepose_full", label: "BlazePose Full（1人）" },
+	{ value: "blazepose_heavy", label: "BlazePose Heavy（1人）" },
+];
+
+export const emotionWindowOptions: { value: number; label: string }[] = [
+	{ value: 1, label: "なし" },
+	{ value: 5, label: "5フレーム" },
+	{ value: 10, label: "10フレーム" },
+	{ value: 15, label: "15フレーム" },
+	{ value: 30, label: "30フレーム" },
+];
+
+export const defaultDetectorOptions: DetectorOptions = {
+	hand: {
+		modelType: "full",
+		maxHands: 2, // 最大2つの手を検出
+		minScore: 0, // 0なら検出器が返した手をすべて使う
+	},
+	face: {
+		maxFaces: 3,
+		emotionWindow: 10,
+	},
+	pose: {
+		modelType: "movenet_multipose_lightning",
+		maxPoses: 6,
+		minKeypointScore: 0.3,
+		enableSmoothing: true, // スムージングを有効化
+	},
+};
+
+const STORAGE_KEY = "react-handpose:detector-options";
+
+// 保存された値のうち、既定値と同じ型の項目だけを使う
+const mergeOptions = <T extends object>(defaults: T, saved: unknown): T => {
+	if (typeof saved !== "object" || saved === null) return defaults;
+	const merged = { ...defaults };
+	for (const key of Object.keys(defaults) as (keyof T)[]) {
+		const value = (saved as Partial<T>)[key];
+		if (typeof value === typeof defaults[key]) {
+			merged[key] = value as T[keyof T];
+		}
+	}
+	return merged;
+};
+
+// 保存された設定を読み込む。保存されていない項目や不正な値は既定値を使う
+export const loadDetectorOptions = (): DetectorOptions => {
+	try {
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<DetectorOptions> | null;
+		if (!saved) return defaultDetectorOptions;
+		const options = {} as DetectorOptions;
+		for (const key of Object.keys(defaultDetectorOptions) as ModelKey[]) {
+			(options as Record<ModelKey, object>)[key] = mergeOptions(defaultDetectorOptions[key], saved[key]);
+		}
+		if (!poseModelTypeOptions.some(option => option.value === options.pose.modelType)) {
+			options.pose.modelType = defaultDetectorOptions.pose.modelType;
+		}
+		if (!handModelTypeOptions.some(option => option.value === options.hand.modelType)) {
+			options.hand.modelType = defaultDetectorOptions.hand.modelType;
+		}
+		return options;
+	} catch (error) {
+		console.error("検出設定の読み込みエラー:", error);
+		return defaultDetectorOptions;
+	}
+};
+
+export const saveDetectorOptions = (options: DetectorOptions) => {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+	} catch (error) {
+		console.error("検出設定の保存エラー:", error);
+	}
+};
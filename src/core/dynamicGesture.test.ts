@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createHandKeypoints } from "../test/fixtures/hand";
+import { HandHistoryEntry, appendHandHistory, recognizeDynamicGesture } from "./dynamicGesture";
+
+type HandPlacement = { wristX?: number; wristY?: number; scale?: number };
+
+// 手の位置と大きさの列から、約30fpsのキーポイント履歴を作る
+const buildHistory = (placements: HandPlacement[]) =>
+	placements.reduce<HandHistoryEntry[]>(
+		(history, placement, i) => appendHandHistory(history, {
+			timestamp: i * 33,
+			keypoints: createHandKeypoints({}, placement),
+		}),
+		[],
+	);
+
+// startからendまで等間隔に並べる
+const steps = (start: number, end: number, count: number) =>
+	Array.from({ length: count }, (_, i) => start + (end - start) * i / (count - 1));
+
+describe("recognizeDynamicGesture", () => {
+	it.each([
+		["swipe_right", steps(200, 500, 8).map(wristX => ({ wristX }))],
+		["swipe_left", steps(500, 200, 8).map(wristX => ({ wristX }))],
+		["swipe_up", steps(450, 200, 8).map(wristY => ({ wristY }))],
+		["swipe_down", steps(200, 450, 8).map(wristY => ({ wristY }))],
+		["wave", [280, 360, 280, 360, 280, 360, 290].map(wristX => ({ wristX }))],
+		["push", steps(60, 100, 8).map(scale => ({ scale }))],
+		["pull", steps(100, 60, 8).map(scale => ({ scale }))],
+	])("%sを認識する", (type, placements) => {
+		expect(recognizeDynamicGesture(buildHistory(placements))?.type).toBe(type);
+	});
+
+	it("円を描く動きを認識する", () => {
+		const placements = Array.from({ length: 16 }, (_, i) => {
+			const angle = i / 15 * 2 * Math.PI;
+			return { wristX: 320 + Math.cos(angle) * 60, wristY: 400 + Math.sin(angle) * 60 };
+		});
+		expect(recognizeDynamicGesture(buildHistory(placements))?.type).toBe("circle");
+	});
+
+	it("手をほとんど動かさなければ認識しない", () => {
+		expect(recognizeDynamicGesture(buildHistory(steps(320, 325, 8).map(wristX => ({ wristX }))))).toBeNull();
+	});
+
+	it("フレームが足りなければ認識しない", () => {
+		expect(recognizeDynamicGesture(buildHistory(steps(200, 500, 4).map(wristX => ({ wristX }))))).toBeNull();
+	});
+});
+
+describe("appendHandHistory", () => {
+	const entry = (timestamp: number) => ({ timestamp, keypoints: createHandKeypoints() });
+
+	it("保持する時間より古いフレームを取り除く", () => {
+		const history = [0, 300, 600, 900].reduce<HandHistoryEntry[]>((h, t) => appendHandHistory(h, entry(t), 500), []);
+		expect(history.map(h => h.timestamp)).toEqual([600, 900]);
+	});
+
+	it("しばらく手を見失っていたら履歴をリセットする", () => {
+		const history = appendHandHistory([entry(0), entry(33)], entry(1000));
+		expect(history.map(h => h.timestamp)).toEqual([1000]);
+	});
+});
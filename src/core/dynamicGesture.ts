@@ -0,0 +1,165 @@
+import type { Keypoint } from "@tensorflow-models/hand-pose-detection";
+
+export type DynamicGestureType =
+	| "swipe_left"
+	| "swipe_right"
+	| "swipe_up"
+	| "swipe_down"
+	| "wave"
+	| "circle"
+	| "push"
+	| "pull";
+
+export type DynamicGestureEvent = {
+	type: DynamicGestureType;
+	label: string;
+	handedness: "Left" | "Right";
+	confidence: number; // 0〜1
+	timestamp: number; // Date.now()
+};
+
+// キーポイント履歴の1フレーム分
+export type HandHistoryEntry = {
+	timestamp: number;
+	keypoints: Keypoint[];
+};
+
+// 動きのジェスチャー一覧（表示名と絵文字）
+// 左右は映像（画面）上の向き。カメラ映像は反転していないので、本人から見ると逆になる
+export const dynamicGestureList: { type: DynamicGestureType; name: string; emoji: string }[] = [
+	{ type: "swipe_left", name: "左スワイプ", emoji: "⬅️" },
+	{ type: "swipe_right", name: "右スワイプ", emoji: "➡️" },
+	{ type: "swipe_up", name: "上スワイプ", emoji: "⬆️" },
+	{ type: "swipe_down", name: "下スワイプ", emoji: "⬇️" },
+	{ type: "wave", name: "手を振る", emoji: "👋" },
+	{ type: "circle", name: "円を描く", emoji: "🔄" },
+	{ type: "push", name: "押す", emoji: "🫸" },
+	{ type: "pull", name: "引く", emoji: "🫷" },
+];
+
+// 履歴として保持する時間（ミリ秒）
+export const HISTORY_DURATION = 1200;
+// 認識したジェスチャーを画面に表示し続ける時間（ミリ秒）
+export const DYNAMIC_GESTURE_DISPLAY_DURATION = 1500;
+// この間隔以上フレームが空いたら履歴をリセットする（ミリ秒）
+const MAX_FRAME_GAP = 400;
+// 判定に必要な最小フレーム数
+const MIN_FRAMES = 5;
+
+// 手のひらの中心（手首と4本の指の付け根の平均）
+const PALM_POINTS = [0, 5, 9, 13, 17];
+
+const palmCenter = (keypoints: Keypoint[]) => {
+	const points = PALM_POINTS.map(i => keypoints[i]);
+	return {
+		x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+		y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+	};
+};
+
+// 手の大きさ（手首〜中指の付け根）
+const palmSize = (keypoints: Keypoint[]) =>
+	Math.hypot(keypoints[0].x - keypoints[9].x, keypoints[0].y - keypoints[9].y) || 1;
+
+export const toDynamicGestureLabel = (type: DynamicGestureType) => {
+	const item = dynamicGestureList.find(g => g.type === type);
+	return item ? `${item.name} ${item.emoji}` : type;
+};
+
+// 履歴に1フレーム追加し、古いフレームを取り除いた新しい履歴を返す
+export const appendHandHistory = (
+	history: HandHistoryEntry[],
+	entry: HandHistoryEntry,
+	duration = HISTORY_DURATION,
+): HandHistoryEntry[] => {
+	const last = history[history.length - 1];
+	// 手を見失っていた場合は続きの動きとみなさない
+	const base = last && entry.timestamp - last.timestamp > MAX_FRAME_GAP ? [] : history;
+	return [...base, entry].filter(h => entry.timestamp - h.timestamp <= duration);
+};
+
+// 履歴から動きのジェスチャーを認識する。該当しなければnullを返す
+export const recognizeDynamicGesture = (
+	history: HandHistoryEntry[],
+): { type: DynamicGestureType; confidence: number } | null => {
+	if (history.length < MIN_FRAMES) return null;
+	if (history.some(h => h.keypoints.length < 21)) return null;
+
+	const centers = history.map(h => palmCenter(h.keypoints));
+	const sizes = history.map(h => palmSize(h.keypoints));
+	// 移動量は手の大きさで正規化して、カメラとの距離に依存しないようにする
+	const scale = sizes.reduce((sum, s) => sum + s, 0) / sizes.length;
+
+	const first = centers[0];
+	const last = centers[centers.length - 1];
+	const dx = (last.x - first.x) / scale;
+	const dy = (last.y - first.y) / scale;
+	const net = Math.hypot(dx, dy);
+
+	let pathLength = 0;
+	let reversals = 0;
+	let previousDirection = 0;
+	for (let i = 1; i < centers.length; i++) {
+		const stepX = (centers[i].x - centers[i - 1].x) / scale;
+		const stepY = (centers[i].y - centers[i - 1].y) / scale;
+		pathLength += Math.hypot(stepX, stepY);
+
+		// 横方向の折り返し回数（小さな揺れは無視する）
+		if (Math.abs(stepX) > 0.05) {
+			const direction = Math.sign(stepX);
+			if (previousDirection !== 0 && direction !== previousDirection) {
+				reversals++;
+			}
+			previousDirection = direction;
+		}
+	}
+
+	// 手を振る: 横方向に何度も往復していて、全体としてはあまり移動していない
+	const xs = centers.map(c => c.x / scale);
+	const amplitude = Math.max(...xs) - Math.min(...xs);
+	if (reversals >= 3 && amplitude > 0.6 && net < amplitude) {
+		return { type: "wave", confidence: Math.min(1, reversals / 5) };
+	}
+
+	// スワイプ: 一方向にまっすぐ大きく移動している
+	const straightness = pathLength > 0 ? net / pathLength : 0;
+	if (net > 1.5 && straightness > 0.75) {
+		const confidence = Math.min(1, straightness * net / 2.5);
+		if (Math.abs(dx) >= Math.abs(dy)) {
+			return { type: dx > 0 ? "swipe_right" : "swipe_left", confidence };
+		}
+		return { type: dy > 0 ? "swipe_down" : "swipe_up", confidence };
+	}
+
+	// 円: 重心の周りを一周近く回っている
+	const centroid = {
+		x: centers.reduce((sum, c) => sum + c.x, 0) / centers.length,
+		y: centers.reduce((sum, c) => sum + c.y, 0) / centers.length,
+	};
+	const radius = centers.reduce((sum, c) => sum + Math.hypot(c.x - centroid.x, c.y - centroid.y), 0) / centers.length / scale;
+	let totalAngle = 0;
+	for (let i = 1; i < centers.length; i++) {
+		const a0 = Math.atan2(centers[i - 1].y - centroid.y, centers[i - 1].x - centroid.x);
+		const a1 = Math.atan2(centers[i].y - centroid.y, centers[i].x - centroid.x);
+		let delta = a1 - a0;
+		if (delta > Math.PI) delta -= 2 * Math.PI;
+		if (delta < -Math.PI) delta += 2 * Math.PI;
+		totalAngle += delta;
+	}
+	if (radius > 0.4 && Math.abs(totalAngle) > 1.6 * Math.PI) {
+		return { type: "circle", confidence: Math.min(1, Math.abs(totalAngle) / (2 * Math.PI)) };
+	}
+
+	// 押す・引く: 手の位置はあまり変わらず、大きさ（カメラとの距離）が変わっている
+	const sizeRatio = sizes[sizes.length - 1] / sizes[0];
+	if (net < 1.0) {
+		if (sizeRatio > 1.35) {
+			return { type: "push", confidence: Math.min(1, (sizeRatio - 1) / 0.6) };
+		}
+		if (sizeRatio < 0.74) {
+			return { type: "pull", confidence: Math.min(1, (1 / sizeRatio - 1) / 0.6) };
+		}
+	}
+
+	return null;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { EmotionSmoothingState, initialEmotionSmoothingState, smoothEmotions } from "./emotionSmoothing";
+
+// 1つの顔の判定結果の列をならした結果の列
+const smoothSequence = (emotions: string[], windowSize: number) => {
+	let state: EmotionSmoothingState = initialEmotionSmoothingState;
+	return emotions.map(emotion => {
+		const result = smoothEmotions(state, [{ id: 1, emotion }], windowSize);
+		state = result.state;
+		return result.emotions[0];
+	});
+};
+
+describe("smoothEmotions", () => {
+	it("1フレームだけの揺れは無視する", () => {
+		const emotions = ["真面目", "真面目", "真面目", "笑顔", "真面目", "真面目"];
+		expect(smoothSequence(emotions, 5)).toEqual(Array(6).fill("真面目"));
+	});
+
+	it("同じ表情が続いたら切り替える", () => {
+		const result = smoothSequence(["真面目", "真面目", "笑顔", "笑顔", "笑顔", "笑顔", "笑顔"], 5);
+		expect(result[result.length - 1]).toBe("笑顔");
+		// 過半数を超えただけでは切り替えない
+		expect(result[3]).toBe("真面目");
+	});
+
+	it("windowSizeが1ならそのまま返す", () => {
+		const emotions = ["真面目", "笑顔", "驚き", "笑顔"];
+		expect(smoothSequence(emotions, 1)).toEqual(emotions);
+	});
+
+	it("顔ごとに別々にならし、見つからなくなった顔の履歴は破棄する", () => {
+		const first = smoothEmotions(initialEmotionSmoothingState, [{ id: 1, emotion: "笑顔" }, { id: 2, emotion: "驚き" }], 5);
+		expect(first.emotions).toEqual(["笑顔", "驚き"]);
+		const second = smoothEmotions(first.state, [{ id: 2, emotion: "真面目" }], 5);
+		expect(second.emotions).toEqual(["驚き"]);
+		expect(Object.keys(second.state)).toEqual(["2"]);
+	});
+});
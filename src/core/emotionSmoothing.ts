@@ -0,0 +1,47 @@
+// 顔ごとの直近の表情の履歴と、現在表示している表情
+export type EmotionTrack = {
+	history: string[];
+	current: string;
+};
+
+// キーは顔のトラッキングID
+export type EmotionSmoothingState = Record<number, EmotionTrack>;
+
+export const initialEmotionSmoothingState: EmotionSmoothingState = {};
+
+// 直近のフレームのうち、この割合を超えて同じ表情が続いたら表示を切り替える
+// （多数決に加えて切り替えの条件を厳しくし、境目で表示がちらつかないようにする）
+const SWITCH_RATIO = 0.6;
+
+// 1つの顔の表情に1フレーム分の判定を加える
+const smoothEmotion = (track: EmotionTrack | undefined, emotion: string, windowSize: number): EmotionTrack => {
+	const history = [...(track?.history ?? []), emotion].slice(-Math.max(1, windowSize));
+	const counts = new Map<string, number>();
+	for (const label of history) {
+		counts.set(label, (counts.get(label) ?? 0) + 1);
+	}
+	// 同数の場合は今の表示を優先する
+	let majority = track?.current ?? emotion;
+	for (const [label, count] of counts) {
+		if (count > (counts.get(majority) ?? 0)) majority = label;
+	}
+	const current = !track || !counts.has(track.current) || (counts.get(majority) ?? 0) > history.length * SWITCH_RATIO
+		? majority
+		: track.current;
+	return { history, current };
+};
+
+// 顔ごとの判定結果を直近のフレームの多数決でならす。windowSizeが1ならそのまま返す
+// 見つからなくなった顔の履歴は破棄する
+export const smoothEmotions = (
+	state: EmotionSmoothingState,
+	faces: { id: number; emotion: string }[],
+	windowSize: number,
+): { state: EmotionSmoothingState; emotions: string[] } => {
+	const next: EmotionSmoothingState = {};
+	const emotions = faces.map(({ id, emotion }) => {
+		next[id] = smoothEmotion(state[id], emotion, windowSize);
+		return next[id].current;
+	});
+	return { state: next, emotions };
+};
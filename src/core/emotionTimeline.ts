@@ -0,0 +1,92 @@
+import type { RecordedFrame } from "./sessionRecorder";
+
+// 一定時間ごとに、各表情が検出された回数（フレーム数×顔の数）を数える
+export type EmotionTimelineBucket = {
+	// 計測開始からの経過時間（ミリ秒）
+	start: number;
+	// キーは表情の名前（絵文字を除く）
+	counts: Record<string, number>;
+};
+
+export type EmotionTimeline = {
+	bucketDuration: number;
+	// 計測を始めた時刻（Date.now()）。まだ何も加えていない場合はnull
+	startedAt: number | null;
+	buckets: EmotionTimelineBucket[];
+};
+
+// グラフで表情ごとに使う色（ここにない表情は灰色）
+export const emotionColors: Record<string, string> = {
+	"大喜び": "#f1c40f",
+	"笑顔": "#2ecc71",
+	"左ウインク": "#1abc9c",
+	"右ウインク": "#16a085",
+	"驚き": "#e67e22",
+	"悲しみ": "#3498db",
+	"怒り": "#e74c3c",
+	"眠い": "#9b59b6",
+	"困惑": "#d35400",
+	"真面目": "#95a5a6",
+	"中立": "#7f8c8d",
+};
+
+export const emotionColor = (name: string) => emotionColors[name] ?? "#bdc3c7";
+
+// "笑顔 😊" のような表示用の名前から絵文字を除く
+export const emotionName = (emotion: string) => emotion.split(" ")[0];
+
+export const createEmotionTimeline = (bucketDuration = 1000): EmotionTimeline => ({
+	bucketDuration,
+	startedAt: null,
+	buckets: [],
+});
+
+// 1フレーム分の表情を加えたタイムラインを返す
+export const addEmotions = (timeline: EmotionTimeline, emotions: string[], timestamp: number): EmotionTimeline => {
+	if (emotions.length === 0) return timeline;
+	const startedAt = timeline.startedAt ?? timestamp;
+	const start = Math.floor((timestamp - startedAt) / timeline.bucketDuration) * timeline.bucketDuration;
+	const last = timeline.buckets[timeline.buckets.length - 1];
+	const bucket = last?.start === start ? { start, counts: { ...last.counts } } : { start, counts: {} as Record<string, number> };
+	for (const emotion of emotions) {
+		const name = emotionName(emotion);
+		bucket.counts[name] = (bucket.counts[name] ?? 0) + 1;
+	}
+	const buckets = last?.start === start ? [...timeline.buckets.slice(0, -1), bucket] : [...timeline.buckets, bucket];
+	return { ...timeline, startedAt, buckets };
+};
+
+// 記録したフレームの表情からタイムラインを作る
+export const buildEmotionTimeline = (frames: RecordedFrame[], bucketDuration = 1000): EmotionTimeline => {
+	const timeline = createEmotionTimeline(bucketDuration);
+	const first = frames.find(frame => frame.faces && frame.faces.length > 0);
+	if (!first) return timeline;
+	const buckets = new Map<number, EmotionTimelineBucket>();
+	for (const frame of frames) {
+		for (const face of frame.faces ?? []) {
+			const start = Math.floor(frame.time / bucketDuration) * bucketDuration;
+			const bucket = buckets.get(start) ?? { start, counts: {} };
+			const name = emotionName(face.emotion);
+			bucket.counts[name] = (bucket.counts[name] ?? 0) + 1;
+			buckets.set(start, bucket);
+		}
+	}
+	return {
+		bucketDuration,
+		startedAt: first.timestamp - first.time,
+		buckets: [...buckets.values()].sort((a, b) => a.start - b.start),
+	};
+};
+
+// タイムライン全体での表情ごとの回数（多い順）
+export const emotionDistribution = (timeline: EmotionTimeline) => {
+	const totals = new Map<string, number>();
+	for (const bucket of timeline.buckets) {
+		for (const [name, count] of Object.entries(bucket.counts)) {
+			totals.set(name, (totals.get(name) ?? 0) + count);
+		}
+	}
+	return [...totals.entries()]
+		.map(([name, count]) => ({ name, count }))
+		.sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createPoseKeypoints } from "../test/fixtures/pose";
+import { recordedSessions } from "../test/fixtures/recorded";
+import { computeJointAngles, initialRepCounterState, updateRepCounter } from "./exercise";
+
+// 膝の角度の列を順に与えてスクワットを数える
+const countSquats = (kneeAngles: number[]) =>
+	kneeAngles.reduce(
+		(state, kneeAngle) => updateRepCounter("squat", state, createPoseKeypoints({ kneeAngle })),
+		initialRepCounterState,
+	);
+
+// 肘の角度の列を順に与えてアームカールを数える
+const countCurls = (elbowAngles: number[]) =>
+	elbowAngles.reduce(
+		(state, elbowAngle) => updateRepCounter("bicep_curl", state, createPoseKeypoints({ elbowAngle })),
+		initialRepCounterState,
+	);
+
+describe("computeJointAngles", () => {
+	it("関節の角度を求める", () => {
+		const angles = computeJointAngles(createPoseKeypoints({ kneeAngle: 90, elbowAngle: 45 }));
+		expect(angles.leftKnee).toBeCloseTo(90);
+		expect(angles.rightKnee).toBeCloseTo(90);
+		expect(angles.leftElbow).toBeCloseTo(45);
+		expect(angles.rightElbow).toBeCloseTo(45);
+	});
+
+	it("信頼度の低いキーポイントを使う関節はnullにする", () => {
+		const angles = computeJointAngles(createPoseKeypoints({ score: 0.1 }));
+		expect(angles.leftKnee).toBeNull();
+	});
+});
+
+describe("updateRepCounter", () => {
+	it("しゃがんで立ち上がったら1回と数える", () => {
+		const state = countSquats([175, 150, 120, 100, 90, 100, 140, 170]);
+		expect(state.count).toBe(1);
+		expect(state.phase).toBe("start");
+		expect(state.feedback).toBeNull();
+	});
+
+	it("折り返しまで届かなければ数えない", () => {
+		expect(countSquats([175, 130, 120, 130, 175]).count).toBe(0);
+	});
+
+	it("浅いしゃがみ込みにはフォームの指摘を返す", () => {
+		const state = countSquats([175, 105, 175]);
+		expect(state.count).toBe(1);
+		expect(state.feedback).toBe("もう少し深くしゃがみましょう");
+	});
+
+	it("続けて数える", () => {
+		expect(countSquats([175, 90, 175, 90, 175, 90, 175]).count).toBe(3);
+	});
+
+	it("記録したセッションのスクワットを数える", () => {
+		const state = recordedSessions.pose.frames.reduce(
+			(state, frame) => updateRepCounter("squat", state, frame.poses?.[0]?.keypoints ?? []),
+			initialRepCounterState,
+		);
+		expect(state.count).toBe(3);
+		expect(state.feedback).toBeNull();
+	});
+
+	it("肘を曲げきったアームカールはフォームの指摘なしで数える", () => {
+		const state = countCurls([175, 120, 70, 58, 52, 70, 120, 170]);
+		expect(state.count).toBe(1);
+		expect(state.feedback).toBeNull();
+	});
+
+	it("折り返しをわずかに越えただけのアームカールには指摘を返す", () => {
+		const state = countCurls([175, 58, 175]);
+		expect(state.count).toBe(1);
+		expect(state.feedback).toBe("しっかり曲げきりましょう");
+	});
+});
@@ -0,0 +1,221 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+
+export type ExerciseType = "squat" | "pushup" | "jumping_jack" | "bicep_curl";
+
+// 運動一覧（表示名と絵文字）
+export const exerciseList: { type: ExerciseType; name: string; emoji: string }[] = [
+	{ type: "squat", name: "スクワット", emoji: "🏋️" },
+	{ type: "pushup", name: "腕立て伏せ", emoji: "💪" },
+	{ type: "jumping_jack", name: "ジャンピングジャック", emoji: "🤸" },
+	{ type: "bicep_curl", name: "アームカール", emoji: "🦾" },
+];
+
+export type JointName =
+	| "leftElbow"
+	| "rightElbow"
+	| "leftKnee"
+	| "rightKnee"
+	| "leftHip"
+	| "rightHip"
+	| "leftShoulder"
+	| "rightShoulder";
+
+// 関節角度（度）。キーポイントの信頼度が低い場合はnull
+export type JointAngles = Record<JointName, number | null>;
+
+// 関節ごとの [端点, 関節, 端点] のキーポイント名
+export const jointDefinitions: Record<JointName, [string, string, string]> = {
+	leftElbow: ["left_shoulder", "left_elbow", "left_wrist"],
+	rightElbow: ["right_shoulder", "right_elbow", "right_wrist"],
+	leftKnee: ["left_hip", "left_knee", "left_ankle"],
+	rightKnee: ["right_hip", "right_knee", "right_ankle"],
+	leftHip: ["left_shoulder", "left_hip", "left_knee"],
+	rightHip: ["right_shoulder", "right_hip", "right_knee"],
+	leftShoulder: ["left_hip", "left_shoulder", "left_elbow"],
+	rightShoulder: ["right_hip", "right_shoulder", "right_elbow"],
+};
+
+// 運動ごとに画面に角度を表示する関節
+export const exerciseJoints: Record<ExerciseType, JointName[]> = {
+	squat: ["leftKnee", "rightKnee", "leftHip", "rightHip"],
+	pushup: ["leftElbow", "rightElbow"],
+	jumping_jack: ["leftShoulder", "rightShoulder"],
+	bicep_curl: ["leftElbow", "rightElbow"],
+};
+
+// 回数カウントの状態
+export type RepCounterState = {
+	// "start": 開始姿勢（立つ・腕を伸ばす等）、"end": 動作の折り返し地点
+	phase: "start" | "end";
+	count: number;
+	// 今回の動作中に到達した最も深い角度（フォームチェック用）
+	deepestAngle: number | null;
+	feedback: string | null;
+};
+
+export const initialRepCounterState: RepCounterState = {
+	phase: "start",
+	count: 0,
+	deepestAngle: null,
+	feedback: null,
+};
+
+// この信頼度を下回るキーポイントは使わない（既定値）
+const MIN_SCORE = 0.3;
+
+const findKeypoint = (keypoints: Keypoint[], name: string, minScore: number) => {
+	const keypoint = keypoints.find(kp => kp.name === name);
+	if (!keypoint || (keypoint.score ?? 0) < minScore) return null;
+	return keypoint;
+};
+
+// 点bを頂点とする角abcを度で求める
+export const jointAngle = (a: Keypoint, b: Keypoint, c: Keypoint) => {
+	const angle = Math.abs(
+		Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x)
+	) * 180 / Math.PI;
+	return angle > 180 ? 360 - angle : angle;
+};
+
+export const computeJointAngles = (keypoints: Keypoint[], minScore = MIN_SCORE): JointAngles => {
+	const angles = {} as JointAngles;
+	for (const [joint, [from, center, to]] of Object.entries(jointDefinitions) as [JointName, [string, string, string]][]) {
+		const a = findKeypoint(keypoints, from, minScore);
+		const b = findKeypoint(keypoints, center, minScore);
+		const c = findKeypoint(keypoints, to, minScore);
+		angles[joint] = a && b && c ? jointAngle(a, b, c) : null;
+	}
+	return angles;
+};
+
+// 左右どちらか見えている方（両方なら平均）の角度
+const averageAngle = (left: number | null, right: number | null) => {
+	if (left !== null && right !== null) return (left + right) / 2;
+	return left ?? right;
+};
+
+// 肩〜腰〜足首がどれだけ一直線か（180度に近いほどまっすぐ）
+const bodyLineAngle = (keypoints: Keypoint[], minScore: number) => {
+	for (const side of ["left", "right"]) {
+		const shoulder = findKeypoint(keypoints, `${side}_shoulder`, minScore);
+		const hip = findKeypoint(keypoints, `${side}_hip`, minScore);
+		const ankle = findKeypoint(keypoints, `${side}_ankle`, minScore);
+		if (shoulder && hip && ankle) return jointAngle(shoulder, hip, ankle);
+	}
+	return null;
+};
+
+// 運動ごとの判定値と閾値
+// value が endThreshold を越えたら折り返し、startThreshold まで戻ったら1回とカウントする
+// lowerIsEnd: 値が小さくなる方向が折り返しかどうか
+type ExerciseRule = {
+	measure: (angles: JointAngles, keypoints: Keypoint[]) => number | null;
+	startThreshold: number;
+	endThreshold: number;
+	lowerIsEnd: boolean;
+	// 1回終わったときのフォームチェック。問題がなければnull
+	checkRep: (deepestAngle: number) => string | null;
+	// 動作中のフォームチェック。問題がなければnull
+	checkPosture: (angles: JointAngles, keypoints: Keypoint[], minScore: number) => string | null;
+};
+
+const exerciseRules: Record<ExerciseType, ExerciseRule> = {
+	squat: {
+		measure: angles => averageAngle(angles.leftKnee, angles.rightKnee),
+		startThreshold: 160,
+		endThreshold: 110,
+		lowerIsEnd: true,
+		checkRep: deepest => deepest > 95 ? "もう少し深くしゃがみましょう" : null,
+		checkPosture: angles => {
+			const hip = averageAngle(angles.leftHip, angles.rightHip);
+			return hip !== null && hip < 50 ? "上体を起こしましょう" : null;
+		},
+	},
+	pushup: {
+		measure: angles => averageAngle(angles.leftElbow, angles.rightElbow),
+		startThreshold: 155,
+		endThreshold: 100,
+		lowerIsEnd: true,
+		checkRep: deepest => deepest > 90 ? "もっと体を下げましょう" : null,
+		checkPosture: (_angles, keypoints, minScore) => {
+			const line = bodyLineAngle(keypoints, minScore);
+			return line !== null && line < 150 ? "腰をまっすぐ伸ばしましょう" : null;
+		},
+	},
+	jumping_jack: {
+		// 腕の上がり具合（肩の角度）で判定する
+		measure: angles => averageAngle(angles.leftShoulder, angles.rightShoulder),
+		startThreshold: 40,
+		endThreshold: 130,
+		lowerIsEnd: false,
+		checkRep: deepest => deepest < 150 ? "腕をしっかり上げましょう" : null,
+		checkPosture: (_angles, keypoints, minScore) => {
+			const leftAnkle = findKeypoint(keypoints, "left_ankle", minScore);
+			const rightAnkle = findKeypoint(keypoints, "right_ankle", minScore);
+			const leftHip = findKeypoint(keypoints, "left_hip", minScore);
+			const rightHip = findKeypoint(keypoints, "right_hip", minScore);
+			const leftShoulder = findKeypoint(keypoints, "left_shoulder", minScore);
+			const rightShoulder = findKeypoint(keypoints, "right_shoulder", minScore);
+			const leftWrist = findKeypoint(keypoints, "left_wrist", minScore);
+			const rightWrist = findKeypoint(keypoints, "right_wrist", minScore);
+			if (!leftAnkle || !rightAnkle || !leftHip || !rightHip) return null;
+			if (!leftShoulder || !rightShoulder || !leftWrist || !rightWrist) return null;
+			// 腕が上がっているのに足が開いていない（画面座標はyが下向き）
+			const armsUp = leftWrist.y < leftShoulder.y && rightWrist.y < rightShoulder.y;
+			const feetApart = Math.abs(leftAnkle.x - rightAnkle.x) > Math.abs(leftHip.x - rightHip.x) * 1.5;
+			return armsUp && !feetApart ? "足も開きましょう" : null;
+		},
+	},
+	bicep_curl: {
+		measure: angles => averageAngle(angles.leftElbow, angles.rightElbow),
+		startThreshold: 150,
+		endThreshold: 60,
+		lowerIsEnd: true,
+		// 折り返しの閾値をわずかに越えただけのときだけ指摘する（普通に曲げきった回では指摘しない）
+		checkRep: deepest => deepest > 55 ? "しっかり曲げきりましょう" : null,
+		checkPosture: angles => {
+			const shoulder = averageAngle(angles.leftShoulder, angles.rightShoulder);
+			return shoulder !== null && shoulder > 35 ? "肘を体の横に固定しましょう" : null;
+		},
+	},
+};
+
+// 1フレーム分の姿勢から回数カウントの状態を更新する
+export const updateRepCounter = (
+	exercise: ExerciseType,
+	state: RepCounterState,
+	keypoints: Keypoint[],
+	minScore = MIN_SCORE,
+): RepCounterState => {
+	const rule = exerciseRules[exercise];
+	const angles = computeJointAngles(keypoints, minScore);
+	const value = rule.measure(angles, keypoints);
+	if (value === null) return state;
+
+	// 折り返し方向に向かうほど大きくなるよう符号をそろえる
+	const sign = rule.lowerIsEnd ? -1 : 1;
+	const reachedEnd = sign * value >= sign * rule.endThreshold;
+	const returnedToStart = sign * value <= sign * rule.startThreshold;
+	const deepestAngle = state.deepestAngle === null || sign * value > sign * state.deepestAngle
+		? value
+		: state.deepestAngle;
+	const postureFeedback = rule.checkPosture(angles, keypoints, minScore);
+
+	if (state.phase === "start" && reachedEnd) {
+		return { ...state, phase: "end", deepestAngle, feedback: postureFeedback };
+	}
+	if (state.phase === "end") {
+		if (returnedToStart) {
+			// 1回分の動作が完了
+			return {
+				phase: "start",
+				count: state.count + 1,
+				deepestAngle: null,
+				feedback: rule.checkRep(deepestAngle) ?? postureFeedback,
+			};
+		}
+		return { ...state, deepestAngle, feedback: postureFeedback ?? state.feedback };
+	}
+	// 開始姿勢で待機中は、動作を始めるまで深さを記録しない
+	return { ...state, feedback: postureFeedback ?? state.feedback };
+};
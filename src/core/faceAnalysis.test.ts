@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createFaceKeypoints } from "../test/fixtures/face";
+import type { FaceCalibration } from "./calibration";
+import { analyzeFace, detectEmotion, detectIrisPosition } from "./faceAnalysis";
+import { neutralBlendshapes } from "./facialExpression";
+import { compensateHeadPose, measureIris } from "./irisPosition";
+import { estimateHeadPose } from "./headPose";
+
+// 正面を見た顔の虹彩の位置を基準にしたキャリブレーション
+const createCalibration = (): FaceCalibration => {
+	const keypoints = createFaceKeypoints();
+	const measured = measureIris(keypoints);
+	if (!measured) throw new Error("虹彩のランドマークがありません");
+	const iris = compensateHeadPose(measured, estimateHeadPose(keypoints));
+	const range = { x: 0.3, y: 0.3 };
+	return {
+		gaze: {
+			leftEye: { center: iris.leftEye, range },
+			rightEye: { center: iris.rightEye, range },
+		},
+		neutral: neutralBlendshapes,
+		calibratedAt: "2024-01-01T00:00:00.000Z",
+	};
+};
+
+describe("detectEmotion", () => {
+	it("ランドマークから表情を判定する", () => {
+		expect(detectEmotion(createFaceKeypoints({ mouthCornerLift: 0.1 }))).toBe("笑顔 😊");
+	});
+
+	it("無表情の基準を差し引いてから判定する", () => {
+		// 普段から口角が上がっている人は、そのままだと笑顔と判定される
+		const keypoints = createFaceKeypoints({ mouthCornerLift: 0.06 });
+		expect(detectEmotion(keypoints)).toBe("笑顔 😊");
+		const calibration = { ...createCalibration(), neutral: analyzeFace(keypoints).blendshapes };
+		expect(detectEmotion(keypoints, calibration)).toBe("真面目 😐");
+	});
+});
+
+describe("detectIrisPosition", () => {
+	it("虹彩のランドマークがない場合は検出中とする", () => {
+		expect(detectIrisPosition(createFaceKeypoints().slice(0, 468)).overall).toBe("虹彩を検出中...");
+	});
+
+	it.each([
+		[{}, "視線: 正面"],
+		[{ irisX: 0.3 }, "視線: 左"],
+		[{ irisX: -0.3 }, "視線: 右"],
+		[{ irisY: -0.5 }, "視線: 上"],
+		[{ irisY: 0.5 }, "視線: 下"],
+	])("虹彩が %o ずれると %s と判定する", (shape, overall) => {
+		expect(detectIrisPosition(createFaceKeypoints(shape), createCalibration()).overall).toBe(overall);
+	});
+
+	it("頭の向きの分を補正する", () => {
+		// 顔ごと右を向いても、目が顔に対して正面を向いたままなら視線は顔と一緒に動く
+		const turned = detectIrisPosition(createFaceKeypoints({}, { yaw: 30 }), createCalibration());
+		expect(turned.overall).toBe("視線: 左");
+	});
+});
+
+describe("analyzeFace", () => {
+	it("頭の向きを推定する", () => {
+		const turned = analyzeFace(createFaceKeypoints({}, { yaw: 20 })).headPose;
+		expect(turned.yaw).toBeCloseTo(20, 6);
+		expect(turned.pitch).toBeCloseTo(0, 6);
+		const tilted = analyzeFace(createFaceKeypoints({}, { roll: 10 })).headPose;
+		expect(tilted.roll).toBeCloseTo(10, 6);
+		expect(tilted.yaw).toBeCloseTo(0, 6);
+	});
+
+	it("補正前の虹彩の位置と表情の要素をキャリブレーション用に返す", () => {
+		const { sample } = analyzeFace(createFaceKeypoints());
+		expect(sample?.blendshapes).toEqual(neutralBlendshapes);
+		expect(sample?.iris.rightEye.y).toBeCloseTo(0.5);
+	});
+});
@@ -0,0 +1,41 @@
+import type { FaceCalibration, FaceSample } from "./calibration";
+import { FaceBlendshapes, applyNeutralBaseline, classifyEmotion, computeBlendshapes } from "./facialExpression";
+import { HeadPose, estimateHeadPose } from "./headPose";
+import { classifyIrisPosition, compensateHeadPose, measureIris } from "./irisPosition";
+import type { IrisPosition, Keypoint } from "./types";
+
+// 1つの顔のランドマークを解析した結果
+export type FaceAnalysis = {
+	// キャリブレーションで補正する前の値（虹彩が見つからない場合はnull）
+	sample: FaceSample | null;
+	// 無表情の基準で補正した表情の各要素の強さ
+	blendshapes: FaceBlendshapes;
+	headPose: HeadPose;
+	emotion: string;
+	iris: IrisPosition;
+};
+
+// キャリブレーション結果で補正して、表情と虹彩位置を判定する
+// 虹彩位置は頭の向きの分を補正してから判定する。calibrationがnullなら既定の基準を使う
+export const analyzeFace = (keypoints: Keypoint[], calibration: FaceCalibration | null = null): FaceAnalysis => {
+	const blendshapes = computeBlendshapes(keypoints);
+	const headPose = estimateHeadPose(keypoints);
+	const measured = measureIris(keypoints);
+	const iris = measured && compensateHeadPose(measured, headPose);
+	const adjusted = calibration ? applyNeutralBaseline(blendshapes, calibration.neutral) : blendshapes;
+	return {
+		sample: iris ? { iris, blendshapes } : null,
+		blendshapes: adjusted,
+		headPose,
+		emotion: classifyEmotion(adjusted),
+		iris: classifyIrisPosition(iris, calibration?.gaze),
+	};
+};
+
+// FaceMeshのランドマークから表情を判定する（例: "笑顔 😊"）
+export const detectEmotion = (keypoints: Keypoint[], calibration: FaceCalibration | null = null) =>
+	analyzeFace(keypoints, calibration).emotion;
+
+// FaceMeshのランドマークから虹彩位置（視線方向）を判定する
+export const detectIrisPosition = (keypoints: Keypoint[], calibration: FaceCalibration | null = null) =>
+	analyzeFace(keypoints, calibration).iris;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { FaceTrackerState, defaultFaceTrackerOptions, initialFaceTrackerState, updateFaceTracks } from "./faceTracker";
+
+// 中心のx座標と大きさから顔のボックスを作る
+const faceBox = (centerX: number, size = 100) => ({
+	xMin: centerX - size / 2,
+	yMin: 100,
+	xMax: centerX + size / 2,
+	yMax: 100 + size,
+});
+
+// 顔の中心のx座標の列をフレームごとに与え、フレームごとのIDを返す
+const trackFrames = (frames: number[][], interval = 33, options = defaultFaceTrackerOptions) => {
+	let state: FaceTrackerState = initialFaceTrackerState;
+	return frames.map((centers, i) => {
+		const result = updateFaceTracks(state, centers.map(centerX => faceBox(centerX)), i * interval, options);
+		state = result.state;
+		return result.ids;
+	});
+};
+
+describe("updateFaceTracks", () => {
+	it("新しい顔には1から順にIDを割り当てる", () => {
+		expect(trackFrames([[160, 480]])).toEqual([[1, 2]]);
+	});
+
+	it("検出順が入れ替わっても同じ顔には同じIDを割り当てる", () => {
+		expect(trackFrames([[160, 480], [470, 170]])).toEqual([[1, 2], [2, 1]]);
+	});
+
+	it("速く動いてボックスの重なりが小さくても、中心が近ければ同じ顔とみなす", () => {
+		// IoUは約0.18でminSimilarityに届かない
+		expect(trackFrames([[160], [230]])).toEqual([[1], [1]]);
+	});
+
+	it("maxLostDurationより長く見失ったら新しい顔として扱う", () => {
+		expect(trackFrames([[160], [], [160]], 400)).toEqual([[1], [], [1]]);
+		const options = { ...defaultFaceTrackerOptions, maxLostDuration: 500 };
+		expect(trackFrames([[160], [], [160]], 400, options)).toEqual([[1], [], [2]]);
+	});
+});
@@ -0,0 +1,82 @@
+import { Box, iou } from "./poseTracker";
+
+export type FaceTrackerOptions = {
+	// 見失ってからトラックを破棄するまでの時間（ミリ秒）
+	maxLostDuration: number;
+	// 同一人物とみなす最小の類似度（0〜1）
+	minSimilarity: number;
+};
+
+export const defaultFaceTrackerOptions: FaceTrackerOptions = {
+	maxLostDuration: 1000,
+	minSimilarity: 0.2,
+};
+
+export type FaceTrack = {
+	id: number;
+	box: Box;
+	lastSeen: number;
+};
+
+export type FaceTrackerState = {
+	tracks: FaceTrack[];
+	nextId: number;
+};
+
+export const initialFaceTrackerState: FaceTrackerState = {
+	tracks: [],
+	nextId: 1,
+};
+
+// 中心間の距離を顔の大きさで正規化した類似度（動きが速くボックスが重ならない場合用）
+const centerSimilarity = (a: Box, b: Box) => {
+	const size = Math.max(a.xMax - a.xMin, a.yMax - a.yMin, 1);
+	const distance = Math.hypot(
+		(a.xMin + a.xMax) / 2 - (b.xMin + b.xMax) / 2,
+		(a.yMin + a.yMax) / 2 - (b.yMin + b.yMax) / 2,
+	);
+	return Math.max(0, 1 - distance / size);
+};
+
+// 今回のフレームの顔を既存のトラックに対応付け、顔ごとのIDと更新後の状態を返す
+export const updateFaceTracks = (
+	state: FaceTrackerState,
+	boxes: Box[],
+	timestamp: number,
+	options: FaceTrackerOptions = defaultFaceTrackerOptions,
+): { state: FaceTrackerState; ids: number[] } => {
+	// 長く見失っているトラックは破棄
+	const tracks = state.tracks.filter(track => timestamp - track.lastSeen <= options.maxLostDuration);
+
+	// 全ての組み合わせの類似度を求めて、高い順に貪欲に割り当てる
+	const candidates: { trackIndex: number; faceIndex: number; similarity: number }[] = [];
+	tracks.forEach((track, trackIndex) => {
+		boxes.forEach((box, faceIndex) => {
+			const similarity = Math.max(iou(track.box, box), centerSimilarity(track.box, box));
+			if (similarity >= options.minSimilarity) {
+				candidates.push({ trackIndex, faceIndex, similarity });
+			}
+		});
+	});
+	candidates.sort((a, b) => b.similarity - a.similarity);
+
+	const ids: (number | null)[] = boxes.map(() => null);
+	const usedTracks = new Set<number>();
+	const nextTracks = [...tracks];
+	for (const { trackIndex, faceIndex } of candidates) {
+		if (usedTracks.has(trackIndex) || ids[faceIndex] !== null) continue;
+		usedTracks.add(trackIndex);
+		ids[faceIndex] = tracks[trackIndex].id;
+		nextTracks[trackIndex] = { ...tracks[trackIndex], box: boxes[faceIndex], lastSeen: timestamp };
+	}
+
+	// 対応するトラックがなかった顔は新しい人物として登録
+	let nextId = state.nextId;
+	const assigned = ids.map((id, faceIndex) => {
+		if (id !== null) return id;
+		nextTracks.push({ id: nextId, box: boxes[faceIndex], lastSeen: timestamp });
+		return nextId++;
+	});
+
+	return { state: { tracks: nextTracks, nextId }, ids: assigned };
+};
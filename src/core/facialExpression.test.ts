@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createFaceKeypoints, faceExpressions } from "../test/fixtures/face";
+import { recordedSessions } from "../test/fixtures/recorded";
+import { applyNeutralBaseline, classifyEmotion, computeBlendshapes, neutralBlendshapes } from "./facialExpression";
+
+describe("computeBlendshapes", () => {
+	it("真顔ではすべての要素が0になる", () => {
+		expect(computeBlendshapes(createFaceKeypoints())).toEqual(neutralBlendshapes);
+	});
+
+	it("顔の大きさ・位置・傾きに左右されない", () => {
+		const shape = { mouthCornerLift: 0.05, mouthOpen: 0.2, browHeight: 0.35 };
+		const base = computeBlendshapes(createFaceKeypoints(shape));
+		const transformed = computeBlendshapes(createFaceKeypoints(shape, { scale: 260, centerX: 100, centerY: 380, roll: 25 }));
+		for (const key of Object.keys(base) as (keyof typeof base)[]) {
+			expect(transformed[key]).toBeCloseTo(base[key], 6);
+		}
+	});
+
+	it("468点そろっていない場合は無表情として扱う", () => {
+		expect(computeBlendshapes(createFaceKeypoints({ mouthCornerLift: 0.1 }).slice(0, 100))).toEqual(neutralBlendshapes);
+	});
+
+	it("片目を閉じるとその目の要素だけが大きくなる", () => {
+		const shapes = computeBlendshapes(createFaceKeypoints({ leftEyeOpen: 0.01 }));
+		expect(shapes.eyeBlinkLeft).toBe(1);
+		expect(shapes.eyeBlinkRight).toBe(0);
+	});
+});
+
+describe("classifyEmotion", () => {
+	it.each(faceExpressions)("$emotion を判定する", ({ shape, emotion }) => {
+		expect(classifyEmotion(computeBlendshapes(createFaceKeypoints(shape)))).toBe(emotion);
+	});
+
+	it.each(recordedSessions.face.frames.flatMap(frame => frame.faces ?? []))(
+		"記録したセッションの $emotion を判定する",
+		({ keypoints, emotion }) => {
+			expect(classifyEmotion(computeBlendshapes(keypoints))).toBe(emotion);
+		},
+	);
+});
+
+describe("applyNeutralBaseline", () => {
+	it("無表情のときの値を0として、残りの幅を0〜1に広げる", () => {
+		const neutral = { ...neutralBlendshapes, smile: 0.4 };
+		expect(applyNeutralBaseline({ ...neutralBlendshapes, smile: 0.7 }, neutral).smile).toBeCloseTo(0.5);
+		expect(applyNeutralBaseline({ ...neutralBlendshapes, smile: 0.2 }, neutral).smile).toBe(0);
+	});
+});
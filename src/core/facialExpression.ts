@@ -0,0 +1,169 @@
+import type { Keypoint } from "./types";
+import { Vector3, cross, dot, length, midpoint, normalize, scale, subtract, toVector3 } from "./vector3";
+
+// 表情の各要素の強さ（0〜1）。MediaPipeのブレンドシェイプに近い意味を持つ
+export type FaceBlendshapes = {
+	smile: number;
+	mouthFrown: number;
+	jawOpen: number;
+	browRaise: number;
+	browFurrow: number;
+	eyeBlinkLeft: number;
+	eyeBlinkRight: number;
+};
+
+export const blendshapeNames: Record<keyof FaceBlendshapes, string> = {
+	smile: "笑み",
+	mouthFrown: "口角下げ",
+	jawOpen: "口の開き",
+	browRaise: "眉上げ",
+	browFurrow: "眉寄せ",
+	eyeBlinkLeft: "左目閉じ",
+	eyeBlinkRight: "右目閉じ",
+};
+
+export const neutralBlendshapes: FaceBlendshapes = {
+	smile: 0,
+	mouthFrown: 0,
+	jawOpen: 0,
+	browRaise: 0,
+	browFurrow: 0,
+	eyeBlinkLeft: 0,
+	eyeBlinkRight: 0,
+};
+
+// MediaPipe FaceMeshのランドマークのインデックス
+const LEFT_EYE_OUTER = 33;
+const LEFT_EYE_INNER = 133;
+const LEFT_EYE_TOP = 159;
+const LEFT_EYE_BOTTOM = 145;
+const RIGHT_EYE_OUTER = 263;
+const RIGHT_EYE_INNER = 362;
+const RIGHT_EYE_TOP = 386;
+const RIGHT_EYE_BOTTOM = 374;
+const LEFT_BROW_MID = 105;
+const RIGHT_BROW_MID = 334;
+const LEFT_BROW_INNER = 55;
+const RIGHT_BROW_INNER = 285;
+const LEFT_MOUTH_CORNER = 61;
+const RIGHT_MOUTH_CORNER = 291;
+const UPPER_LIP = 13;
+const LOWER_LIP = 14;
+const CHIN = 152;
+
+// valueがlowのとき0、highのとき1になるように線形に変換して0〜1に丸める
+const ramp = (value: number, low: number, high: number) =>
+	Math.min(1, Math.max(0, (value - low) / (high - low)));
+
+// 両目の中心を原点、目を結ぶ方向をx軸、あご方向をy軸とする顔の座標系に変換する関数を作る
+// 長さは両目の中心間の距離を1とするため、カメラからの距離や解像度、顔の傾きに左右されない
+const createFaceFrame = (keypoints: Keypoint[]) => {
+	const leftEye = midpoint(toVector3(keypoints[LEFT_EYE_OUTER]), toVector3(keypoints[LEFT_EYE_INNER]));
+	const rightEye = midpoint(toVector3(keypoints[RIGHT_EYE_OUTER]), toVector3(keypoints[RIGHT_EYE_INNER]));
+	const origin = midpoint(leftEye, rightEye);
+	const interOcular = length(subtract(rightEye, leftEye)) || 1;
+
+	const xAxis = normalize(subtract(rightEye, leftEye));
+	const down = subtract(toVector3(keypoints[CHIN]), origin);
+	const yAxis = normalize(subtract(down, scale(xAxis, dot(down, xAxis))));
+	const zAxis = cross(xAxis, yAxis);
+
+	return (index: number): Vector3 => {
+		const p = subtract(toVector3(keypoints[index]), origin);
+		return [dot(p, xAxis) / interOcular, dot(p, yAxis) / interOcular, dot(p, zAxis) / interOcular];
+	};
+};
+
+const distance = (a: Vector3, b: Vector3) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+// 顔のランドマークから表情の各要素の強さを求める
+// 各閾値は両目の中心間の距離を1としたときの値
+export const computeBlendshapes = (keypoints: Keypoint[]): FaceBlendshapes => {
+	// FaceMeshの468点がそろっていない場合は無表情として扱う
+	if (keypoints.length < 468) return { ...neutralBlendshapes };
+	const at = createFaceFrame(keypoints);
+
+	// 目の開き（縦幅 / 横幅）
+	const eyeOpenness = (top: number, bottom: number, outer: number, inner: number) =>
+		distance(at(top), at(bottom)) / (distance(at(outer), at(inner)) || 1);
+	const leftEyeOpenness = eyeOpenness(LEFT_EYE_TOP, LEFT_EYE_BOTTOM, LEFT_EYE_OUTER, LEFT_EYE_INNER);
+	const rightEyeOpenness = eyeOpenness(RIGHT_EYE_TOP, RIGHT_EYE_BOTTOM, RIGHT_EYE_OUTER, RIGHT_EYE_INNER);
+
+	// 口
+	const upperLip = at(UPPER_LIP);
+	const lowerLip = at(LOWER_LIP);
+	const leftCorner = at(LEFT_MOUTH_CORNER);
+	const rightCorner = at(RIGHT_MOUTH_CORNER);
+	const mouthOpenness = distance(upperLip, lowerLip);
+	const mouthWidth = distance(leftCorner, rightCorner);
+	// 口角が唇の中央より上にあるほど正（y軸はあご方向）
+	const cornerLift = (upperLip[1] + lowerLip[1]) / 2 - (leftCorner[1] + rightCorner[1]) / 2;
+
+	// 眉（上まぶたとの距離と、眉頭どうしの距離）
+	const browHeight = (
+		(at(LEFT_EYE_TOP)[1] - at(LEFT_BROW_MID)[1]) +
+		(at(RIGHT_EYE_TOP)[1] - at(RIGHT_BROW_MID)[1])
+	) / 2;
+	const browInnerDistance = distance(at(LEFT_BROW_INNER), at(RIGHT_BROW_INNER));
+
+	return {
+		smile: Math.max(ramp(cornerLift, 0, 0.08), ramp(mouthWidth, 0.85, 1.1)) * ramp(cornerLift, -0.04, 0),
+		mouthFrown: ramp(-cornerLift, 0.02, 0.1),
+		jawOpen: ramp(mouthOpenness, 0.05, 0.5),
+		browRaise: ramp(browHeight, 0.3, 0.45),
+		browFurrow: ramp(-browInnerDistance, -0.42, -0.3),
+		eyeBlinkLeft: ramp(-leftEyeOpenness, -0.28, -0.08),
+		eyeBlinkRight: ramp(-rightEyeOpenness, -0.28, -0.08),
+	};
+};
+
+// 無表情のときの各要素の強さを差し引き、その人の無表情を0とする値に変換する
+export const applyNeutralBaseline = (shapes: FaceBlendshapes, neutral: FaceBlendshapes): FaceBlendshapes => {
+	const adjusted = { ...shapes };
+	for (const key of Object.keys(shapes) as (keyof FaceBlendshapes)[]) {
+		const base = Math.min(neutral[key], 0.9);
+		adjusted[key] = Math.max(0, (shapes[key] - base) / (1 - base));
+	}
+	return adjusted;
+};
+
+// 表情の各要素の強さから表情の名前を決める
+export const classifyEmotion = (shapes: FaceBlendshapes) => {
+	const blink = (shapes.eyeBlinkLeft + shapes.eyeBlinkRight) / 2;
+
+	// 大喜び（口角が上がり、口が大きく開き、眉も上がっている）
+	if (shapes.smile > 0.6 && shapes.jawOpen > 0.4 && shapes.browRaise > 0.4) {
+		return "大喜び 🤩";
+	}
+	if (shapes.smile > 0.5) {
+		return "笑顔 😊";
+	}
+	// ウインク（片目だけ閉じている）
+	if (shapes.eyeBlinkLeft > 0.6 && shapes.eyeBlinkRight < 0.3) {
+		return "左ウインク 😉";
+	}
+	if (shapes.eyeBlinkRight > 0.6 && shapes.eyeBlinkLeft < 0.3) {
+		return "右ウインク 😉";
+	}
+	// 驚き（目を見開き、口が開き、眉が上がっている）
+	if (shapes.jawOpen > 0.3 && shapes.browRaise > 0.5 && blink < 0.2) {
+		return "驚き 😲";
+	}
+	// 悲しみ（口角が下がり、目が細い）
+	if (shapes.mouthFrown > 0.5 && blink > 0.3) {
+		return "悲しみ 😢";
+	}
+	// 怒り（眉間が寄り、口が開いている）
+	if (shapes.browFurrow > 0.5 && shapes.jawOpen > 0.1) {
+		return "怒り 😠";
+	}
+	// 困惑（眉が上がり、口が少し開いている）
+	if (shapes.browRaise > 0.3 && shapes.jawOpen > 0.05 && shapes.jawOpen < 0.3) {
+		return "困惑 🤔";
+	}
+	// 真面目（口が閉じていて、口角が動いていない）
+	if (shapes.jawOpen < 0.1 && shapes.smile < 0.2 && shapes.mouthFrown < 0.2) {
+		return "真面目 😐";
+	}
+	return "中立 😶";
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import { FrameSchedulerStats, FrameTiming, startFrameScheduler } from "./frameScheduler";
+
+// nextFrame() を呼んだときだけ新しいフレームを通知する動画の代わり（documentを使わない）
+// pausedをtrueにすると、フレームを表示したまま一時停止している動画になる
+const createFrameSource = ({ paused = false } = {}) => {
+	let callback: VideoFrameRequestCallback | null = null;
+	const video = Object.assign(new EventTarget(), {
+		paused,
+		readyState: 4,
+		currentTime: 0,
+		requestVideoFrameCallback: (next: VideoFrameRequestCallback) => {
+			callback = next;
+			return 1;
+		},
+		cancelVideoFrameCallback: () => {
+			callback = null;
+		},
+	}) as unknown as HTMLVideoElement;
+	return {
+		video,
+		nextFrame: (now: number) => callback?.(now, {} as VideoFrameCallbackMetadata),
+	};
+};
+
+// 検出処理が終わるまで待つ
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("startFrameScheduler", () => {
+	it("検出しなかったフレームはフレームレートと処理時間に数えない", async () => {
+		let clock = 1000;
+		const now = vi.spyOn(performance, "now").mockImplementation(() => clock);
+		const { video, nextFrame } = createFrameSource();
+		const stats: FrameSchedulerStats[] = [];
+		// 最初の2フレームはモデルの読み込み中として何も返さない。3フレーム目は10ミリ秒かけて検出する
+		const results: (FrameTiming | void)[] = [undefined, undefined, { inference: 8, render: 2 }];
+		const onFrame = vi.fn(async () => {
+			const timing = results.shift();
+			if (timing) clock += 10;
+			return timing;
+		});
+		const scheduler = startFrameScheduler(video, onFrame, { maxFps: null, onStats: value => stats.push(value) });
+
+		for (const time of [1000, 1200, 1600]) {
+			clock = time;
+			nextFrame(time);
+			await flush();
+		}
+		scheduler.stop();
+		now.mockRestore();
+
+		expect(onFrame).toHaveBeenCalledTimes(3);
+		expect(stats.map(({ fps, latency }) => ({ fps, latency }))).toEqual([
+			{ fps: 0, latency: 0 },
+			{ fps: 1, latency: 10 },
+		]);
+		expect(stats[1]).toMatchObject({ inferenceTime: 8, renderTime: 2, droppedFrames: 0 });
+	});
+
+	it("再生中の動画は新しいフレームが来るまで検出しない", async () => {
+		const { video } = createFrameSource();
+		const onFrame = vi.fn(async () => ({ inference: 1, render: 1 }));
+		const scheduler = startFrameScheduler(video, onFrame, { maxFps: null });
+		await flush();
+		scheduler.stop();
+
+		expect(onFrame).not.toHaveBeenCalled();
+	});
+
+	it("一時停止中の動画は開始時とシークしたときに今のフレームを検出する", async () => {
+		const { video } = createFrameSource({ paused: true });
+		const onFrame = vi.fn(async () => ({ inference: 1, render: 1 }));
+		const scheduler = startFrameScheduler(video, onFrame, { maxFps: null });
+		await flush();
+		expect(onFrame).toHaveBeenCalledTimes(1);
+
+		video.dispatchEvent(new Event("seeked"));
+		await flush();
+		expect(onFrame).toHaveBeenCalledTimes(2);
+
+		scheduler.stop();
+		video.dispatchEvent(new Event("seeked"));
+		await flush();
+		expect(onFrame).toHaveBeenCalledTimes(2);
+	});
+
+	it("検出中にシークしたら、終わってからシーク後のフレームを検出し直す", async () => {
+		const { video } = createFrameSource({ paused: true });
+		let finish = () => {};
+		const onFrame = vi.fn(() => new Promise<FrameTiming>(resolve => {
+			finish = () => resolve({ inference: 1, render: 1 });
+		}));
+		const scheduler = startFrameScheduler(video, onFrame, { maxFps: null });
+		video.dispatchEvent(new Event("seeked"));
+		video.dispatchEvent(new Event("seeked"));
+		expect(onFrame).toHaveBeenCalledTimes(1);
+
+		finish();
+		await flush();
+		expect(onFrame).toHaveBeenCalledTimes(2);
+		finish();
+		await flush();
+		scheduler.stop();
+		expect(onFrame).toHaveBeenCalledTimes(2);
+	});
+});
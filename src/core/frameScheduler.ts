@@ -0,0 +1,166 @@
+export type FrameSchedulerStats = {
+	// 実際に検出できたフレームレート（直近1秒間）
+	fps: number;
+	// 直近の検出1回にかかった時間の平均（ミリ秒）
+	latency: number;
+	// 前の検出が終わっていなかったため処理できなかったフレーム数
+	droppedFrames: number;
+	// 検出処理の内訳の平均（ミリ秒）。検出処理が内訳を返さない場合はnull
+	inferenceTime: number | null;
+	renderTime: number | null;
+};
+
+// 1フレームの検出処理の内訳（ミリ秒）
+export type FrameTiming = {
+	inference: number;
+	render: number;
+};
+
+export type FrameSchedulerOptions = {
+	// 検出するフレームレートの上限（nullなら上限なし）
+	maxFps: number | null;
+	onStats?: (stats: FrameSchedulerStats) => void;
+};
+
+// 検出フレームレートの上限の選択肢
+export const maxFpsOptions: { value: number | null; label: string }[] = [
+	{ value: null, label: "上限なし" },
+	{ value: 30, label: "30fps" },
+	{ value: 15, label: "15fps" },
+	{ value: 10, label: "10fps" },
+	{ value: 5, label: "5fps" },
+];
+
+// 平均を取る検出回数
+const LATENCY_WINDOW = 30;
+// 統計を通知する間隔（ミリ秒）
+const STATS_INTERVAL = 500;
+// HTMLMediaElement.HAVE_CURRENT_DATA（今のフレームを表示できる状態）
+const HAVE_CURRENT_DATA = 2;
+// フレーム間隔のばらつきで上限ちょうどのフレームを読み飛ばさないための余裕（ミリ秒）
+const INTERVAL_TOLERANCE = 5;
+
+// 動画の新しいフレームごとに検出処理を呼び出す
+// requestVideoFrameCallbackに対応していないブラウザではrequestAnimationFrameで再生位置の変化を確認する
+// 前の検出が終わるまで次の検出は始めず、その間に来たフレームは読み飛ばす
+// 一時停止中の動画や静止画は新しいフレームが来ないため、開始時（設定を変えて作り直したときを含む）と
+// 一時停止・シーク後に今のフレームを1回だけ検出する
+// onFrameが内訳を返さなかったフレーム（モデルの読み込み中などで検出しなかったもの）はフレームレートと処理時間に数えない
+export const startFrameScheduler = (
+	video: HTMLVideoElement,
+	onFrame: (timestamp: number) => Promise<FrameTiming | void>,
+	{ maxFps, onStats }: FrameSchedulerOptions,
+) => {
+	let stopped = false;
+	let isRunning = false;
+	let handle = 0;
+	let lastStart = -Infinity;
+	let lastVideoTime = -1;
+	let lastStats = 0;
+	let droppedFrames = 0;
+	// 検出中に一時停止・シークしたため、終わったら今のフレームを検出し直す
+	let stillFramePending = false;
+	const latencies: number[] = [];
+	const timings: FrameTiming[] = [];
+	const completedAt: number[] = [];
+	const useVideoFrameCallback = typeof video.requestVideoFrameCallback === "function";
+	const minInterval = maxFps ? 1000 / maxFps : 0;
+
+	const reportStats = (now: number) => {
+		if (!onStats || now - lastStats < STATS_INTERVAL) return;
+		lastStats = now;
+		while (completedAt.length > 0 && now - completedAt[0] > 1000) {
+			completedAt.shift();
+		}
+		const average = (values: number[]) =>
+			values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+		onStats({
+			fps: completedAt.length,
+			latency: average(latencies) ?? 0,
+			droppedFrames,
+			inferenceTime: average(timings.map(timing => timing.inference)),
+			renderTime: average(timings.map(timing => timing.render)),
+		});
+	};
+
+	const run = async (now: number) => {
+		isRunning = true;
+		lastStart = now;
+		const start = performance.now();
+		let timing: FrameTiming | void = undefined;
+		try {
+			timing = await onFrame(now);
+		} catch (error) {
+			console.error("フレーム処理エラー:", error);
+		} finally {
+			isRunning = false;
+		}
+		const end = performance.now();
+		if (timing) {
+			timings.push(timing);
+			if (timings.length > LATENCY_WINDOW) timings.shift();
+			latencies.push(end - start);
+			if (latencies.length > LATENCY_WINDOW) latencies.shift();
+			completedAt.push(end);
+		}
+		reportStats(end);
+		if (stillFramePending) {
+			stillFramePending = false;
+			detectStillFrame();
+		}
+	};
+
+	// 一時停止中で表示できるフレームがあれば、今のフレームを検出する
+	const detectStillFrame = () => {
+		if (stopped || !video.paused || video.readyState < HAVE_CURRENT_DATA) return;
+		if (isRunning) {
+			stillFramePending = true;
+			return;
+		}
+		// requestAnimationFrameの場合に同じフレームをもう一度検出しないようにする
+		lastVideoTime = video.currentTime;
+		run(performance.now());
+	};
+
+	const tick = (now: number) => {
+		if (stopped) return;
+		schedule();
+
+		// requestAnimationFrameの場合は動画のフレームが変わったときだけ処理する
+		if (!useVideoFrameCallback) {
+			if (video.currentTime === lastVideoTime) return;
+			lastVideoTime = video.currentTime;
+		}
+		// 上限のフレームレートを超える分は処理しない（読み飛ばしには数えない）
+		if (now - lastStart < minInterval - INTERVAL_TOLERANCE) return;
+		if (isRunning) {
+			droppedFrames++;
+			return;
+		}
+		run(now);
+	};
+
+	const schedule = () => {
+		handle = useVideoFrameCallback
+			? video.requestVideoFrameCallback(tick)
+			: requestAnimationFrame(tick);
+	};
+
+	schedule();
+	video.addEventListener("pause", detectStillFrame);
+	video.addEventListener("seeked", detectStillFrame);
+	detectStillFrame();
+
+	return {
+		stop: () => {
+			stopped = true;
+			video.removeEventListener("pause", detectStillFrame);
+			video.removeEventListener("seeked", detectStillFrame);
+			if (useVideoFrameCallback) {
+				video.cancelVideoFrameCallback(handle);
+			} else {
+				cancelAnimationFrame(handle);
+			}
+		},
+	};
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+	ScreenPoint,
+	addGazePoint,
+	createGazeHeatmap,
+	estimateGazePoint,
+	fitGazeModel,
+	gazeCalibrationSteps,
+	isGazeModel,
+	smoothGazePoint,
+} from "./gazeEstimation";
+import type { IrisMeasurement } from "./irisPosition";
+
+// 画面上の点を見たときの虹彩の相対位置（両目とも同じ向きに動く単純なモデル）
+const irisFor = ({ x, y }: ScreenPoint): IrisMeasurement => {
+	const eye = { x: 0.35 + x * 0.3, y: 0.4 + y * 0.2 };
+	return { leftEye: eye, rightEye: eye };
+};
+
+// 9点のキャリブレーションで記録するサンプル
+const calibrationSamples = () =>
+	gazeCalibrationSteps.flatMap(({ target }) => target ? [{ iris: irisFor(target), target }] : []);
+
+describe("fitGazeModel", () => {
+	it("9点のキャリブレーションから注視点を推定できる", () => {
+		const model = fitGazeModel(calibrationSamples());
+		expect(model).not.toBeNull();
+		if (!model) return;
+		const point = estimateGazePoint(model, irisFor({ x: 0.3, y: 0.7 }));
+		expect(point.x).toBeCloseTo(0.3, 2);
+		expect(point.y).toBeCloseTo(0.7, 2);
+		expect(isGazeModel(model)).toBe(true);
+	});
+
+	it("点が足りなければnullを返す", () => {
+		expect(fitGazeModel(calibrationSamples().slice(0, 5))).toBeNull();
+	});
+
+	it("画面の外の注視点は端に丸める", () => {
+		const model = fitGazeModel(calibrationSamples());
+		if (!model) throw new Error("モデルを作れませんでした");
+		expect(estimateGazePoint(model, irisFor({ x: 1.5, y: -0.5 }))).toEqual({ x: 1, y: 0 });
+	});
+});
+
+describe("smoothGazePoint", () => {
+	it("前の注視点に少しずつ近づける", () => {
+		expect(smoothGazePoint(null, { x: 1, y: 1 })).toEqual({ x: 1, y: 1 });
+		const point = smoothGazePoint({ x: 0, y: 0 }, { x: 1, y: 1 });
+		expect(point.x).toBeGreaterThan(0);
+		expect(point.x).toBeLessThan(1);
+	});
+});
+
+describe("isGazeModel", () => {
+	it("係数の数や型が違うものは受け付けない", () => {
+		expect(isGazeModel(null)).toBe(false);
+		expect(isGazeModel({ xCoefficients: [1, 2, 3], yCoefficients: [1, 2, 3] })).toBe(false);
+		expect(isGazeModel({ xCoefficients: Array(6).fill("0"), yCoefficients: Array(6).fill(0) })).toBe(false);
+	});
+});
+
+describe("addGazePoint", () => {
+	it("注視点を格子ごとに数える（右端・下端は最後のマスに入れる）", () => {
+		const heatmap = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 0.99, y: 0.99 }]
+			.reduce(addGazePoint, createGazeHeatmap(4, 2));
+		expect(heatmap.total).toBe(3);
+		expect(heatmap.counts[0]).toBe(1);
+		expect(heatmap.counts[7]).toBe(2);
+	});
+});
@@ -0,0 +1,127 @@
+import type { CalibrationStep } from "./calibration";
+import type { IrisMeasurement } from "./irisPosition";
+
+// 画面上の位置（左上を0、右下を1とする）
+export type ScreenPoint = { x: number; y: number };
+
+// 虹彩の相対位置から画面上の位置を求める2次の多項式回帰の係数
+export type GazeModel = {
+	xCoefficients: number[];
+	yCoefficients: number[];
+};
+
+// 画面を3×3に分けた9点を順に見てもらう
+export const gazeCalibrationSteps: CalibrationStep[] = [0.1, 0.5, 0.9].flatMap((y, row) =>
+	[0.1, 0.5, 0.9].map((x, column) => ({
+		key: `point${row * 3 + column + 1}`,
+		label: `${row * 3 + column + 1}番目の点を見てください`,
+		target: { x, y },
+	}))
+);
+
+// 両目の虹彩の相対位置の平均を [1, x, y, xy, x², y²] に展開する
+const gazeFeatures = (iris: IrisMeasurement) => {
+	const x = (iris.leftEye.x + iris.rightEye.x) / 2;
+	const y = (iris.leftEye.y + iris.rightEye.y) / 2;
+	return [1, x, y, x * y, x * x, y * y];
+};
+
+// 係数が不安定にならないよう、正規方程式の対角に加える値
+const RIDGE = 1e-6;
+
+// 連立一次方程式 Ax = b をガウスの消去法で解く。解けない場合はnull
+const solve = (a: number[][], b: number[]): number[] | null => {
+	const n = b.length;
+	const m = a.map((row, i) => [...row, b[i]]);
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let row = col + 1; row < n; row++) {
+			if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+		}
+		if (Math.abs(m[pivot][col]) < 1e-12) return null;
+		[m[col], m[pivot]] = [m[pivot], m[col]];
+		for (let row = 0; row < n; row++) {
+			if (row === col) continue;
+			const factor = m[row][col] / m[col][col];
+			for (let k = col; k <= n; k++) {
+				m[row][k] -= factor * m[col][k];
+			}
+		}
+	}
+	return m.map((row, i) => row[n] / row[i]);
+};
+
+// 最小二乗法で係数を求める
+const fitCoefficients = (features: number[][], targets: number[]) => {
+	const size = features[0].length;
+	const ata = Array.from({ length: size }, (_, i) =>
+		Array.from({ length: size }, (_, j) =>
+			features.reduce((sum, f) => sum + f[i] * f[j], 0) + (i === j ? RIDGE : 0)
+		)
+	);
+	const atb = Array.from({ length: size }, (_, i) =>
+		features.reduce((sum, f, k) => sum + f[i] * targets[k], 0)
+	);
+	return solve(ata, atb);
+};
+
+// 見てもらった点と、そのときの虹彩の相対位置から回帰モデルを作る。点が足りない場合や解けない場合はnull
+export const fitGazeModel = (samples: { iris: IrisMeasurement; target: ScreenPoint }[]): GazeModel | null => {
+	if (samples.length < 6) return null;
+	const features = samples.map(sample => gazeFeatures(sample.iris));
+	const xCoefficients = fitCoefficients(features, samples.map(sample => sample.target.x));
+	const yCoefficients = fitCoefficients(features, samples.map(sample => sample.target.y));
+	if (!xCoefficients || !yCoefficients) return null;
+	return { xCoefficients, yCoefficients };
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// 虹彩の相対位置から画面上の注視点を推定する（画面外の場合は端に丸める）
+export const estimateGazePoint = (model: GazeModel, iris: IrisMeasurement): ScreenPoint => {
+	const features = gazeFeatures(iris);
+	const apply = (coefficients: number[]) =>
+		coefficients.reduce((sum, coefficient, i) => sum + coefficient * features[i], 0);
+	return { x: clamp01(apply(model.xCoefficients)), y: clamp01(apply(model.yCoefficients)) };
+};
+
+// 注視点の揺れを抑えるための指数移動平均の係数（大きいほど新しい値を重視する）
+const SMOOTHING = 0.3;
+
+export const smoothGazePoint = (previous: ScreenPoint | null, next: ScreenPoint): ScreenPoint =>
+	previous
+		? { x: previous.x + (next.x - previous.x) * SMOOTHING, y: previous.y + (next.y - previous.y) * SMOOTHING }
+		: next;
+
+export const isGazeModel = (value: unknown): value is GazeModel => {
+	const model = value as GazeModel | null;
+	const isCoefficients = (coefficients: unknown) =>
+		Array.isArray(coefficients) && coefficients.length === 6 &&
+		coefficients.every(coefficient => typeof coefficient === "number");
+	return typeof model === "object" && model !== null &&
+		isCoefficients(model.xCoefficients) && isCoefficients(model.yCoefficients);
+};
+
+// 注視点の分布を画面を格子に分けて数える
+export type GazeHeatmap = {
+	columns: number;
+	rows: number;
+	counts: number[];
+	total: number;
+};
+
+export const createGazeHeatmap = (columns = 48, rows = 27): GazeHeatmap => ({
+	columns,
+	rows,
+	counts: new Array(columns * rows).fill(0),
+	total: 0,
+});
+
+// 注視点を1つ加えたヒートマップを返す
+export const addGazePoint = (heatmap: GazeHeatmap, point: ScreenPoint): GazeHeatmap => {
+	const column = Math.min(heatmap.columns - 1, Math.floor(point.x * heatmap.columns));
+	const row = Math.min(heatmap.rows - 1, Math.floor(point.y * heatmap.rows));
+	const counts = [...heatmap.counts];
+	counts[row * heatmap.columns + column]++;
+	return { ...heatmap, counts, total: heatmap.total + 1 };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createHandKeypoints, handGestures, openHand } from "../test/fixtures/hand";
+import { recordedSessions } from "../test/fixtures/recorded";
+import { classifyHandGesture } from "./handGesture";
+
+describe("classifyHandGesture", () => {
+	it.each(handGestures)("$gesture を判定する", ({ shape, gesture }) => {
+		const result = classifyHandGesture(createHandKeypoints(shape));
+		expect(result.type).toBe(gesture);
+		expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+	});
+
+	it.each(recordedSessions.hand.frames.flatMap(frame => frame.hands ?? []))(
+		"記録したセッションの $gesture を判定する",
+		({ keypoints, gesture }) => {
+			expect(classifyHandGesture(keypoints).type).toBe(gesture);
+		},
+	);
+
+	it("手の大きさと位置に左右されない", () => {
+		const small = classifyHandGesture(createHandKeypoints(openHand, { wristX: 50, wristY: 120, scale: 20 }));
+		const large = classifyHandGesture(createHandKeypoints(openHand, { scale: 300 }));
+		expect(small).toEqual(large);
+	});
+
+	it("21点そろっていない場合は不明とする", () => {
+		expect(classifyHandGesture(createHandKeypoints().slice(0, 10))).toEqual({ type: "unknown", label: "不明", confidence: 0 });
+	});
+
+	it("ラベルには表示名と絵文字を使う", () => {
+		expect(classifyHandGesture(createHandKeypoints()).label).toBe("パー ✋");
+	});
+});
@@ -0,0 +1,127 @@
+import type { Keypoint } from "@tensorflow-models/hand-pose-detection";
+
+export type HandGestureType =
+	| "open_palm"
+	| "fist"
+	| "pointing"
+	| "thumbs_up"
+	| "thumbs_down"
+	| "peace"
+	| "ok"
+	| "pinch"
+	| "unknown";
+
+export type HandGesture = {
+	type: HandGestureType;
+	label: string;
+	confidence: number; // 0〜1
+};
+
+// ジェスチャー一覧（表示名と絵文字）
+export const handGestureList: { type: HandGestureType; name: string; emoji: string }[] = [
+	{ type: "open_palm", name: "パー", emoji: "✋" },
+	{ type: "fist", name: "グー", emoji: "✊" },
+	{ type: "pointing", name: "指差し", emoji: "☝️" },
+	{ type: "thumbs_up", name: "グッド", emoji: "👍" },
+	{ type: "thumbs_down", name: "ブー", emoji: "👎" },
+	{ type: "peace", name: "ピース", emoji: "✌️" },
+	{ type: "ok", name: "OK", emoji: "👌" },
+	{ type: "pinch", name: "つまむ", emoji: "🤏" },
+];
+
+// この信頼度を下回る場合は「不明」とする
+const MIN_CONFIDENCE = 0.6;
+
+// MediaPipeHandsのランドマークのインデックス
+const WRIST = 0;
+const THUMB_IP = 3;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+// 親指以外の指の [PIP, TIP]
+const FINGERS = {
+	index: [6, 8],
+	middle: [10, 12],
+	ring: [14, 16],
+	pinky: [18, 20],
+} as const;
+
+const distance = (a: Keypoint, b: Keypoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// valueがlowのとき0、highのとき1になるように線形に変換して0〜1に丸める
+const ramp = (value: number, low: number, high: number) =>
+	Math.min(1, Math.max(0, (value - low) / (high - low)));
+
+const toLabel = (type: HandGestureType) => {
+	const item = handGestureList.find(g => g.type === type);
+	return item ? `${item.name} ${item.emoji}` : "不明";
+};
+
+// 手のランドマーク21点からジェスチャーを分類する
+export const classifyHandGesture = (keypoints: Keypoint[]): HandGesture => {
+	if (keypoints.length < 21) {
+		return { type: "unknown", label: toLabel("unknown"), confidence: 0 };
+	}
+
+	const wrist = keypoints[WRIST];
+	// 手のひらの大きさ（手首〜中指の付け根）でスケールを正規化する
+	const palmSize = distance(wrist, keypoints[MIDDLE_MCP]) || 1;
+
+	// 各指の伸び具合（0: 曲がっている 〜 1: 伸びている）
+	// 指先がPIP関節より手首から十分遠ければ伸びているとみなす
+	const extension = (pip: number, tip: number) =>
+		ramp(distance(wrist, keypoints[tip]) / (distance(wrist, keypoints[pip]) || 1), 0.9, 1.2);
+	const index = extension(...FINGERS.index);
+	const middle = extension(...FINGERS.middle);
+	const ring = extension(...FINGERS.ring);
+	const pinky = extension(...FINGERS.pinky);
+
+	// 親指は小指の付け根から離れているかで判定
+	const thumbTip = keypoints[THUMB_TIP];
+	const thumb = ramp(
+		distance(thumbTip, keypoints[PINKY_MCP]) / (distance(keypoints[THUMB_IP], keypoints[PINKY_MCP]) || 1),
+		1.0,
+		1.15,
+	);
+
+	// 親指と人差し指の先端がくっついているか
+	const pinchDistance = distance(thumbTip, keypoints[FINGERS.index[1]]) / palmSize;
+	const touching = 1 - ramp(pinchDistance, 0.2, 0.45);
+
+	// 親指が上向きか下向きか（画面座標はyが下向き）
+	const thumbVertical = (keypoints[INDEX_MCP].y - thumbTip.y) / palmSize;
+	const thumbUp = ramp(thumbVertical, 0.3, 0.8);
+	const thumbDown = ramp(-thumbVertical, 0.3, 0.8);
+
+	const curled = (value: number) => 1 - value;
+	// 幾何平均を使い、条件のどれか1つでも満たさなければ低いスコアになるようにする
+	const combine = (...values: number[]) => Math.pow(values.reduce((product, v) => product * v, 1), 1 / values.length);
+	const fingersCurled = combine(curled(index), curled(middle), curled(ring), curled(pinky));
+
+	const scores: Record<Exclude<HandGestureType, "unknown">, number> = {
+		open_palm: combine(thumb, index, middle, ring, pinky, curled(touching)),
+		fist: combine(fingersCurled, curled(thumb)),
+		pointing: combine(index, curled(middle), curled(ring), curled(pinky), curled(touching)),
+		thumbs_up: combine(fingersCurled, thumb, thumbUp),
+		thumbs_down: combine(fingersCurled, thumb, thumbDown),
+		peace: combine(index, middle, curled(ring), curled(pinky), curled(touching)),
+		ok: combine(touching, middle, ring, pinky),
+		pinch: combine(touching, touching, curled(middle), curled(ring), curled(pinky)),
+	};
+
+	let best: HandGestureType = "unknown";
+	let bestScore = 0;
+	for (const [type, score] of Object.entries(scores) as [HandGestureType, number][]) {
+		if (score > bestScore) {
+			best = type;
+			bestScore = score;
+		}
+	}
+
+	if (bestScore < MIN_CONFIDENCE) {
+		return { type: "unknown", label: toLabel("unknown"), confidence: bestScore };
+	}
+
+	return { type: best, label: toLabel(best), confidence: bestScore };
+};
@@ -0,0 +1,48 @@
+import type { Keypoint } from "./types";
+import { Vector3, cross, dot, normalize, scale, subtract, toVector3 } from "./vector3";
+
+// 頭の向き（度）
+// yaw: 画面の右を向くほど正、pitch: 上を向くほど正、roll: 画面上で時計回りに傾くほど正
+export type HeadPose = {
+	yaw: number;
+	pitch: number;
+	roll: number;
+};
+
+// 顔の座標軸（画像の座標系での単位ベクトル）
+// x: 画面左側の目から右側の目の方向、y: 額からあごの方向、z: 顔の正面方向（カメラ側）
+export type FaceAxes = {
+	x: Vector3;
+	y: Vector3;
+	z: Vector3;
+};
+
+// MediaPipe FaceMeshのランドマークのインデックス
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+const FOREHEAD = 10;
+const CHIN = 152;
+export const NOSE_TIP = 1;
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// 目尻どうしと額・あごのランドマークから顔の座標軸を求める
+export const computeFaceAxes = (keypoints: Keypoint[]): FaceAxes => {
+	const x = normalize(subtract(toVector3(keypoints[RIGHT_EYE_OUTER]), toVector3(keypoints[LEFT_EYE_OUTER])));
+	const down = subtract(toVector3(keypoints[CHIN]), toVector3(keypoints[FOREHEAD]));
+	const y = normalize(subtract(down, scale(x, dot(down, x))));
+	// FaceMeshのzはカメラに近いほど小さいため、x × y は顔の後ろ向きになる
+	const z = scale(cross(x, y), -1);
+	return { x, y, z };
+};
+
+// 3DのFaceMeshのランドマークから頭の向きを推定する
+export const estimateHeadPose = (keypoints: Keypoint[]): HeadPose => {
+	if (keypoints.length < 468) return { yaw: 0, pitch: 0, roll: 0 };
+	const { x, z } = computeFaceAxes(keypoints);
+	return {
+		yaw: toDegrees(Math.atan2(z[0], -z[2])),
+		pitch: toDegrees(Math.atan2(-z[1], Math.hypot(z[0], z[2]))),
+		roll: toDegrees(Math.atan2(x[1], x[0])),
+	};
+};
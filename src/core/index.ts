@@ -0,0 +1,48 @@
+// Reactに依存しない検出・解析・描画のライブラリ
+// ブラウザ（DOMとCanvas）があればどのフレームワークからでも使える
+
+// 共通の型（キーポイント・タブ・入力など）
+export * from "./types";
+export * from "./vector3";
+
+// 検出器の読み込み・解放とバックエンドの初期化
+export * from "./modelManager";
+export * from "./detectorOptions";
+export * from "./runtimeSettings";
+export * from "./frameScheduler";
+
+// Web Workerでの推論とOffscreenCanvasへの描画（Workerの本体は detectionWorker.ts）
+export * from "./detectionWorkerProtocol";
+export * from "./detectionWorkerClient";
+
+// 手のジェスチャー
+export * from "./handGesture";
+export * from "./dynamicGesture";
+
+// 顔の表情・虹彩位置・頭の向き・注意の監視
+export * from "./faceAnalysis";
+export * from "./facialExpression";
+export * from "./irisPosition";
+export * from "./headPose";
+export * from "./emotionSmoothing";
+export * from "./emotionTimeline";
+export * from "./attentionMonitor";
+export * from "./alertSound";
+export * from "./calibration";
+export * from "./gazeEstimation";
+
+// 人物・顔の追跡と運動の回数カウント
+export * from "./poseTracker";
+export * from "./faceTracker";
+export * from "./exercise";
+
+// 描画（キーポイントの接続の定義と表示テーマを含む）
+export * from "./renderers";
+export * from "./overlayTheme";
+export * from "./overlayScene";
+
+// 記録・再生・一括解析・動画の書き出し
+export * from "./sessionRecorder";
+export * from "./sessionPlayer";
+export * from "./batchAnalysis";
+export * from "./videoExporter";
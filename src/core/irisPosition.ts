@@ -0,0 +1,143 @@
+import type { HeadPose } from "./headPose";
+import type { IrisPosition, Keypoint } from "./types";
+
+// 目の中での虹彩の相対位置（目頭を0、目尻を1、上まぶたを0、下まぶたを1とする）
+export type EyeRatio = { x: number; y: number };
+
+export type IrisMeasurement = {
+	leftEye: EyeRatio;
+	rightEye: EyeRatio;
+};
+
+// 正面を見たときの虹彩の相対位置と、画面の端を見たときの中心からのずれの大きさ
+export type EyeBaseline = {
+	center: EyeRatio;
+	range: EyeRatio;
+};
+
+export type GazeBaseline = {
+	leftEye: EyeBaseline;
+	rightEye: EyeBaseline;
+};
+
+// キャリブレーションしていない場合の基準（相対位置0.35〜0.65を中央とする）
+export const defaultGazeBaseline: GazeBaseline = {
+	leftEye: { center: { x: 0.5, y: 0.5 }, range: { x: 0.3, y: 0.3 } },
+	rightEye: { center: { x: 0.5, y: 0.5 }, range: { x: 0.3, y: 0.3 } },
+};
+
+// 中心からのずれが端を見たときの半分を超えたら、その方向を見ているとみなす
+const DIRECTION_THRESHOLD = 0.5;
+
+// 虹彩の相対位置を測る。虹彩のランドマークがない場合はnull
+export const measureIris = (keypoints: Keypoint[]): IrisMeasurement | null => {
+	// MediaPipe FaceMeshの虹彩関連のランドマーク
+	// 左目虹彩: 468-472
+	// 右目虹彩: 473-477
+	const leftIrisCenter = keypoints[468]; // 左虹彩の中心
+	const rightIrisCenter = keypoints[473]; // 右虹彩の中心
+	if (!leftIrisCenter || !rightIrisCenter) return null;
+
+	// 目の端のランドマーク
+	const leftEyeInner = keypoints[133]; // 左目内側
+	const leftEyeOuter = keypoints[33];  // 左目外側
+	const rightEyeInner = keypoints[362]; // 右目内側
+	const rightEyeOuter = keypoints[263]; // 右目外側
+
+	// 目の上下のランドマーク
+	const leftEyeTop = keypoints[159];
+	const leftEyeBottom = keypoints[145];
+	const rightEyeTop = keypoints[386];
+	const rightEyeBottom = keypoints[374];
+
+	const leftEyeWidth = Math.abs(leftEyeOuter.x - leftEyeInner.x);
+	const leftEyeHeight = Math.abs(leftEyeBottom.y - leftEyeTop.y);
+	const rightEyeWidth = Math.abs(rightEyeOuter.x - rightEyeInner.x);
+	const rightEyeHeight = Math.abs(rightEyeBottom.y - rightEyeTop.y);
+
+	return {
+		leftEye: {
+			x: (leftIrisCenter.x - leftEyeInner.x) / leftEyeWidth,
+			y: (leftIrisCenter.y - leftEyeTop.y) / leftEyeHeight,
+		},
+		rightEye: {
+			x: (rightIrisCenter.x - rightEyeInner.x) / rightEyeWidth,
+			y: (rightIrisCenter.y - rightEyeTop.y) / rightEyeHeight,
+		},
+	};
+};
+
+// 頭の向き1度あたりの虹彩の相対位置の変化（目の中で虹彩が端まで動くのは約35度で、そのときのずれが約0.3）
+const RATIO_PER_DEGREE = 0.3 / 35;
+
+// 頭の向きの分だけ虹彩の相対位置をずらし、顔ではなく画面に対する視線の方向として扱えるようにする
+// 画面の右（本人の左）を向くと目頭・目尻に対する相対位置が大きくなる方向と同じになる
+export const compensateHeadPose = (measurement: IrisMeasurement, headPose: HeadPose): IrisMeasurement => {
+	const shift = (ratio: EyeRatio): EyeRatio => ({
+		x: ratio.x + headPose.yaw * RATIO_PER_DEGREE,
+		y: ratio.y - headPose.pitch * RATIO_PER_DEGREE,
+	});
+	return { leftEye: shift(measurement.leftEye), rightEye: shift(measurement.rightEye) };
+};
+
+// 基準からのずれを、端を見たときのずれを1として表す
+const normalizedOffset = (ratio: EyeRatio, baseline: EyeBaseline): EyeRatio => ({
+	x: (ratio.x - baseline.center.x) / baseline.range.x,
+	y: (ratio.y - baseline.center.y) / baseline.range.y,
+});
+
+// 縦方向の判定を方向の名前に付け加える
+const withVertical = (direction: string, y: number, neutral: string, separator: string) => {
+	if (y < -DIRECTION_THRESHOLD) return direction === neutral ? "上" : direction + separator + "上";
+	if (y > DIRECTION_THRESHOLD) return direction === neutral ? "下" : direction + separator + "下";
+	return direction;
+};
+
+// 虹彩の相対位置から目ごとと全体の視線の方向を判定する
+export const classifyIrisPosition = (
+	measurement: IrisMeasurement | null,
+	baseline: GazeBaseline = defaultGazeBaseline,
+): IrisPosition => {
+	if (!measurement) {
+		return {
+			leftEye: "検出中",
+			rightEye: "検出中",
+			overall: "虹彩を検出中..."
+		};
+	}
+
+	const left = normalizedOffset(measurement.leftEye, baseline.leftEye);
+	const right = normalizedOffset(measurement.rightEye, baseline.rightEye);
+
+	// 左目の方向を判定
+	let leftEyeDirection = "中央";
+	if (left.x < -DIRECTION_THRESHOLD) {
+		leftEyeDirection = "外側";
+	} else if (left.x > DIRECTION_THRESHOLD) {
+		leftEyeDirection = "内側";
+	}
+
+	// 右目の方向を判定
+	let rightEyeDirection = "中央";
+	if (right.x < -DIRECTION_THRESHOLD) {
+		rightEyeDirection = "内側";
+	} else if (right.x > DIRECTION_THRESHOLD) {
+		rightEyeDirection = "外側";
+	}
+
+	// 全体的な視線方向を判定
+	let overallDirection = "正面";
+	const avgX = (left.x + right.x) / 2;
+	const avgY = (left.y + right.y) / 2;
+	if (avgX < -DIRECTION_THRESHOLD) {
+		overallDirection = "右";
+	} else if (avgX > DIRECTION_THRESHOLD) {
+		overallDirection = "左";
+	}
+
+	return {
+		leftEye: withVertical(leftEyeDirection, left.y, "中央", "・"),
+		rightEye: withVertical(rightEyeDirection, right.y, "中央", "・"),
+		overall: `視線: ${withVertical(overallDirection, avgY, "正面", "")}`
+	};
+};
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultDetectorOptions } from "./detectorOptions";
+import { ModelKey, enforceMemoryPolicy, loadModel, releaseModel } from "./modelManager";
+
+// TensorFlow.jsとモデルを読み込む代わりに、解放されたことを記録するだけの検出器を作る
+const { createDetector, disposed } = vi.hoisted(() => {
+	const disposed: string[] = [];
+	const createDetector = vi.fn(async (model: string) => ({
+		estimateHands: async () => [],
+		estimateFaces: async () => [],
+		estimatePoses: async () => [],
+		dispose: () => disposed.push(model),
+	}));
+	return { createDetector, disposed };
+});
+vi.mock("@tensorflow-models/hand-pose-detection", () => ({
+	createDetector,
+	SupportedModels: { MediaPipeHands: "hand" },
+}));
+vi.mock("@tensorflow-models/face-landmarks-detection", () => ({
+	createDetector,
+	SupportedModels: { MediaPipeFaceMesh: "face" },
+}));
+vi.mock("@tensorflow-models/pose-detection", () => ({
+	createDetector,
+	SupportedModels: { MoveNet: "pose", BlazePose: "pose" },
+	movenet: { modelType: {} },
+}));
+vi.mock("@tensorflow/tfjs-core", () => ({ ready: async () => {}, memory: () => ({}) }));
+vi.mock("@tensorflow/tfjs-backend-webgl", () => ({}));
+vi.mock("@tensorflow/tfjs-backend-cpu", () => ({}));
+vi.mock("@tensorflow/tfjs-backend-wasm", () => ({ setWasmPaths: () => {}, version_wasm: "0.0.0" }));
+
+const keys: ModelKey[] = ["hand", "face", "pose"];
+
+// 指定した順にモデルを読み込む（後に読み込んだものほど最近使ったことになる）
+const loadModels = async (...order: ModelKey[]) => {
+	for (const [i, key] of order.entries()) {
+		vi.setSystemTime(1000 * (i + 1));
+		await loadModel(key, { runtime: "tfjs", backend: "cpu", options: defaultDetectorOptions[key] });
+	}
+	vi.setSystemTime(10000);
+};
+
+// 解放は読み込みの完了を待ってから行われるため、終わるまで待つ
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("enforceMemoryPolicy", () => {
+	beforeEach(async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		for (const key of keys) await releaseModel(key);
+		disposed.length = 0;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("「使用中のみ」では使っていないモデルをすべて解放する", async () => {
+		await loadModels("hand", "face", "pose");
+		enforceMemoryPolicy(["face"], 1);
+		await flush();
+		expect(disposed.sort()).toEqual(["hand", "pose"]);
+	});
+
+	it("「使用中のみ」では使用中のモデルがなければすべて解放する", async () => {
+		await loadModels("hand", "face");
+		enforceMemoryPolicy([], 1);
+		await flush();
+		expect(disposed.sort()).toEqual(["face", "hand"]);
+	});
+
+	it("保持数を超えた分を使われていない順に解放する", async () => {
+		await loadModels("hand", "face", "pose");
+		enforceMemoryPolicy([], 2);
+		await flush();
+		expect(disposed).toEqual(["hand"]);
+	});
+
+	it("使用中のモデルも保持数に数える", async () => {
+		await loadModels("hand", "face", "pose");
+		enforceMemoryPolicy(["hand"], 2);
+		await flush();
+		expect(disposed).toEqual(["face"]);
+	});
+
+	it("「すべて保持」では解放しない", async () => {
+		await loadModels("hand", "face", "pose");
+		enforceMemoryPolicy([], "all");
+		await flush();
+		expect(disposed).toEqual([]);
+	});
+});
@@ -0,0 +1,289 @@
+import * as handPoseDetection from "@tensorflow-models/hand-pose-detection";
+import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+import * as poseDetection from "@tensorflow-models/pose-detection";
+import * as tf from "@tensorflow/tfjs-core";
+import "@tensorflow/tfjs-backend-webgl";
+import "@tensorflow/tfjs-backend-cpu";
+import { setWasmPaths, version_wasm } from "@tensorflow/tfjs-backend-wasm";
+import type { DetectorOptions } from "./detectorOptions";
+import type { DetectorRuntime, TfBackend } from "./runtimeSettings";
+import type { TabType } from "./types";
+
+// 検出器の種類ごとの型
+export type Detectors = {
+	hand: handPoseDetection.HandDetector;
+	face: faceLandmarksDetection.FaceLandmarksDetector;
+	pose: poseDetection.PoseDetector;
+};
+
+export type ModelKey = keyof Detectors;
+
+// 検出器の読み込みに使うランタイム・バックエンド・検出設定
+export type ModelConfig<K extends ModelKey = ModelKey> = {
+	runtime: DetectorRuntime;
+	backend: TfBackend;
+	options: DetectorOptions[K];
+	// trueならWeb Workerで推論する（useModelが参照する。Workerの中ではTensorFlow.jsランタイムを使う）
+	worker?: boolean;
+};
+
+// 読み込みの進み具合（0〜1）と現在の段階
+export type ModelLoadProgress = {
+	key: ModelKey;
+	progress: number;
+	stage: string;
+};
+
+// 同時に保持するモデル数の選択肢（"all" は解放しない）
+export type MemoryPolicy = number | "all";
+
+export const memoryPolicyOptions: { value: MemoryPolicy; label: string }[] = [
+	{ value: "all", label: "すべて保持" },
+	{ value: 2, label: "直近2つまで" },
+	{ value: 1, label: "使用中のみ" },
+];
+
+export const modelNames: Record<ModelKey, string> = {
+	hand: "手",
+	face: "顔",
+	pose: "ポーズ",
+};
+
+// タブごとに使うモデル
+export const modelsForTab = (tab: TabType): ModelKey[] =>
+	tab === "holistic" ? ["hand", "face", "pose"] : [tab];
+
+// WASMバックエンドの .wasm ファイルの取得元
+setWasmPaths(`https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-wasm@${version_wasm}/dist/`);
+
+// 初期化に失敗したときに順に試すバックエンド
+const backendFallbackOrder: TfBackend[] = ["webgl", "wasm", "cpu"];
+
+let backendReady: Promise<TfBackend> | null = null;
+
+// バックエンドを初期化する。指定したバックエンドが使えない場合は他のバックエンドを順に試し、実際に使うバックエンドを返す
+export const initializeBackend = (preferred: TfBackend): Promise<TfBackend> => {
+	const initialize = async () => {
+		// 読み込み済みの検出器は前のバックエンドのテンソルを持っているため解放する
+		for (const key of Array.from(cache.keys())) {
+			await releaseModel(key);
+		}
+		const candidates = [preferred, ...backendFallbackOrder.filter(backend => backend !== preferred)];
+		for (const backend of candidates) {
+			try {
+				if (await tf.setBackend(backend)) {
+					await tf.ready();
+					console.log("TensorFlow.js backend initialized:", tf.getBackend());
+					return backend;
+				}
+			} catch (error) {
+				console.error(`${backend}バックエンドの初期化エラー:`, error);
+			}
+			console.warn(`${backend}バックエンドを使えないため、次のバックエンドを試します`);
+		}
+		throw new Error("使用できるバックエンドがありません");
+	};
+	backendReady = initialize();
+	return backendReady;
+};
+
+// MediaPipeランタイムのファイルの取得元
+const mediapipeSolutionPath = (name: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/${name}`;
+
+// 検出器を作成する。createDetectorはダウンロードの進捗を返さないため、段階ごとに進捗を通知する
+const createDetectors: {
+	[K in ModelKey]: (runtime: DetectorRuntime, options: DetectorOptions[K]) => Promise<Detectors[K]>
+} = {
+	hand: (runtime, options) => handPoseDetection.createDetector(
+		handPoseDetection.SupportedModels.MediaPipeHands,
+		runtime === "mediapipe"
+			? {
+				runtime: "mediapipe",
+				solutionPath: mediapipeSolutionPath("hands"),
+				modelType: options.modelType,
+				maxHands: options.maxHands,
+			}
+			: {
+				runtime: "tfjs",
+				modelType: options.modelType,
+				maxHands: options.maxHands,
+			},
+	),
+	face: (runtime, options) => faceLandmarksDetection.createDetector(
+		faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+		runtime === "mediapipe"
+			? {
+				runtime: "mediapipe",
+				solutionPath: mediapipeSolutionPath("face_mesh"),
+				refineLandmarks: true,
+				maxFaces: options.maxFaces,
+			}
+			: {
+				runtime: "tfjs",
+				refineLandmarks: true, // 詳細なランドマークを取得
+				maxFaces: options.maxFaces,
+			},
+	),
+	pose: (runtime, options) => {
+		// MoveNetはMediaPipeランタイムに対応していないため、MediaPipeの場合はBlazePose（1人のみ）を使う
+		if (runtime === "mediapipe" || options.modelType.startsWith("blazepose_")) {
+			const modelType = options.modelType.startsWith("blazepose_")
+				? options.modelType.replace("blazepose_", "") as "lite" | "full" | "heavy"
+				: "full";
+			return poseDetection.createDetector(
+				poseDetection.SupportedModels.BlazePose,
+				runtime === "mediapipe"
+					? {
+						runtime: "mediapipe",
+						solutionPath: mediapipeSolutionPath("pose"),
+						modelType,
+						enableSmoothing: options.enableSmoothing,
+					}
+					: {
+						runtime: "tfjs",
+						modelType,
+						enableSmoothing: options.enableSmoothing,
+					},
+			);
+		}
+		const moveNetModelTypes = {
+			movenet_multipose_lightning: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+			movenet_singlepose_lightning: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+			movenet_singlepose_thunder: poseDetection.movenet.modelType.SINGLEPOSE_THUNDER,
+		};
+		return poseDetection.createDetector(
+			poseDetection.SupportedModels.MoveNet,
+			{
+				modelType: moveNetModelTypes[options.modelType as keyof typeof moveNetModelTypes],
+				enableSmoothing: options.enableSmoothing,
+			},
+		);
+	},
+};
+
+// 最初の推論はシェーダーのコンパイルで時間がかかるため、読み込み時に空の画像で一度推論しておく
+const warmUp = async (key: ModelKey, detector: Detectors[ModelKey]) => {
+	let image: HTMLCanvasElement | ImageBitmap;
+	if (typeof document === "undefined") {
+		// Workerの中ではキャンバス要素を作れないため、空のImageBitmapを使う
+		image = await createImageBitmap(new ImageData(64, 64));
+	} else {
+		image = document.createElement("canvas");
+		image.width = 64;
+		image.height = 64;
+	}
+	if (key === "hand") {
+		await (detector as Detectors["hand"]).estimateHands(image);
+	} else if (key === "face") {
+		await (detector as Detectors["face"]).estimateFaces(image);
+	} else {
+		await (detector as Detectors["pose"]).estimatePoses(image);
+	}
+};
+
+// 検出器の作成に使う設定項目（閾値など推論後に使う項目は変わっても作り直さない）
+const detectorCreationOptions: { [K in ModelKey]: (keyof DetectorOptions[K])[] } = {
+	hand: ["modelType", "maxHands"],
+	face: ["maxFaces"],
+	pose: ["modelType", "enableSmoothing"],
+};
+
+// 検出器を作り直す必要があるかを判定するためのキー
+export const modelConfigKey = <K extends ModelKey>(key: K, { runtime, backend, options, worker }: ModelConfig<K>) =>
+	JSON.stringify({
+		runtime,
+		backend,
+		worker: worker ?? false,
+		options: detectorCreationOptions[key].map(option => options[option]),
+	});
+
+type CacheEntry = {
+	promise: Promise<Detectors[ModelKey]>;
+	// 読み込みに使った設定（JSON）。変わったら読み込み直す
+	configKey: string;
+	lastUsed: number;
+};
+
+const cache = new Map<ModelKey, CacheEntry>();
+
+// モデルを読み込む。読み込み済み（または読み込み中）の場合は同じ検出器を返す
+// ランタイム・バックエンド・検出設定が変わった場合は前の検出器を解放して読み込み直す
+// MediaPipeランタイムの読み込みに失敗した場合はTensorFlow.jsランタイムで読み込む
+export const loadModel = <K extends ModelKey>(
+	key: K,
+	{ runtime, backend, options }: ModelConfig<K>,
+	onProgress?: (progress: ModelLoadProgress) => void,
+): Promise<Detectors[K]> => {
+	const configKey = modelConfigKey(key, { runtime, backend, options });
+	const cached = cache.get(key);
+	if (cached && cached.configKey === configKey) {
+		cached.lastUsed = Date.now();
+		return cached.promise as Promise<Detectors[K]>;
+	}
+	if (cached) {
+		releaseModel(key);
+	}
+
+	const load = async () => {
+		onProgress?.({ key, progress: 0, stage: "バックエンドを準備中" });
+		// TensorFlowバックエンドの準備を確認
+		await (backendReady ?? tf.ready());
+		onProgress?.({ key, progress: 0.2, stage: "モデルをダウンロード中" });
+		let detector: Detectors[K];
+		try {
+			detector = await createDetectors[key](runtime, options);
+		} catch (error) {
+			if (runtime !== "mediapipe") throw error;
+			console.error(`${modelNames[key]}のMediaPipeランタイムの読み込みエラー。TensorFlow.jsで読み込みます:`, error);
+			detector = await createDetectors[key]("tfjs", options);
+		}
+		onProgress?.({ key, progress: 0.8, stage: "初期化中" });
+		await warmUp(key, detector);
+		onProgress?.({ key, progress: 1, stage: "完了" });
+		console.log(`${modelNames[key]}のモデルを読み込みました:`, tf.memory());
+		return detector;
+	};
+
+	const promise = load();
+	cache.set(key, { promise, configKey, lastUsed: Date.now() });
+	// 失敗した場合は次回やり直せるようキャッシュから外す
+	promise.catch(() => {
+		if (cache.get(key)?.promise === promise) {
+			cache.delete(key);
+		}
+	});
+	return promise as Promise<Detectors[K]>;
+};
+
+// モデルを解放する
+export const releaseModel = async (key: ModelKey) => {
+	const cached = cache.get(key);
+	if (!cached) return;
+	cache.delete(key);
+	try {
+		const detector = await cached.promise;
+		detector.dispose();
+		console.log(`${modelNames[key]}のモデルを解放しました:`, tf.memory());
+	} catch {
+		// 読み込みに失敗したモデルは解放するものがない
+	}
+};
+
+// 使用中のモデルを残し、保持数を超えた分を使われていない順に解放する
+export const enforceMemoryPolicy = (activeKeys: ModelKey[], policy: MemoryPolicy) => {
+	const now = Date.now();
+	for (const key of activeKeys) {
+		const cached = cache.get(key);
+		if (cached) cached.lastUsed = now;
+	}
+	if (policy === "all") return;
+	const inactive = Array.from(cache.entries())
+		.filter(([key]) => !activeKeys.includes(key))
+		.sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+		.map(([key]) => key);
+	// 「使用中のみ」（1）は使用中のモデルがなくても、使われていないモデルを残さない
+	const keep = policy === 1 ? 0 : Math.max(0, policy - activeKeys.length);
+	for (const key of inactive.slice(keep)) {
+		releaseModel(key);
+	}
+};
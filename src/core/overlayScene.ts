@@ -0,0 +1,155 @@
+import { HandGesture, classifyHandGesture } from "./handGesture";
+import {
+	DrawingContext,
+	drawCenteredMessage,
+	drawFace,
+	drawHand,
+	drawHeadPoseAxes,
+	drawJointAngle,
+	drawPose,
+	drawPoseCount,
+	drawPoseLabel,
+} from "./renderers";
+import { OverlayTheme, defaultOverlayTheme } from "./overlayTheme";
+import type { FaceResult, LandmarkSession, RecordedFrame } from "./sessionRecorder";
+import type { HolisticLayers, Keypoint } from "./types";
+
+// 1フレーム分のオーバーレイの描画内容
+// Workerに送れるよう値だけで表し、メインスレッドでもWorkerのOffscreenCanvasでも同じ関数で描画する
+export type HandOverlay = {
+	keypoints: Keypoint[];
+	handedness: "Left" | "Right";
+	gesture: HandGesture;
+	// 直近の動きのジェスチャーの表示名
+	dynamicLabel: string | null;
+};
+
+export type FaceOverlay = Pick<FaceResult, "id" | "keypoints" | "emotion" | "iris" | "headPose">;
+
+export type PoseOverlay = {
+	id: number;
+	keypoints: Keypoint[];
+	label: string;
+	// ラベルを表示する行（追跡IDの順）
+	row: number;
+	// 関節の横に表示する角度
+	jointAngles: { joint: Keypoint; angle: number }[];
+};
+
+export type OverlayScene =
+	| { type: "hand"; hands: HandOverlay[] }
+	| { type: "face"; faces: FaceOverlay[] }
+	// countは追跡できなかった人も含めた検出数。minScoreを省略するとdrawPoseの既定値を使う
+	| { type: "pose"; poses: PoseOverlay[]; count: number; minScore?: number }
+	| {
+		type: "holistic";
+		frame: Pick<RecordedFrame, "hands" | "faces" | "poses">;
+		layers: HolisticLayers;
+		poseMinScore?: number;
+	};
+
+// ホリスティック表示: ポーズ → 顔 → 手の順にレイヤーとして重ねて描画する
+export const renderHolisticFrame = (
+	ctx: DrawingContext,
+	frame: Pick<RecordedFrame, "hands" | "faces" | "poses">,
+	layers: HolisticLayers = { pose: true, face: true, hand: true },
+	poseMinScore?: number,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	if (layers.pose) {
+		frame.poses?.forEach((pose, i) => {
+			drawPose(ctx, pose.keypoints, pose.id, poseMinScore, theme);
+			drawPoseLabel(ctx, `ID ${pose.id}`, pose.id, i, theme);
+		});
+	}
+	if (layers.face) {
+		for (const face of frame.faces ?? []) {
+			drawFace(ctx, face.keypoints, face.emotion, face.iris, face.id, theme);
+			drawHeadPoseAxes(ctx, face.keypoints, face.headPose, theme);
+		}
+	}
+	if (layers.hand) {
+		for (const hand of frame.hands ?? []) {
+			drawHand(ctx, hand.keypoints, hand.handedness, classifyHandGesture(hand.keypoints), null, theme);
+		}
+	}
+};
+
+// 1フレーム分のオーバーレイを描画する関数
+// 描画内容（シーン）と見た目（テーマ）を受け取り、キャンバスを消去してから描画する
+export type OverlayRenderer = (ctx: DrawingContext, scene: OverlayScene, theme: OverlayTheme) => void;
+
+// 標準の描画。renderersの関数でテーマに従って描画する
+export const renderOverlayScene: OverlayRenderer = (ctx, scene, theme) => {
+	ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+	switch (scene.type) {
+		case "hand":
+			for (const hand of scene.hands) {
+				drawHand(ctx, hand.keypoints, hand.handedness, hand.gesture, hand.dynamicLabel, theme);
+			}
+			break;
+		case "face":
+			for (const face of scene.faces) {
+				drawFace(ctx, face.keypoints, face.emotion, face.iris, face.id, theme);
+				drawHeadPoseAxes(ctx, face.keypoints, face.headPose, theme);
+			}
+			if (scene.faces.length === 0) {
+				// 顔が見つからないメッセージを画面中央に表示
+				drawCenteredMessage(ctx, "顔が見つかりません", theme);
+			}
+			break;
+		case "pose":
+			// 検出された人数を表示
+			drawPoseCount(ctx, scene.count, theme);
+			for (const pose of scene.poses) {
+				drawPose(ctx, pose.keypoints, pose.id, scene.minScore, theme);
+				for (const { joint, angle } of pose.jointAngles) {
+					drawJointAngle(ctx, joint, angle, theme);
+				}
+				// 各人のスコアを表示（少しずつ位置をずらす）
+				drawPoseLabel(ctx, pose.label, pose.id, pose.row, theme);
+			}
+			break;
+		case "holistic":
+			renderHolisticFrame(ctx, scene.frame, scene.layers, scene.poseMinScore, theme);
+			break;
+	}
+};
+
+// ラベルの行を追跡IDの順に割り当てる（検出順が入れ替わっても同じ人のラベルが動かないように）
+export const assignPoseLabelRows = (poses: Omit<PoseOverlay, "row">[]): PoseOverlay[] =>
+	[...poses].sort((a, b) => a.id - b.id).map((pose, row) => ({ ...pose, row }));
+
+// 記録した1フレームを、記録したタブのシーンにする（再生・一括解析の描画用）
+export const recordedFrameScene = (session: LandmarkSession, frame: RecordedFrame): OverlayScene => {
+	switch (session.tab) {
+		case "hand":
+			return {
+				type: "hand",
+				hands: (frame.hands ?? []).map(hand => ({
+					keypoints: hand.keypoints,
+					handedness: hand.handedness,
+					gesture: classifyHandGesture(hand.keypoints),
+					dynamicLabel: null,
+				})),
+			};
+		case "face":
+			return { type: "face", faces: frame.faces ?? [] };
+		case "pose": {
+			const poses = frame.poses ?? [];
+			return {
+				type: "pose",
+				count: poses.length,
+				poses: assignPoseLabelRows(poses.map(pose => ({
+					id: pose.id,
+					keypoints: pose.keypoints,
+					label: `ID ${pose.id} 信頼度: ${Math.round(pose.score * 100) / 100}`,
+					jointAngles: [],
+				}))),
+			};
+		}
+		case "holistic":
+			return { type: "holistic", frame, layers: { pose: true, face: true, hand: true } };
+	}
+};
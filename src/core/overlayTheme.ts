@@ -0,0 +1,214 @@
+// 検出結果のオーバーレイの見た目（色・大きさ・文字）
+// 値だけで表すため、Workerに送ってOffscreenCanvasの描画にも使える
+
+// 人物（顔・ポーズのID）ごとの色
+export type PersonColors = {
+	point: string;
+	line: string;
+};
+
+export type OverlayTheme = {
+	fontFamily: string;
+	// 文字の大きさと、文字の行間の倍率
+	fontScale: number;
+	textColor: string;
+	outlineColor: string;
+	outlineWidth: number;
+	// ジェスチャー・虹彩位置など強調するテキストの色
+	accentColor: string;
+	// 動きのジェスチャーの色
+	eventColor: string;
+	hand: {
+		pointColor: string;
+		pointRadius: number;
+		boneColor: string;
+		boneWidth: number;
+	};
+	face: {
+		pointColor: string;
+		pointRadius: number;
+		// 目の端と上下のランドマーク
+		eyeColor: string;
+		eyeRadius: number;
+		irisColor: string;
+		irisRadius: number;
+	};
+	pose: {
+		pointRadius: number;
+		boneWidth: number;
+	};
+	// 頭の向きの x・y・z 軸の色と線の太さ
+	axisColors: [string, string, string];
+	axisWidth: number;
+	// 視線の先を示す円と中心の点
+	gaze: {
+		ringColor: string;
+		ringRadius: number;
+		ringWidth: number;
+		dotColor: string;
+		dotRadius: number;
+	};
+	// 人物ごとの色（IDの順に繰り返し使う）
+	palette: PersonColors[];
+};
+
+export type OverlayThemeName = "default" | "highContrast" | "colorblind";
+
+export const defaultOverlayTheme: OverlayTheme = {
+	fontFamily: "Arial",
+	fontScale: 1,
+	textColor: "white",
+	outlineColor: "black",
+	outlineWidth: 3,
+	accentColor: "yellow",
+	eventColor: "orange",
+	hand: {
+		pointColor: "aqua",
+		pointRadius: 5,
+		boneColor: "yellow",
+		boneWidth: 2,
+	},
+	face: {
+		pointColor: "red",
+		pointRadius: 1,
+		eyeColor: "cyan",
+		eyeRadius: 2,
+		irisColor: "yellow",
+		irisRadius: 3,
+	},
+	pose: {
+		pointRadius: 6,
+		boneWidth: 3,
+	},
+	axisColors: ["#e74c3c", "#2ecc71", "#3498db"],
+	axisWidth: 3,
+	gaze: {
+		ringColor: "white",
+		ringRadius: 14,
+		ringWidth: 3,
+		dotColor: "#e74c3c",
+		dotRadius: 4,
+	},
+	palette: [
+		{ point: "lime", line: "aqua" },      // ID 1: 薄緑と水色
+		{ point: "magenta", line: "yellow" },  // ID 2: マゼンタと黄色
+		{ point: "orange", line: "red" },      // ID 3: オレンジと赤
+		{ point: "cyan", line: "blue" },       // ID 4: シアンと青
+		{ point: "white", line: "green" },     // ID 5: 白と緑
+	],
+};
+
+export const overlayThemes: Record<OverlayThemeName, OverlayTheme> = {
+	default: defaultOverlayTheme,
+	// 明るい原色と太い縁取りで、明るい背景や小さい画面でも見やすくする
+	highContrast: {
+		...defaultOverlayTheme,
+		fontScale: 1.25,
+		outlineWidth: 5,
+		accentColor: "#ffff00",
+		eventColor: "#00ffff",
+		hand: {
+			pointColor: "#ffffff",
+			pointRadius: 7,
+			boneColor: "#ffff00",
+			boneWidth: 4,
+		},
+		face: {
+			pointColor: "#ffffff",
+			pointRadius: 1.5,
+			eyeColor: "#00ffff",
+			eyeRadius: 3,
+			irisColor: "#ffff00",
+			irisRadius: 4,
+		},
+		pose: {
+			pointRadius: 8,
+			boneWidth: 5,
+		},
+		axisColors: ["#ff3333", "#33ff33", "#3399ff"],
+		axisWidth: 5,
+		gaze: {
+			ringColor: "#ffffff",
+			ringRadius: 18,
+			ringWidth: 5,
+			dotColor: "#ff0000",
+			dotRadius: 6,
+		},
+		// 人物ごとに点と線を同じ色にして、人物の区別を付けやすくする
+		palette: [
+			{ point: "#ffff00", line: "#ffff00" },
+			{ point: "#00ffff", line: "#00ffff" },
+			{ point: "#ff00ff", line: "#ff00ff" },
+			{ point: "#00ff00", line: "#00ff00" },
+			{ point: "#ff8000", line: "#ff8000" },
+		],
+	},
+	// 色覚の違いがあっても区別しやすい色（Okabe-Itoのカラーパレット）だけを使う
+	colorblind: {
+		...defaultOverlayTheme,
+		accentColor: "#f0e442",
+		eventColor: "#e69f00",
+		hand: {
+			...defaultOverlayTheme.hand,
+			pointColor: "#56b4e9",
+			boneColor: "#f0e442",
+		},
+		face: {
+			...defaultOverlayTheme.face,
+			pointColor: "#d55e00",
+			eyeColor: "#56b4e9",
+			irisColor: "#f0e442",
+		},
+		// 赤と緑の組み合わせを避ける
+		axisColors: ["#d55e00", "#f0e442", "#56b4e9"],
+		gaze: {
+			...defaultOverlayTheme.gaze,
+			dotColor: "#d55e00",
+		},
+		palette: [
+			{ point: "#e69f00", line: "#56b4e9" },
+			{ point: "#009e73", line: "#f0e442" },
+			{ point: "#cc79a7", line: "#0072b2" },
+			{ point: "#56b4e9", line: "#e69f00" },
+			{ point: "#f0e442", line: "#cc79a7" },
+		],
+	},
+};
+
+export const overlayThemeOptions: { value: OverlayThemeName; label: string }[] = [
+	{ value: "default", label: "標準" },
+	{ value: "highContrast", label: "ハイコントラスト" },
+	{ value: "colorblind", label: "色覚多様性対応" },
+];
+
+// IDごとに同じ色を使用
+export const personColorsFor = (theme: OverlayTheme, id: number) =>
+	theme.palette[(id - 1) % theme.palette.length];
+
+// テーマの書体と倍率を反映したフォント指定
+export const themeFont = (theme: OverlayTheme, size: number, bold = false) =>
+	`${bold ? "bold " : ""}${Math.round(size * theme.fontScale)}px ${theme.fontFamily}`;
+
+const STORAGE_KEY = "react-handpose:overlay-theme";
+
+const isThemeName = (value: unknown): value is OverlayThemeName =>
+	overlayThemeOptions.some(option => option.value === value);
+
+// 保存されたテーマを読み込む。保存されていない場合や不正な値は標準のテーマを使う
+export const loadOverlayThemeName = (): OverlayThemeName => {
+	try {
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+		return isThemeName(saved) ? saved : "default";
+	} catch (error) {
+		console.error("表示テーマの読み込みエラー:", error);
+		return "default";
+	}
+};
+
+export const saveOverlayThemeName = (name: OverlayThemeName) => {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(name));
+	} catch (error) {
+		console.error("表示テーマの保存エラー:", error);
+	}
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createPoseKeypoints } from "../test/fixtures/pose";
+import { PoseTrackerState, defaultPoseTrackerOptions, initialPoseTrackerState, iou, updatePoseTracks } from "./poseTracker";
+
+const poseAt = (centerX: number, score = 0.9) => ({ keypoints: createPoseKeypoints({ centerX, score }), score });
+
+// 人物の中心のx座標の列をフレームごとに与え、フレームごとのIDを返す
+const trackFrames = (frames: number[][], interval = 33, options = defaultPoseTrackerOptions) => {
+	let state: PoseTrackerState = initialPoseTrackerState;
+	return frames.map((centers, i) => {
+		const result = updatePoseTracks(state, centers.map(centerX => poseAt(centerX)), i * interval, options);
+		state = result.state;
+		return result.ids;
+	});
+};
+
+describe("iou", () => {
+	it("重なった面積の割合を求める", () => {
+		const a = { xMin: 0, yMin: 0, xMax: 10, yMax: 10 };
+		expect(iou(a, a)).toBe(1);
+		expect(iou(a, { xMin: 5, yMin: 0, xMax: 15, yMax: 10 })).toBeCloseTo(1 / 3);
+		expect(iou(a, { xMin: 20, yMin: 20, xMax: 30, yMax: 30 })).toBe(0);
+	});
+});
+
+describe("updatePoseTracks", () => {
+	it("新しい人物には1から順にIDを割り当てる", () => {
+		expect(trackFrames([[160, 480]])).toEqual([[1, 2]]);
+	});
+
+	it("少しずつ動いても検出順が入れ替わっても同じ人物には同じIDを割り当てる", () => {
+		expect(trackFrames([[160, 480], [490, 170], [180, 500]])).toEqual([[1, 2], [2, 1], [1, 2]]);
+	});
+
+	it("見失っている時間が短ければ同じIDに戻す", () => {
+		expect(trackFrames([[160], [], [165]], 400)).toEqual([[1], [], [1]]);
+	});
+
+	it("maxLostDurationより長く見失ったら新しい人物として扱う", () => {
+		const options = { ...defaultPoseTrackerOptions, maxLostDuration: 500 };
+		expect(trackFrames([[160], [], [165]], 400, options)).toEqual([[1], [], [2]]);
+	});
+
+	it("信頼度の高いキーポイントがないポーズにはIDを割り当てない", () => {
+		const { ids, state } = updatePoseTracks(initialPoseTrackerState, [poseAt(160, 0.1), poseAt(480)], 0);
+		expect(ids).toEqual([null, 1]);
+		expect(state.tracks).toHaveLength(1);
+	});
+});
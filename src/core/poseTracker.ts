@@ -0,0 +1,162 @@
+import type { Keypoint, Pose } from "@tensorflow-models/pose-detection";
+
+export type PoseTrackerOptions = {
+	// 見失ってからトラックを破棄するまでの時間（ミリ秒）
+	maxLostDuration: number;
+	// 同一人物とみなす最小の類似度（0〜1）
+	minSimilarity: number;
+	// キーポイント距離を類似度に変換するときの基準（バウンディングボックス対角線に対する割合）
+	keypointDistanceScale: number;
+	// この信頼度を下回るキーポイントは使わない
+	minKeypointScore: number;
+};
+
+export const defaultPoseTrackerOptions: PoseTrackerOptions = {
+	maxLostDuration: 1000,
+	minSimilarity: 0.3,
+	keypointDistanceScale: 0.5,
+	minKeypointScore: 0.3,
+};
+
+export type Box = { xMin: number; yMin: number; xMax: number; yMax: number };
+
+export type PoseTrack = {
+	id: number;
+	box: Box;
+	keypoints: Keypoint[];
+	lastSeen: number;
+};
+
+export type PoseTrackerState = {
+	tracks: PoseTrack[];
+	nextId: number;
+};
+
+export const initialPoseTrackerState: PoseTrackerState = {
+	tracks: [],
+	nextId: 1,
+};
+
+// キーポイントからバウンディングボックスを求める
+const keypointsBox = (keypoints: Keypoint[], minScore: number): Box | null => {
+	const visible = keypoints.filter(kp => (kp.score ?? 0) >= minScore);
+	if (visible.length === 0) return null;
+	return {
+		xMin: Math.min(...visible.map(kp => kp.x)),
+		yMin: Math.min(...visible.map(kp => kp.y)),
+		xMax: Math.max(...visible.map(kp => kp.x)),
+		yMax: Math.max(...visible.map(kp => kp.y)),
+	};
+};
+
+export const iou = (a: Box, b: Box) => {
+	const width = Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin);
+	const height = Math.min(a.yMax, b.yMax) - Math.max(a.yMin, b.yMin);
+	if (width <= 0 || height <= 0) return 0;
+	const intersection = width * height;
+	const area = (box: Box) => (box.xMax - box.xMin) * (box.yMax - box.yMin);
+	const union = area(a) + area(b) - intersection;
+	return union > 0 ? intersection / union : 0;
+};
+
+// 同じ名前のキーポイント同士の平均距離から類似度を求める
+const keypointSimilarity = (track: PoseTrack, keypoints: Keypoint[], box: Box, options: PoseTrackerOptions) => {
+	const diagonal = Math.hypot(box.xMax - box.xMin, box.yMax - box.yMin) || 1;
+	let total = 0;
+	let count = 0;
+	for (const keypoint of keypoints) {
+		if ((keypoint.score ?? 0) < options.minKeypointScore) continue;
+		const previous = track.keypoints.find(kp => kp.name === keypoint.name);
+		if (!previous || (previous.score ?? 0) < options.minKeypointScore) continue;
+		total += Math.hypot(keypoint.x - previous.x, keypoint.y - previous.y);
+		count++;
+	}
+	if (count === 0) return 0;
+	return Math.max(0, 1 - total / count / (diagonal * options.keypointDistanceScale));
+};
+
+// 今回のフレームのポーズを既存のトラックに対応付け、ポーズごとのIDと更新後の状態を返す
+export const updatePoseTracks = (
+	state: PoseTrackerState,
+	poses: Pose[],
+	timestamp: number,
+	options: PoseTrackerOptions = defaultPoseTrackerOptions,
+): { state: PoseTrackerState; ids: (number | null)[] } => {
+	// 長く見失っているトラックは破棄
+	const tracks = state.tracks.filter(track => timestamp - track.lastSeen <= options.maxLostDuration);
+	const boxes = poses.map(pose => keypointsBox(pose.keypoints, options.minKeypointScore));
+
+	// 全ての組み合わせの類似度を求めて、高い順に貪欲に割り当てる
+	const candidates: { trackIndex: number; poseIndex: number; similarity: number }[] = [];
+	tracks.forEach((track, trackIndex) => {
+		boxes.forEach((box, poseIndex) => {
+			if (!box) return;
+			const similarity = Math.max(
+				iou(track.box, box),
+				keypointSimilarity(track, poses[poseIndex].keypoints, box, options),
+			);
+			if (similarity >= options.minSimilarity) {
+				candidates.push({ trackIndex, poseIndex, similarity });
+			}
+		});
+	});
+	candidates.sort((a, b) => b.similarity - a.similarity);
+
+	const ids: (number | null)[] = poses.map(() => null);
+	const usedTracks = new Set<number>();
+	const nextTracks = [...tracks];
+	for (const { trackIndex, poseIndex } of candidates) {
+		if (usedTracks.has(trackIndex) || ids[poseIndex] !== null) continue;
+		usedTracks.add(trackIndex);
+		ids[poseIndex] = tracks[trackIndex].id;
+		nextTracks[trackIndex] = {
+			...tracks[trackIndex],
+			box: boxes[poseIndex]!,
+			keypoints: poses[poseIndex].keypoints,
+			lastSeen: timestamp,
+		};
+	}
+
+	// 対応するトラックがなかったポーズは新しい人物として登録
+	let nextId = state.nextId;
+	poses.forEach((pose, poseIndex) => {
+		const box = boxes[poseIndex];
+		if (ids[poseIndex] !== null || !box) return;
+		ids[poseIndex] = nextId;
+		nextTracks.push({ id: nextId, box, keypoints: pose.keypoints, lastSeen: timestamp });
+		nextId++;
+	});
+
+	return { state: { tracks: nextTracks, nextId }, ids };
+};
+
+// 画面で変更できる追跡の設定（見失ってから破棄するまでの時間と、同一人物とみなす最小の類似度）
+export type PoseTrackerSettings = Pick<PoseTrackerOptions, "maxLostDuration" | "minSimilarity">;
+
+const STORAGE_KEY = "react-handpose:pose-tracker";
+
+// 保存された追跡の設定を読み込む。保存されていない項目や不正な値は既定値を使う
+export const loadPoseTrackerSettings = (): PoseTrackerSettings => {
+	const defaults: PoseTrackerSettings = {
+		maxLostDuration: defaultPoseTrackerOptions.maxLostDuration,
+		minSimilarity: defaultPoseTrackerOptions.minSimilarity,
+	};
+	try {
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<PoseTrackerSettings> | null;
+		return {
+			maxLostDuration: typeof saved?.maxLostDuration === "number" ? saved.maxLostDuration : defaults.maxLostDuration,
+			minSimilarity: typeof saved?.minSimilarity === "number" ? saved.minSimilarity : defaults.minSimilarity,
+		};
+	} catch (error) {
+		console.error("追跡の設定の読み込みエラー:", error);
+		return defaults;
+	}
+};
+
+export const savePoseTrackerSettings = (settings: PoseTrackerSettings) => {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+	} catch (error) {
+		console.error("追跡の設定の保存エラー:", error);
+	}
+};
@@ -0,0 +1,356 @@
+import type { GazeHeatmap, ScreenPoint } from "./gazeEstimation";
+import type { HandGesture } from "./handGesture";
+import { HeadPose, NOSE_TIP, computeFaceAxes } from "./headPose";
+import { OverlayTheme, defaultOverlayTheme, personColorsFor, themeFont } from "./overlayTheme";
+import type { IrisPosition, Keypoint } from "./types";
+import { Vector3, scale } from "./vector3";
+
+// 接続するランドマークのペア（骨格を描画するため）
+export const handConnections = [
+	// 親指
+	[0, 1], [1, 2], [2, 3], [3, 4],
+	// 人差し指
+	[0, 5], [5, 6], [6, 7], [7, 8],
+	// 中指
+	[0, 9], [9, 10], [10, 11], [11, 12],
+	// 薬指
+	[0, 13], [13, 14], [14, 15], [15, 16],
+	// 小指
+	[0, 17], [17, 18], [18, 19], [19, 20],
+	// 手のひら
+	[0, 5], [5, 9], [9, 13], [13, 17], [0, 17]
+];
+
+// 骨格の接続定義
+export const poseConnections = [
+	// 顔
+	['nose', 'left_eye'],
+	['nose', 'right_eye'],
+	['left_eye', 'left_ear'],
+	['right_eye', 'right_ear'],
+	// 上半身
+	['left_shoulder', 'right_shoulder'],
+	['left_shoulder', 'left_elbow'],
+	['right_shoulder', 'right_elbow'],
+	['left_elbow', 'left_wrist'],
+	['right_elbow', 'right_wrist'],
+	// 下半身
+	['left_shoulder', 'left_hip'],
+	['right_shoulder', 'right_hip'],
+	['left_hip', 'right_hip'],
+	['left_hip', 'left_knee'],
+	['right_hip', 'right_knee'],
+	['left_knee', 'left_ankle'],
+	['right_knee', 'right_ankle'],
+];
+
+// 描画先の2Dコンテキスト（Workerで描画する場合はOffscreenCanvasのもの）
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// キャンバスサイズを合わせる。サイズを設定するとキャンバスが消去されるため、変わったときだけ設定する
+export const resizeCanvas = (canvas: HTMLCanvasElement | OffscreenCanvas, width: number, height: number) => {
+	if (canvas.width !== width) canvas.width = width;
+	if (canvas.height !== height) canvas.height = height;
+};
+
+// 縁取り付きのテキストを描画
+export const drawOutlinedText = (
+	ctx: DrawingContext,
+	text: string,
+	x: number,
+	y: number,
+	font: string,
+	color: string,
+	theme: OverlayTheme = defaultOverlayTheme,
+	outlineWidth = theme.outlineWidth,
+) => {
+	ctx.font = font;
+	ctx.strokeStyle = theme.outlineColor;
+	ctx.lineWidth = outlineWidth;
+	ctx.strokeText(text, x, y);
+	ctx.fillStyle = color;
+	ctx.fillText(text, x, y);
+};
+
+// 点を描画
+const drawPoint = (ctx: DrawingContext, x: number, y: number, radius: number, color: string) => {
+	ctx.beginPath();
+	ctx.arc(x, y, radius, 0, 2 * Math.PI);
+	ctx.fillStyle = color;
+	ctx.fill();
+};
+
+// 手のランドマーク・骨格・ラベルを描画
+export const drawHand = (
+	ctx: DrawingContext,
+	keypoints: Keypoint[],
+	handedness: "Left" | "Right",
+	gesture: HandGesture | null,
+	dynamicGestureLabel: string | null,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	// 各ランドマークを描画
+	for (const { x, y } of keypoints) {
+		drawPoint(ctx, x, y, theme.hand.pointRadius, theme.hand.pointColor);
+	}
+
+	// 骨格（指の接続）を描画
+	for (const [start, end] of handConnections) {
+		const startPoint = keypoints[start];
+		const endPoint = keypoints[end];
+
+		if (startPoint && endPoint) {
+			ctx.beginPath();
+			ctx.moveTo(startPoint.x, startPoint.y);
+			ctx.lineTo(endPoint.x, endPoint.y);
+			ctx.strokeStyle = theme.hand.boneColor;
+			ctx.lineWidth = theme.hand.boneWidth;
+			ctx.stroke();
+		}
+	}
+
+	// 手の種類（左/右）を表示
+	// ビデオ反転を削除したので、そのまま表示
+	const handText = `${handedness} Hand`;
+	ctx.font = themeFont(theme, 16);
+	ctx.fillStyle = theme.textColor;
+
+	// 手首の位置の近くにテキストを表示
+	const wrist = keypoints[0];
+	if (!wrist) return;
+	ctx.fillText(handText, wrist.x - 20, wrist.y - 10);
+
+	// ジェスチャーを手の種類の横に表示
+	if (gesture && gesture.type !== "unknown") {
+		const gestureText = `${gesture.label} ${Math.round(gesture.confidence * 100)}%`;
+		const gestureX = wrist.x - 20 + ctx.measureText(handText).width + 8;
+		drawOutlinedText(ctx, gestureText, gestureX, wrist.y - 10, themeFont(theme, 16, true), theme.accentColor, theme);
+	}
+
+	// 直近の動きのジェスチャーを手首の下に表示
+	if (dynamicGestureLabel) {
+		drawOutlinedText(ctx, dynamicGestureLabel, wrist.x - 20, wrist.y + 30 * theme.fontScale, themeFont(theme, 20, true), theme.eventColor, theme);
+	}
+};
+
+// 顔のランドマークと表情・虹彩位置を描画
+export const drawFace = (
+	ctx: DrawingContext,
+	keypoints: Keypoint[],
+	emotion: string,
+	irisPosition: IrisPosition,
+	// 複数の顔を区別するためのID。指定した場合は表情の前にIDをIDごとの色で表示する
+	id?: number,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	// ランドマークの描画
+	for (let j = 0; j < keypoints.length; j++) {
+		const { x, y } = keypoints[j];
+
+		// 虹彩関連のランドマークを強調表示
+		if (j >= 468 && j <= 477) {
+			// 虹彩のランドマーク（468-477）を大きく表示
+			drawPoint(ctx, x, y, theme.face.irisRadius, theme.face.irisColor);
+		} else if ([33, 133, 159, 145, 263, 362, 386, 374].includes(j)) {
+			// 目の端と上下のランドマーク
+			drawPoint(ctx, x, y, theme.face.eyeRadius, theme.face.eyeColor);
+		} else {
+			// その他のランドマーク
+			drawPoint(ctx, x, y, theme.face.pointRadius, theme.face.pointColor);
+		}
+	}
+
+	// 顔の中心と上部を計算
+	let faceTop = 50; // デフォルト値
+	let faceCenter = ctx.canvas.width / 2; // デフォルト値
+
+	// 髪の生え際あたりのポイント (10番目あたり)を探す
+	const foreheadPoint = keypoints.find(kp => kp.name === 'foreheadMid') || keypoints[10];
+	if (foreheadPoint) {
+		faceTop = foreheadPoint.y - 40; // 額の少し上
+		faceCenter = foreheadPoint.x;
+	} else {
+		// 目の位置からも推定可能
+		const leftEye = keypoints.find(kp => kp.name === 'leftEye') || keypoints[159];
+		const rightEye = keypoints.find(kp => kp.name === 'rightEye') || keypoints[386];
+
+		if (leftEye && rightEye) {
+			faceCenter = (leftEye.x + rightEye.x) / 2;
+			faceTop = Math.min(leftEye.y, rightEye.y) - 50;
+		}
+	}
+
+	// 表示位置が画面外にならないよう調整
+	faceTop = Math.max(30, faceTop);
+
+	// 表情の表示 - 顔の上部に表示
+	// テキストの幅を取得してセンタリング
+	const emotionText = id === undefined ? emotion : `ID ${id}: ${emotion}`;
+	const emotionFont = themeFont(theme, 24, true);
+	ctx.font = emotionFont;
+	const textX = faceCenter - (ctx.measureText(emotionText).width / 2);
+	// テキストに縁取りを追加して視認性を向上
+	const emotionColor = id === undefined ? theme.textColor : personColorsFor(theme, id).point;
+	drawOutlinedText(ctx, emotionText, textX, faceTop, emotionFont, emotionColor, theme);
+
+	// 虹彩位置の表示 - 表情の下に表示
+	const irisText = irisPosition.overall;
+	const irisFont = themeFont(theme, 20, true);
+	ctx.font = irisFont;
+	const irisTextX = faceCenter - (ctx.measureText(irisText).width / 2);
+	const irisTextY = faceTop + 30 * theme.fontScale;
+	drawOutlinedText(ctx, irisText, irisTextX, irisTextY, irisFont, theme.accentColor, theme);
+
+	// 各目の詳細（小さく表示）
+	const detailText = `左目: ${irisPosition.leftEye} | 右目: ${irisPosition.rightEye}`;
+	const detailFont = themeFont(theme, 14);
+	ctx.font = detailFont;
+	const detailTextX = faceCenter - (ctx.measureText(detailText).width / 2);
+	const detailTextY = irisTextY + 20 * theme.fontScale;
+	drawOutlinedText(ctx, detailText, detailTextX, detailTextY, detailFont, theme.textColor, theme, theme.outlineWidth * 2 / 3);
+};
+
+// メッセージを画面中央に表示（顔が見つからない場合など）
+export const drawCenteredMessage = (ctx: DrawingContext, text: string, theme: OverlayTheme = defaultOverlayTheme) => {
+	const font = themeFont(theme, 24, true);
+	ctx.font = font;
+
+	// テキストの幅を取得してセンタリング
+	const textWidth = ctx.measureText(text).width;
+	const textX = ctx.canvas.width / 2 - (textWidth / 2);
+	const textY = ctx.canvas.height / 2;
+
+	// テキストに縁取りを追加して視認性を向上
+	drawOutlinedText(ctx, text, textX, textY, font, theme.textColor, theme);
+};
+
+// 検出された人数を表示
+export const drawPoseCount = (ctx: DrawingContext, count: number, theme: OverlayTheme = defaultOverlayTheme) => {
+	ctx.font = themeFont(theme, 16);
+	ctx.fillStyle = theme.textColor;
+	ctx.fillText(`検出された人数: ${count}人`, 20, 30 * theme.fontScale);
+};
+
+// 1人分のキーポイントと骨格を描画
+export const drawPose = (
+	ctx: DrawingContext,
+	keypoints: Keypoint[],
+	id: number,
+	minScore = 0.3,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	const colorSet = personColorsFor(theme, id);
+
+	// キーポイントの描画
+	for (const keypoint of keypoints) {
+		if (keypoint.score && keypoint.score > minScore) { // 信頼度が閾値以上のポイントのみ描画
+			drawPoint(ctx, keypoint.x, keypoint.y, theme.pose.pointRadius, colorSet.point);
+		}
+	}
+
+	// 骨格の線を描画
+	ctx.lineWidth = theme.pose.boneWidth;
+	ctx.strokeStyle = colorSet.line;
+
+	for (const [from, to] of poseConnections) {
+		const fromPoint = keypoints.find(kp => kp.name === from);
+		const toPoint = keypoints.find(kp => kp.name === to);
+
+		if (fromPoint && toPoint &&
+			fromPoint.score && toPoint.score &&
+			fromPoint.score > minScore && toPoint.score > minScore) {
+			ctx.beginPath();
+			ctx.moveTo(fromPoint.x, fromPoint.y);
+			ctx.lineTo(toPoint.x, toPoint.y);
+			ctx.stroke();
+		}
+	}
+};
+
+// 各人の情報を左上に表示（少しずつ位置をずらす）
+export const drawPoseLabel = (
+	ctx: DrawingContext,
+	text: string,
+	id: number,
+	row: number,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	ctx.font = themeFont(theme, 16);
+	ctx.fillStyle = personColorsFor(theme, id).point;
+	ctx.fillText(text, 20, (60 + row * 25) * theme.fontScale);
+};
+
+// 関節の横に角度を表示
+export const drawJointAngle = (
+	ctx: DrawingContext,
+	joint: Keypoint,
+	angle: number,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	drawOutlinedText(ctx, `${Math.round(angle)}°`, joint.x + 10, joint.y, themeFont(theme, 14), theme.textColor, theme);
+};
+
+// 注視点の分布をヒートマップとして描画（多いほど赤く、少ないほど青く表示）
+export const drawGazeHeatmap = (ctx: DrawingContext, heatmap: GazeHeatmap) => {
+	const max = Math.max(...heatmap.counts);
+	if (max === 0) return;
+	const cellWidth = ctx.canvas.width / heatmap.columns;
+	const cellHeight = ctx.canvas.height / heatmap.rows;
+	const radius = Math.max(cellWidth, cellHeight) * 1.5;
+	heatmap.counts.forEach((count, index) => {
+		if (count === 0) return;
+		const ratio = count / max;
+		const x = (index % heatmap.columns + 0.5) * cellWidth;
+		const y = (Math.floor(index / heatmap.columns) + 0.5) * cellHeight;
+		const hue = (1 - ratio) * 240;
+		const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+		gradient.addColorStop(0, `hsla(${hue}, 100%, 50%, ${0.2 + ratio * 0.4})`);
+		gradient.addColorStop(1, `hsla(${hue}, 100%, 50%, 0)`);
+		ctx.fillStyle = gradient;
+		ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+	});
+};
+
+// 推定した注視点を円で描画
+export const drawGazePoint = (ctx: DrawingContext, point: ScreenPoint, theme: OverlayTheme = defaultOverlayTheme) => {
+	const x = point.x * ctx.canvas.width;
+	const y = point.y * ctx.canvas.height;
+	ctx.beginPath();
+	ctx.arc(x, y, theme.gaze.ringRadius, 0, 2 * Math.PI);
+	ctx.strokeStyle = theme.gaze.ringColor;
+	ctx.lineWidth = theme.gaze.ringWidth;
+	ctx.stroke();
+	drawPoint(ctx, x, y, theme.gaze.dotRadius, theme.gaze.dotColor);
+};
+
+// 鼻先を原点に顔の座標軸を描画し、頭の向きの角度を表示（標準のテーマでは x: 赤、y: 緑、z: 青）
+export const drawHeadPoseAxes = (
+	ctx: DrawingContext,
+	keypoints: Keypoint[],
+	headPose: HeadPose,
+	theme: OverlayTheme = defaultOverlayTheme,
+) => {
+	const nose = keypoints[NOSE_TIP];
+	if (!nose || keypoints.length < 468) return;
+	const axes = computeFaceAxes(keypoints);
+	// 軸の長さは目尻どうしの距離に合わせる
+	const size = Math.hypot(keypoints[263].x - keypoints[33].x, keypoints[263].y - keypoints[33].y) * 0.6;
+	// yは額からあごの向きなので、上向きに描画するため反転する
+	const [xColor, yColor, zColor] = theme.axisColors;
+	const lines: { axis: Vector3; color: string }[] = [
+		{ axis: axes.x, color: xColor },
+		{ axis: scale(axes.y, -1), color: yColor },
+		{ axis: axes.z, color: zColor },
+	];
+	for (const { axis, color } of lines) {
+		ctx.beginPath();
+		ctx.moveTo(nose.x, nose.y);
+		ctx.lineTo(nose.x + axis[0] * size, nose.y + axis[1] * size);
+		ctx.strokeStyle = color;
+		ctx.lineWidth = theme.axisWidth;
+		ctx.stroke();
+	}
+
+	const text = `Y ${Math.round(headPose.yaw)}° P ${Math.round(headPose.pitch)}° R ${Math.round(headPose.roll)}°`;
+	drawOutlinedText(ctx, text, nose.x + 10, nose.y + size + 16 * theme.fontScale, themeFont(theme, 14), theme.textColor, theme, theme.outlineWidth * 2 / 3);
+};
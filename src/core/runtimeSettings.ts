@@ -0,0 +1,71 @@
+import type { ModelKey } from "./modelManager";
+
+export type TfBackend = "webgl" | "wasm" | "cpu";
+
+// "mediapipe" はTensorFlow.jsを使わず、MediaPipeのWASM版で推論する
+export type DetectorRuntime = "tfjs" | "mediapipe";
+
+export type RuntimeSettings = {
+	backend: TfBackend;
+	runtimes: Record<ModelKey, DetectorRuntime>;
+	// 推論とオーバーレイの描画をWeb Workerで行う（Workerでは常にTensorFlow.jsランタイムを使う）
+	worker: boolean;
+};
+
+export const backendOptions: { value: TfBackend; label: string }[] = [
+	{ value: "webgl", label: "WebGL" },
+	{ value: "wasm", label: "WASM" },
+	{ value: "cpu", label: "CPU" },
+];
+
+export const runtimeOptions: { value: DetectorRuntime; label: string }[] = [
+	{ value: "tfjs", label: "TensorFlow.js" },
+	{ value: "mediapipe", label: "MediaPipe" },
+];
+
+export const defaultRuntimeSettings: RuntimeSettings = {
+	backend: "webgl",
+	runtimes: {
+		hand: "tfjs",
+		face: "tfjs",
+		pose: "tfjs",
+	},
+	worker: false,
+};
+
+const STORAGE_KEY = "react-handpose:runtime-settings";
+
+const isBackend = (value: unknown): value is TfBackend =>
+	backendOptions.some(option => option.value === value);
+
+const isRuntime = (value: unknown): value is DetectorRuntime =>
+	runtimeOptions.some(option => option.value === value);
+
+// 保存された設定を読み込む。保存されていない項目や不正な値は既定値を使う
+export const loadRuntimeSettings = (): RuntimeSettings => {
+	try {
+		const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<RuntimeSettings> | null;
+		if (!saved) return defaultRuntimeSettings;
+		const runtimes = { ...defaultRuntimeSettings.runtimes };
+		for (const key of Object.keys(runtimes) as ModelKey[]) {
+			const runtime = saved.runtimes?.[key];
+			if (isRuntime(runtime)) runtimes[key] = runtime;
+		}
+		return {
+			backend: isBackend(saved.backend) ? saved.backend : defaultRuntimeSettings.backend,
+			runtimes,
+			worker: typeof saved.worker === "boolean" ? saved.worker : defaultRuntimeSettings.worker,
+		};
+	} catch (error) {
+		console.error("実行環境の設定の読み込みエラー:", error);
+		return defaultRuntimeSettings;
+	}
+};
+
+export const saveRuntimeSettings = (settings: RuntimeSettings) => {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+	} catch (error) {
+		console.error("実行環境の設定の保存エラー:", error);
+	}
+};
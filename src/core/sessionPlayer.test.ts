@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from "vitest";
+import { createFaceKeypoints } from "../test/fixtures/face";
+import { createHandKeypoints } from "../test/fixtures/hand";
+import { analyzeFace } from "./faceAnalysis";
+import { buildEmotionTimeline, emotionDistribution } from "./emotionTimeline";
+import { classifyHandGesture } from "./handGesture";
+import type { OverlayRenderer } from "./overlayScene";
+import { overlayThemes } from "./overlayTheme";
+import type { DrawingContext } from "./renderers";
+import { findFrameAt, parseLandmarkSession, renderRecordedFrame, sessionDuration } from "./sessionPlayer";
+import { LandmarkSession, RecordedFrame, sessionToCSV, sessionToJSON, toRecordedKeypoints } from "./sessionRecorder";
+
+// 笑顔と真顔を0.5秒ずつ切り替えながら、約30fpsで2秒間記録したセッション
+const recordFaceSession = (): LandmarkSession => {
+	const frames: RecordedFrame[] = Array.from({ length: 60 }, (_, i) => {
+		const time = i * 33;
+		const keypoints = createFaceKeypoints({ mouthCornerLift: Math.floor(time / 500) % 2 === 0 ? 0.1 : 0 });
+		const { blendshapes, headPose, emotion, iris } = analyzeFace(keypoints);
+		return {
+			time,
+			timestamp: 1700000000000 + time,
+			videoTime: null,
+			faces: [{ id: 1, keypoints: toRecordedKeypoints(keypoints), emotion, blendshapes, headPose, iris }],
+		};
+	});
+	return {
+		version: 1,
+		tab: "face",
+		source: "camera",
+		startedAt: new Date(1700000000000).toISOString(),
+		videoWidth: 640,
+		videoHeight: 480,
+		frames,
+	};
+};
+
+describe("parseLandmarkSession", () => {
+	it("書き出したJSONをそのまま読み込める", () => {
+		const json = sessionToJSON(recordFaceSession());
+		expect(parseLandmarkSession(json)).toEqual(JSON.parse(json));
+	});
+
+	it("IDや表情の要素を記録する前のファイルは値を補う", () => {
+		const session = recordFaceSession();
+		const legacy = {
+			...session,
+			frames: session.frames.map(frame => ({
+				...frame,
+				faces: frame.faces?.map(({ keypoints, emotion, iris }) => ({ keypoints, emotion, iris })),
+			})),
+		};
+		const parsed = parseLandmarkSession(JSON.stringify(legacy));
+		const face = parsed.frames[0].faces?.[0];
+		expect(face?.id).toBe(1);
+		expect(face?.blendshapes.smile).toBeCloseTo(session.frames[0].faces?.[0].blendshapes.smile ?? NaN, 1);
+		expect(face?.headPose.yaw).toBeCloseTo(0, 1);
+	});
+
+	it.each([
+		["JSONでないもの", "not json", "JSONとして読み込めませんでした"],
+		["バージョンが違うもの", JSON.stringify({ version: 2 }), "対応していない記録ファイルです"],
+		["フレームがないもの", JSON.stringify({ version: 1, tab: "face", frames: [] }), "記録ファイルにフレームがありません"],
+	])("%sは読み込まない", (_, text, message) => {
+		expect(() => parseLandmarkSession(text)).toThrow(message);
+	});
+});
+
+describe("findFrameAt", () => {
+	it("指定時刻以前で最も新しいフレームを返す", () => {
+		const session = recordFaceSession();
+		expect(findFrameAt(session, 100).time).toBe(99);
+		expect(findFrameAt(session, sessionDuration(session) + 1000).time).toBe(sessionDuration(session));
+	});
+});
+
+describe("renderRecordedFrame", () => {
+	it("独自の描画関数に記録したフレームのシーンとテーマを渡す", () => {
+		const session = recordFaceSession();
+		const renderer = vi.fn<OverlayRenderer>();
+		const ctx = {} as DrawingContext;
+		renderRecordedFrame(ctx, session, session.frames[0], overlayThemes.highContrast, renderer);
+
+		expect(renderer).toHaveBeenCalledWith(ctx, {
+			type: "face",
+			faces: session.frames[0].faces,
+		}, overlayThemes.highContrast);
+	});
+});
+
+describe("sessionToCSV", () => {
+	it("1キーポイント1行で書き出す", () => {
+		const keypoints = createHandKeypoints();
+		const session: LandmarkSession = {
+			...recordFaceSession(),
+			tab: "hand",
+			frames: [{
+				time: 0,
+				timestamp: 0,
+				videoTime: 1.5,
+				hands: [{ handedness: "Right", score: 0.9, keypoints, gesture: classifyHandGesture(keypoints).type }],
+			}],
+		};
+		const lines = sessionToCSV(session).trim().split("\n");
+		expect(lines).toHaveLength(1 + 21);
+		expect(lines[1]).toContain("open_palm");
+	});
+});
+
+describe("buildEmotionTimeline", () => {
+	it("1秒ごとに表情を数える", () => {
+		const timeline = buildEmotionTimeline(recordFaceSession().frames);
+		expect(timeline.buckets.map(bucket => bucket.start)).toEqual([0, 1000]);
+		expect(emotionDistribution(timeline).map(({ name }) => name).sort()).toEqual(["真面目", "笑顔"]);
+		const total = emotionDistribution(timeline).reduce((sum, { count }) => sum + count, 0);
+		expect(total).toBe(60);
+	});
+});
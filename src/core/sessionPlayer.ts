@@ -0,0 +1,72 @@
+import { computeBlendshapes } from "./facialExpression";
+import { estimateHeadPose } from "./headPose";
+import type { DrawingContext } from "./renderers";
+import { OverlayRenderer, recordedFrameScene, renderOverlayScene } from "./overlayScene";
+import { OverlayTheme, defaultOverlayTheme } from "./overlayTheme";
+import type { LandmarkSession, RecordedFrame } from "./sessionRecorder";
+
+// 再生速度の選択肢
+export const playbackSpeeds = [0.25, 0.5, 1, 2, 4];
+
+// エクスポートしたJSONを読み込む。形式が正しくない場合は例外を投げる
+export const parseLandmarkSession = (text: string): LandmarkSession => {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("JSONとして読み込めませんでした");
+	}
+
+	const session = data as Partial<LandmarkSession> | null;
+	if (!session || session.version !== 1) {
+		throw new Error("対応していない記録ファイルです");
+	}
+	if (!["hand", "face", "pose", "holistic"].includes(session.tab ?? "")) {
+		throw new Error("記録ファイルのタブの種類が不正です");
+	}
+	if (!Array.isArray(session.frames) || session.frames.length === 0) {
+		throw new Error("記録ファイルにフレームがありません");
+	}
+	// 顔のIDを記録する前のファイルは、フレーム内の順番をIDとして扱う
+	// 表情の各要素の強さや頭の向きを記録する前のファイルは、ランドマークから求め直す
+	for (const frame of session.frames) {
+		frame.faces?.forEach((face, i) => {
+			face.id ??= i + 1;
+			face.blendshapes ??= computeBlendshapes(face.keypoints);
+			face.headPose ??= estimateHeadPose(face.keypoints);
+		});
+	}
+	return session as LandmarkSession;
+};
+
+// セッションの長さ（ミリ秒）
+export const sessionDuration = (session: LandmarkSession) =>
+	session.frames[session.frames.length - 1].time;
+
+// 指定時刻に表示すべきフレーム（time以前で最も新しいフレーム）を二分探索で探す
+export const findFrameAt = (session: LandmarkSession, time: number): RecordedFrame => {
+	const { frames } = session;
+	let low = 0;
+	let high = frames.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (frames[mid].time <= time) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return frames[low];
+};
+
+// 記録した1フレームを、ライブ検出と同じ描画処理でキャンバスに描く
+// rendererを指定すると、標準の描画の代わりにその関数で描画する
+export const renderRecordedFrame = (
+	ctx: DrawingContext,
+	session: LandmarkSession,
+	frame: RecordedFrame,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene,
+) => {
+	renderer(ctx, recordedFrameScene(session, frame), theme);
+};
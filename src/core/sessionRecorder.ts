@@ -0,0 +1,188 @@
+import type { EmotionTimeline } from "./emotionTimeline";
+import type { FaceBlendshapes } from "./facialExpression";
+import type { HandGestureType } from "./handGesture";
+import type { HeadPose } from "./headPose";
+import type { IrisPosition, Keypoint, TabType } from "./types";
+
+export type HandResult = {
+	handedness: "Left" | "Right";
+	score: number;
+	keypoints: Keypoint[];
+	gesture: HandGestureType;
+};
+
+export type FaceResult = {
+	// フレーム間で同じ顔に割り当てられるID（1から）
+	id: number;
+	keypoints: Keypoint[];
+	emotion: string;
+	// 表情の各要素の強さ（0〜1）
+	blendshapes: FaceBlendshapes;
+	headPose: HeadPose;
+	iris: IrisPosition;
+};
+
+export type PoseResult = {
+	id: number;
+	score: number;
+	keypoints: Keypoint[];
+};
+
+export type RecordedFrame = {
+	// 記録開始からの経過時間（ミリ秒）
+	time: number;
+	// Date.now()
+	timestamp: number;
+	// 動画ファイルの再生位置（秒）。カメラの場合はnull
+	videoTime: number | null;
+	hands?: HandResult[];
+	faces?: FaceResult[];
+	poses?: PoseResult[];
+};
+
+export type LandmarkSession = {
+	version: 1;
+	tab: TabType;
+	source: "camera" | "file";
+	startedAt: string; // ISO 8601
+	videoWidth: number;
+	videoHeight: number;
+	frames: RecordedFrame[];
+	// 顔を記録した場合の、1秒ごとの表情の回数
+	emotionTimeline?: EmotionTimeline;
+};
+
+// ファイルサイズを抑えるため座標は小数点以下2桁、スコアは3桁に丸める
+const round = (value: number, digits: number) => {
+	const scale = 10 ** digits;
+	return Math.round(value * scale) / scale;
+};
+
+export const toRecordedKeypoints = (keypoints: Keypoint[]): Keypoint[] =>
+	keypoints.map(({ x, y, z, score, name }) => ({
+		x: round(x, 2),
+		y: round(y, 2),
+		...(z !== undefined && { z: round(z, 2) }),
+		...(score !== undefined && { score: round(score, 3) }),
+		...(name !== undefined && { name }),
+	}));
+
+export const sessionToJSON = (session: LandmarkSession) => JSON.stringify(session);
+
+const CSV_COLUMNS = [
+	"frame",
+	"time",
+	"timestamp",
+	"video_time",
+	"subject",
+	"handedness",
+	"gesture",
+	"face_id",
+	"pose_id",
+	"subject_score",
+	"emotion",
+	"smile",
+	"mouth_frown",
+	"jaw_open",
+	"brow_raise",
+	"brow_furrow",
+	"eye_blink_left",
+	"eye_blink_right",
+	"head_yaw",
+	"head_pitch",
+	"head_roll",
+	"iris_left",
+	"iris_right",
+	"iris_overall",
+	"keypoint_index",
+	"keypoint_name",
+	"x",
+	"y",
+	"z",
+	"keypoint_score",
+] as const;
+
+type CsvRow = Partial<Record<typeof CSV_COLUMNS[number], string | number | null>>;
+
+const escapeCsv = (value: string | number | null | undefined) => {
+	if (value === null || value === undefined) return "";
+	const text = String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 1キーポイント1行の縦持ち形式のCSVに変換する
+export const sessionToCSV = (session: LandmarkSession) => {
+	const lines = [CSV_COLUMNS.join(",")];
+
+	const pushKeypoints = (base: CsvRow, keypoints: Keypoint[]) => {
+		keypoints.forEach((kp, index) => {
+			const row: CsvRow = {
+				...base,
+				keypoint_index: index,
+				keypoint_name: kp.name ?? null,
+				x: kp.x,
+				y: kp.y,
+				z: kp.z ?? null,
+				keypoint_score: kp.score ?? null,
+			};
+			lines.push(CSV_COLUMNS.map(column => escapeCsv(row[column])).join(","));
+		});
+	};
+
+	session.frames.forEach((frame, frameIndex) => {
+		const base: CsvRow = {
+			frame: frameIndex,
+			time: frame.time,
+			timestamp: frame.timestamp,
+			video_time: frame.videoTime,
+		};
+		frame.hands?.forEach((hand, i) => pushKeypoints({
+			...base,
+			subject: i,
+			handedness: hand.handedness,
+			gesture: hand.gesture,
+			subject_score: hand.score,
+		}, hand.keypoints));
+		frame.faces?.forEach((face, i) => pushKeypoints({
+			...base,
+			subject: i,
+			face_id: face.id,
+			emotion: face.emotion,
+			smile: face.blendshapes.smile,
+			mouth_frown: face.blendshapes.mouthFrown,
+			jaw_open: face.blendshapes.jawOpen,
+			brow_raise: face.blendshapes.browRaise,
+			brow_furrow: face.blendshapes.browFurrow,
+			eye_blink_left: face.blendshapes.eyeBlinkLeft,
+			eye_blink_right: face.blendshapes.eyeBlinkRight,
+			head_yaw: face.headPose.yaw,
+			head_pitch: face.headPose.pitch,
+			head_roll: face.headPose.roll,
+			iris_left: face.iris.leftEye,
+			iris_right: face.iris.rightEye,
+			iris_overall: face.iris.overall,
+		}, face.keypoints));
+		frame.poses?.forEach((pose, i) => pushKeypoints({
+			...base,
+			subject: i,
+			pose_id: pose.id,
+			subject_score: pose.score,
+		}, pose.keypoints));
+	});
+
+	return lines.join("\n");
+};
+
+// 文字列やBlobをファイルとしてダウンロードさせる
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+};
+
+// ダウンロード時のファイル名（例: landmarks-face-2024-01-01T12-00-00）
+export const sessionFileName = (session: LandmarkSession) =>
+	`landmarks-${session.tab}-${session.startedAt.slice(0, 19).replace(/:/g, "-")}`;
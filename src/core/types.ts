@@ -0,0 +1,28 @@
+// "holistic" は手・顔・ポーズを同時に検出する
+export type TabType = "hand" | "face" | "pose" | "holistic";
+
+// 検出器に渡せる入力（動画、またはフレームを写したキャンバス）
+export type FrameInput = HTMLVideoElement | HTMLCanvasElement;
+
+// ホリスティック表示のレイヤーごとの表示状態
+export type HolisticLayers = {
+	pose: boolean;
+	face: boolean;
+	hand: boolean;
+};
+
+// 虹彩位置（視線方向）の検出結果
+export type IrisPosition = {
+	leftEye: string;
+	rightEye: string;
+	overall: string;
+};
+
+// 各モデルのキーポイントの共通部分
+export type Keypoint = {
+	x: number;
+	y: number;
+	z?: number;
+	score?: number;
+	name?: string;
+};
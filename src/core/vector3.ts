@@ -0,0 +1,17 @@
+import type { Keypoint } from "./types";
+
+export type Vector3 = [number, number, number];
+
+// zがないキーポイントはz = 0として扱う
+export const toVector3 = (kp: Keypoint): Vector3 => [kp.x, kp.y, kp.z ?? 0];
+export const subtract = (a: Vector3, b: Vector3): Vector3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+export const scale = (a: Vector3, s: number): Vector3 => [a[0] * s, a[1] * s, a[2] * s];
+export const dot = (a: Vector3, b: Vector3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+export const cross = (a: Vector3, b: Vector3): Vector3 => [
+	a[1] * b[2] - a[2] * b[1],
+	a[2] * b[0] - a[0] * b[2],
+	a[0] * b[1] - a[1] * b[0],
+];
+export const length = (a: Vector3) => Math.hypot(...a);
+export const normalize = (a: Vector3): Vector3 => scale(a, 1 / (length(a) || 1));
+export const midpoint = (a: Vector3, b: Vector3): Vector3 => scale([a[0] + b[0], a[1] + b[1], a[2] + b[2]], 0.5);
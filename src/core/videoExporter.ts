@@ -0,0 +1,79 @@
+// 書き出しに使う動画形式の候補（ブラウザが対応している最初のものを使う）
+const MIME_TYPE_CANDIDATES = [
+	"video/webm;codecs=vp9",
+	"video/webm;codecs=vp8",
+	"video/webm",
+];
+
+export const pickRecorderMimeType = () =>
+	MIME_TYPE_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? "";
+
+export type CompositeRecording = {
+	// 書き出しを終了して、録画した動画を返す
+	stop: () => Promise<Blob>;
+};
+
+// 動画フレームと検出結果のキャンバスを重ねた映像の録画を開始する
+export const startCompositeRecording = (
+	video: HTMLVideoElement,
+	overlay: HTMLCanvasElement,
+	fps = 30,
+): CompositeRecording => {
+	// 合成用のキャンバス（画面には表示しない）
+	const composite = document.createElement("canvas");
+	const ctx = composite.getContext("2d");
+	if (!ctx) {
+		throw new Error("合成用キャンバスを作成できませんでした");
+	}
+
+	// 非対応のブラウザや形式ではここで例外になるため、描画のループより先に作成する
+	const mimeType = pickRecorderMimeType();
+	const recorder = new MediaRecorder(composite.captureStream(fps), mimeType ? { mimeType } : undefined);
+
+	// 毎フレーム、動画の上に検出結果を重ねて描画
+	let frameId = 0;
+	const draw = () => {
+		// キャンバスサイズは検出結果のキャンバス（= 動画のサイズ）に合わせる
+		const width = overlay.width || video.videoWidth;
+		const height = overlay.height || video.videoHeight;
+		if (composite.width !== width || composite.height !== height) {
+			composite.width = width;
+			composite.height = height;
+		}
+		ctx.fillStyle = "black";
+		ctx.fillRect(0, 0, width, height);
+		if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+			ctx.drawImage(video, 0, 0, width, height);
+		}
+		ctx.drawImage(overlay, 0, 0, width, height);
+		frameId = requestAnimationFrame(draw);
+	};
+	draw();
+
+	const chunks: Blob[] = [];
+	recorder.ondataavailable = (event) => {
+		if (event.data.size > 0) {
+			chunks.push(event.data);
+		}
+	};
+	// 途中で止まってもそれまでの映像が残るよう1秒ごとにデータを受け取る
+	recorder.start(1000);
+
+	const finish = () => {
+		cancelAnimationFrame(frameId);
+		recorder.stream.getTracks().forEach(track => track.stop());
+		return new Blob(chunks, { type: mimeType || "video/webm" });
+	};
+
+	return {
+		stop: () => new Promise<Blob>((resolve) => {
+			// エラーなどで既に止まっている場合はonstopが呼ばれないため、それまでのデータを返す
+			if (recorder.state === "inactive") {
+				resolve(finish());
+				return;
+			}
+			recorder.onstop = () => resolve(finish());
+			recorder.stop();
+		}),
+	};
+};
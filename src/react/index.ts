@@ -0,0 +1,14 @@
+// coreの検出・描画をReactのフックとして使うための層
+// 結果の型やオプションはcoreからインポートする
+
+export { useVideo } from "./useVideo";
+export { useModel } from "./useModel";
+export { useHandpose } from "./useHandpose";
+export { useFaceDetection } from "./useFaceDetection";
+export { usePoseDetection } from "./usePoseDetection";
+export { useHolisticDetection } from "./useHolisticDetection";
+export type { HolisticAnalyzers } from "./useHolisticDetection";
+export { useSessionRecorder } from "./useSessionRecorder";
+export { useSessionPlayer } from "./useSessionPlayer";
+export { useBatchAnalysis } from "./useBatchAnalysis";
+export { useVideoExport } from "./useVideoExport";
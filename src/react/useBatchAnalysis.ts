@@ -0,0 +1,111 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { LandmarkSession, RecordedFrame } from "../core/sessionRecorder";
+import { TabType } from "../core/types";
+import { resizeCanvas } from "../core/renderers";
+import { OverlayRenderer, renderOverlayScene } from "../core/overlayScene";
+import { OverlayTheme, defaultOverlayTheme } from "../core/overlayTheme";
+import { renderRecordedFrame } from "../core/sessionPlayer";
+import { BatchProgress, analyzeVideo, estimateFrameRate } from "../core/batchAnalysis";
+
+// 動画ファイルを先頭から1フレームずつ解析し、全フレームの結果をセッションとしてまとめる
+export const useBatchAnalysis = (
+	videoRef: RefObject<HTMLVideoElement>,
+	canvasRef: RefObject<HTMLCanvasElement>,
+	videoFile: File | null,
+	activeTab: TabType,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene,
+) => {
+	const [isRunning, setIsRunning] = useState(false);
+	const [progress, setProgress] = useState<BatchProgress | null>(null);
+	// 解析が終わった全フレームの結果
+	const [result, setResult] = useState<LandmarkSession | null>(null);
+	const abortRef = useRef<AbortController | null>(null);
+	// 解析の途中でテーマや描画関数を切り替えても、次のフレームから反映する
+	const themeRef = useRef(theme);
+	const rendererRef = useRef(renderer);
+	useEffect(() => {
+		themeRef.current = theme;
+		rendererRef.current = renderer;
+	});
+
+	const startBatch = useCallback(async (
+		fpsOption: number | "all",
+		analyzeFrame: (video: HTMLVideoElement) => Promise<Pick<RecordedFrame, "hands" | "faces" | "poses">>,
+	) => {
+		const video = videoRef.current;
+		if (!video || !Number.isFinite(video.duration)) return;
+
+		const controller = new AbortController();
+		abortRef.current = controller;
+		setIsRunning(true);
+		setResult(null);
+		setProgress(null);
+
+		try {
+			const fps = fpsOption === "all" ? await estimateFrameRate(video) : fpsOption;
+			console.log("一括解析開始:", fps, "fps");
+			const session: LandmarkSession = {
+				version: 1,
+				tab: activeTab,
+				source: "file",
+				startedAt: new Date().toISOString(),
+				videoWidth: video.videoWidth,
+				videoHeight: video.videoHeight,
+				frames: [],
+			};
+			if (canvasRef.current) {
+				resizeCanvas(canvasRef.current, video.videoWidth, video.videoHeight);
+			}
+			const ctx = canvasRef.current?.getContext("2d");
+
+			session.frames = await analyzeVideo(video, fps, analyzeFrame, {
+				signal: controller.signal,
+				onFrame: (frame, frameProgress) => {
+					setProgress(frameProgress);
+					// 解析中のフレームの結果をその場で描画
+					if (ctx) {
+						renderRecordedFrame(ctx, session, frame, themeRef.current, rendererRef.current);
+					}
+				},
+			});
+			setResult(session);
+		} catch (error) {
+			if (error instanceof DOMException && error.name === "AbortError") {
+				console.log("一括解析を中止しました");
+			} else {
+				console.error("一括解析エラー:", error);
+				alert("一括解析中にエラーが発生しました");
+			}
+		} finally {
+			abortRef.current = null;
+			setIsRunning(false);
+			// 通常のループ再生に戻す
+			video.currentTime = 0;
+			video.play().catch(err => {
+				console.error("動画再生エラー:", err);
+			});
+		}
+	}, [videoRef, canvasRef, activeTab]);
+
+	const cancelBatch = useCallback(() => {
+		abortRef.current?.abort();
+	}, []);
+
+	// タブや動画を切り替えたら解析を中止して結果を破棄
+	useEffect(() => {
+		return () => {
+			abortRef.current?.abort();
+			setResult(null);
+			setProgress(null);
+		};
+	}, [videoFile, activeTab]);
+
+	return {
+		isRunning,
+		progress,
+		result,
+		startBatch,
+		cancelBatch,
+	}
+};
@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDetector, toFaces } from "../test/fakeDetector";
+import { createFaceKeypoints } from "../test/fixtures/face";
+import { createFakeVideo, installFakeCanvas } from "../test/fakeVideo";
+import { defaultAttentionSettings } from "../core/attentionMonitor";
+import type { FrameSchedulerOptions } from "../core/frameScheduler";
+import type { ModelConfig } from "../core/modelManager";
+import type { OverlayRenderer } from "../core/overlayScene";
+import { defaultOverlayTheme } from "../core/overlayTheme";
+import type { FaceResult } from "../core/sessionRecorder";
+import { useFaceDetection } from "./useFaceDetection";
+
+// モデルを読み込む代わりに偽の検出器を返す（TensorFlow.jsも読み込まない）
+const { loadModel } = vi.hoisted(() => ({ loadModel: vi.fn() }));
+vi.mock("../core/modelManager", () => ({
+	loadModel,
+	modelConfigKey: (key: string, config: unknown) => JSON.stringify({ key, config }),
+	modelNames: { hand: "手", face: "顔", pose: "ポーズ" },
+}));
+
+const schedulerOptions: FrameSchedulerOptions = { maxFps: null };
+
+const modelConfig = (emotionWindow: number): ModelConfig<"face"> => ({
+	runtime: "tfjs",
+	backend: "cpu",
+	options: { maxFaces: 3, emotionWindow },
+});
+
+const smile = createFaceKeypoints({ mouthCornerLift: 0.1 });
+const neutral = createFaceKeypoints();
+
+// 偽の検出器と動画でフックを動かし、モデルを読み込み終わるまで待つ
+// 戻り値のdetectFrameでフレームを1つずつ進められる
+const renderFaceDetection = async (
+	frames: ReturnType<typeof toFaces>[],
+	emotionWindow = 1,
+	renderer?: OverlayRenderer,
+) => {
+	const fake = createFakeDetector("face", frames);
+	loadModel.mockResolvedValue(fake.detector);
+	const { video, nextFrame } = createFakeVideo();
+	const canvas = document.createElement("canvas");
+	const onResults = vi.fn<(faces: FaceResult[]) => void>();
+	const config = modelConfig(emotionWindow);
+	const hook = renderHook(() => useFaceDetection(
+		{ current: video },
+		{ current: canvas },
+		true,
+		config,
+		schedulerOptions,
+		null,
+		defaultAttentionSettings,
+		onResults,
+		undefined,
+		renderer,
+	));
+	await waitFor(() => expect(loadModel).toHaveBeenCalled());
+	await act(() => loadModel.mock.results[0].value);
+
+	// 次のフレームを検出し、結果が反映されるまで待つ
+	const detectFrame = async () => {
+		const calls = fake.calls;
+		await act(async () => nextFrame());
+		await waitFor(() => expect(onResults).toHaveBeenCalledTimes(calls + 1));
+	};
+	return { ...hook, canvas, onResults, detectFrame };
+};
+
+describe("useFaceDetection", () => {
+	beforeEach(() => {
+		installFakeCanvas();
+		loadModel.mockReset();
+	});
+
+	it("設定が渡されたらモデルを読み込む", async () => {
+		const { result } = await renderFaceDetection([[]]);
+		expect(loadModel).toHaveBeenCalledWith("face", modelConfig(1), expect.any(Function));
+		expect(result.current.isLoading).toBe(false);
+	});
+
+	it("検出した顔にIDを割り当てて表情と虹彩位置を判定する", async () => {
+		const { result, canvas, detectFrame, onResults } = await renderFaceDetection([toFaces([smile])]);
+		await detectFrame();
+
+		expect(result.current.faces).toHaveLength(1);
+		expect(result.current.faces[0]).toMatchObject({ id: 1, emotion: "笑顔 😊" });
+		expect(onResults).toHaveBeenLastCalledWith(result.current.faces);
+		// キャンバスを動画の大きさに合わせる
+		expect([canvas.width, canvas.height]).toEqual([640, 480]);
+	});
+
+	it("同じ顔には続けて同じIDを割り当て、IDの昇順に並べる", async () => {
+		const left = createFaceKeypoints({}, { centerX: 160 });
+		const right = createFaceKeypoints({}, { centerX: 480 });
+		const { result, detectFrame } = await renderFaceDetection([toFaces([left, right]), toFaces([right, left])]);
+		await detectFrame();
+		const first = result.current.faces.map(face => [face.id, face.keypoints[1].x]);
+		await detectFrame();
+		expect(result.current.faces.map(face => [face.id, face.keypoints[1].x])).toEqual(first);
+	});
+
+	it("emotionWindowのフレーム数で表情をならす", async () => {
+		const frames = [toFaces([neutral]), toFaces([neutral]), toFaces([smile]), toFaces([neutral])];
+		const { result, detectFrame } = await renderFaceDetection(frames, 5);
+		const emotions: string[] = [];
+		for (let i = 0; i < frames.length; i++) {
+			await detectFrame();
+			emotions.push(result.current.faces[0].emotion);
+		}
+		expect(emotions).toEqual(Array(4).fill("真面目 😐"));
+	});
+
+	it("最もIDの小さい顔の補正前の値を購読できる", async () => {
+		const { result, detectFrame } = await renderFaceDetection([toFaces([neutral])]);
+		const listener = vi.fn();
+		const unsubscribe = result.current.subscribeSamples(listener);
+		await detectFrame();
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener.mock.calls[0][0].iris.rightEye.y).toBeCloseTo(0.5);
+		unsubscribe();
+		await detectFrame();
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it("独自の描画関数を指定するとその関数で描画する", async () => {
+		const renderer = vi.fn<OverlayRenderer>();
+		const { canvas, detectFrame } = await renderFaceDetection([toFaces([smile])], 1, renderer);
+		await detectFrame();
+
+		expect(renderer).toHaveBeenCalledTimes(1);
+		const [ctx, scene, theme] = renderer.mock.calls[0];
+		expect(ctx.canvas).toBe(canvas);
+		expect(scene).toMatchObject({ type: "face", faces: [{ id: 1, emotion: "笑顔 😊" }] });
+		expect(theme).toBe(defaultOverlayTheme);
+	});
+
+	it("顔が見つからなければ空の結果を返す", async () => {
+		const { result, detectFrame } = await renderFaceDetection([[]]);
+		await detectFrame();
+		expect(result.current.faces).toEqual([]);
+		expect(result.current.attention?.alerts).toEqual([]);
+	});
+});
@@ -0,0 +1,202 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { analyzeFace } from "../core/faceAnalysis";
+import {
+	AttentionInput,
+	AttentionMetrics,
+	AttentionSettings,
+	computeEyeAspectRatio,
+	computeMouthAspectRatio,
+	initialAttentionState,
+	updateAttention,
+} from "../core/attentionMonitor";
+import { FaceCalibration, FaceSample } from "../core/calibration";
+import { FaceTrackerState, initialFaceTrackerState, updateFaceTracks } from "../core/faceTracker";
+import { initialEmotionSmoothingState, smoothEmotions } from "../core/emotionSmoothing";
+import { FaceResult, toRecordedKeypoints } from "../core/sessionRecorder";
+import { FrameInput } from "../core/types";
+import { presentOverlay } from "../core/detectionWorkerClient";
+import { OverlayRenderer, renderOverlayScene } from "../core/overlayScene";
+import { OverlayTheme, defaultOverlayTheme } from "../core/overlayTheme";
+import { ModelConfig } from "../core/modelManager";
+import { FrameSchedulerOptions, startFrameScheduler } from "../core/frameScheduler";
+import { useModel } from "./useModel";
+
+// 顔を検出して、表情・虹彩位置・頭の向きを判定して描画する
+// 最もIDの小さい顔については、まばたき・眠気・あくび・よそ見も監視する
+export const useFaceDetection = (
+	videoRef: RefObject<HTMLVideoElement>,
+	canvasRef: RefObject<HTMLCanvasElement>,
+	isVideoReady: boolean,
+	modelConfig: ModelConfig<"face"> | null, // nullの間はモデルを読み込まない
+	schedulerOptions: FrameSchedulerOptions,
+	calibration: FaceCalibration | null, // nullなら既定の基準で判定する
+	attentionSettings: AttentionSettings,
+	onResults?: (faces: FaceResult[]) => void,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene, // 独自の描画関数（指定すると描画はメインスレッドで行う）
+) => {
+	const { model, isLoading, loadProgress } = useModel("face", modelConfig);
+	// 表情の判定をならすフレーム数（検出器の作り直しは不要なのでrefで参照する）
+	const emotionWindow = modelConfig?.options.emotionWindow ?? 1;
+	// Workerで推論する場合は描画もWorkerのOffscreenCanvasで行う
+	const inWorker = modelConfig?.worker ?? false;
+	// 検出中の顔ごとの表情と虹彩位置（IDの昇順）
+	const [faces, setFaces] = useState<FaceResult[]>([]);
+	// フレーム間で同じ顔に同じIDを割り当てるためのトラッカーの状態
+	const trackerRef = useRef(initialFaceTrackerState);
+	// 顔ごとの直近の表情の履歴
+	const emotionSmoothingRef = useRef(initialEmotionSmoothingState);
+	const calibrationRef = useRef(calibration);
+	const attentionSettingsRef = useRef(attentionSettings);
+	const emotionWindowRef = useRef(emotionWindow);
+	useEffect(() => {
+		calibrationRef.current = calibration;
+		attentionSettingsRef.current = attentionSettings;
+		emotionWindowRef.current = emotionWindow;
+	});
+	// まばたき・眠気・あくび・よそ見の監視の状態と、最新の指標
+	const attentionStateRef = useRef(initialAttentionState);
+	const [attention, setAttention] = useState<AttentionMetrics | null>(null);
+	// 補正前の値の購読者（キャリブレーション用）
+	const sampleListenersRef = useRef(new Set<(sample: FaceSample) => void>());
+
+	// 最もIDの小さい顔の補正前の値を購読する。戻り値の関数で購読を解除する
+	const subscribeSamples = useCallback((listener: (sample: FaceSample) => void) => {
+		const listeners = sampleListenersRef.current;
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+		};
+	}, []);
+
+	useEffect(() => {
+		const detect = async () => {
+			if (!model) return;
+			if (!videoRef.current) return;
+			if (!canvasRef.current) return;
+			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
+			
+			try {
+				// 動画のサイズチェック
+				if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
+					console.log("動画サイズが無効です。スキップします。");
+					return;
+				}
+				
+				const video = videoRef.current;
+				const canvas = canvasRef.current;
+				const inferenceStart = performance.now();
+				const faces = await model.estimateFaces(video);
+				const inferenceEnd = performance.now();
+
+				// 前のフレームの顔と対応付けてIDを決める
+				const detected = faces.filter(face => face.keypoints.length > 0);
+				const tracked = updateFaceTracks(trackerRef.current, detected.map(face => face.box), Date.now());
+				trackerRef.current = tracked.state;
+
+				// 顔ごとに表情と虹彩位置を検出
+				const analyzed = detected
+					.map((face, i) => ({ id: tracked.ids[i], keypoints: face.keypoints, ...analyzeFace(face.keypoints, calibrationRef.current) }))
+					.sort((a, b) => a.id - b.id);
+
+				// 表情が1フレームごとに揺れないよう、直近のフレームの多数決でならす
+				const smoothed = smoothEmotions(emotionSmoothingRef.current, analyzed, emotionWindowRef.current);
+				emotionSmoothingRef.current = smoothed.state;
+				analyzed.forEach((face, i) => {
+					face.emotion = smoothed.emotions[i];
+				});
+
+				// 最もIDの小さい顔のまばたき・あくび・よそ見を時間を通して監視する
+				const first = analyzed[0];
+				let attentionInput: AttentionInput = null;
+				if (first) {
+					const { left, right } = computeEyeAspectRatio(first.keypoints);
+					attentionInput = {
+						ear: (left + right) / 2,
+						mar: computeMouthAspectRatio(first.keypoints),
+						headPose: first.headPose,
+					};
+				}
+				const attentionResult = updateAttention(
+					attentionStateRef.current,
+					attentionInput,
+					Date.now(),
+					attentionSettingsRef.current,
+				);
+				attentionStateRef.current = attentionResult.state;
+				setAttention(attentionResult.metrics);
+				// 眠気は1フレームではなく、一定期間で目を閉じていた割合から判定する
+				if (first && attentionResult.metrics.alerts.includes("drowsy")) {
+					first.emotion = "眠い 😴";
+				}
+
+				// 顔が検出されない場合は、顔が見つからないメッセージを画面中央に表示する
+				presentOverlay(canvas, video.videoWidth, video.videoHeight, {
+					type: "face",
+					faces: analyzed.map(({ id, keypoints, emotion, headPose, iris }) => ({ id, keypoints, emotion, headPose, iris })),
+				}, theme, inWorker, renderer);
+
+				const faceResults: FaceResult[] = analyzed.map(({ id, keypoints, emotion, blendshapes, headPose, iris }) => ({
+					id,
+					keypoints: toRecordedKeypoints(keypoints),
+					emotion,
+					blendshapes,
+					headPose,
+					iris,
+				}));
+
+				setFaces(faceResults);
+				if (first?.sample) {
+					for (const listener of sampleListenersRef.current) {
+						listener(first.sample);
+					}
+				}
+				onResults?.(faceResults);
+				return { inference: inferenceEnd - inferenceStart, render: performance.now() - inferenceEnd };
+			} catch (error) {
+				console.error("顔の検出エラー:", error);
+			}
+		};
+
+		const video = videoRef.current;
+		if (!video) return;
+		// 動画の新しいフレームごとに検出する（前の検出が終わるまで次の検出は始めない）
+		const scheduler = startFrameScheduler(video, detect, schedulerOptions);
+		return () => scheduler.stop();
+	}, [model, videoRef, canvasRef, isVideoReady, schedulerOptions, inWorker, theme, renderer, onResults]);
+
+	// 1フレーム分を解析して結果を返す（描画はしない。一括解析用）
+	// ライブ検出とは別のトラッカーの状態を受け取り、更新後の状態を返す
+	const analyzeFrame = async (
+		input: FrameInput,
+		tracker: FaceTrackerState,
+		timestamp: number,
+	): Promise<{ faces: FaceResult[]; tracker: FaceTrackerState }> => {
+		if (!model) return { faces: [], tracker };
+		const detected = (await model.estimateFaces(input)).filter(face => face.keypoints.length > 0);
+		const tracked = updateFaceTracks(tracker, detected.map(face => face.box), timestamp);
+		return {
+			faces: detected.map((face, i) => {
+				const { blendshapes, headPose, emotion, iris } = analyzeFace(face.keypoints, calibrationRef.current);
+				return {
+					id: tracked.ids[i],
+					keypoints: toRecordedKeypoints(face.keypoints),
+					emotion,
+					blendshapes,
+					headPose,
+					iris,
+				};
+			}),
+			tracker: tracked.state,
+		};
+	};
+
+	return {
+		isLoading,
+		loadProgress,
+		faces,
+		attention,
+		subscribeSamples,
+		analyzeFrame,
+	}
+};
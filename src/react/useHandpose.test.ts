@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDetector, toHands } from "../test/fakeDetector";
+import { createHandKeypoints } from "../test/fixtures/hand";
+import { createFakeVideo, installFakeCanvas } from "../test/fakeVideo";
+import type { DynamicGestureEvent } from "../core/dynamicGesture";
+import type { FrameSchedulerOptions } from "../core/frameScheduler";
+import type { ModelConfig } from "../core/modelManager";
+import type { HandResult } from "../core/sessionRecorder";
+import { useHandpose } from "./useHandpose";
+
+// モデルを読み込む代わりに偽の検出器を返す（TensorFlow.jsも読み込まない）
+const { loadModel } = vi.hoisted(() => ({ loadModel: vi.fn() }));
+vi.mock("../core/modelManager", () => ({
+	loadModel,
+	modelConfigKey: (key: string, config: unknown) => JSON.stringify({ key, config }),
+	modelNames: { hand: "手", face: "顔", pose: "ポーズ" },
+}));
+
+const schedulerOptions: FrameSchedulerOptions = { maxFps: null };
+
+const modelConfig = (minScore: number): ModelConfig<"hand"> => ({
+	runtime: "tfjs",
+	backend: "cpu",
+	options: { modelType: "full", maxHands: 2, minScore },
+});
+
+const fist = createHandKeypoints({ thumb: "curled", index: "curled", middle: "curled", ring: "curled", pinky: "curled" });
+
+// 偽の検出器と動画でフックを動かし、モデルを読み込み終わるまで待つ
+// 戻り値のdetectFrameでフレームを1つずつ進められる
+const renderHandpose = async (frames: ReturnType<typeof toHands>[], minScore = 0) => {
+	const fake = createFakeDetector("hand", frames);
+	loadModel.mockResolvedValue(fake.detector);
+	const { video, nextFrame } = createFakeVideo();
+	const canvas = document.createElement("canvas");
+	const onResults = vi.fn<(hands: HandResult[]) => void>();
+	const config = modelConfig(minScore);
+	const hook = renderHook(() => useHandpose(
+		{ current: video },
+		{ current: canvas },
+		true,
+		config,
+		schedulerOptions,
+		onResults,
+	));
+	await waitFor(() => expect(loadModel).toHaveBeenCalled());
+	await act(() => loadModel.mock.results[0].value);
+
+	// 次のフレームを検出し、結果が反映されるまで待つ
+	const detectFrame = async () => {
+		const calls = fake.calls;
+		await act(async () => nextFrame());
+		await waitFor(() => expect(onResults).toHaveBeenCalledTimes(calls + 1));
+	};
+	return { ...hook, canvas, onResults, detectFrame };
+};
+
+// 手首のx座標の列から、右手を横に動かすフレームの列を作る
+const movingHand = (wristXs: number[]) =>
+	wristXs.map(wristX => toHands([{ keypoints: createHandKeypoints({}, { wristX }), handedness: "Right" }]));
+
+describe("useHandpose", () => {
+	beforeEach(() => {
+		installFakeCanvas();
+		loadModel.mockReset();
+	});
+
+	it("検出した手ごとに静止したジェスチャーを判定する", async () => {
+		const { result, canvas, detectFrame, onResults } = await renderHandpose([
+			toHands([{ keypoints: fist, handedness: "Right" }, { keypoints: createHandKeypoints(), handedness: "Left" }]),
+		]);
+		await detectFrame();
+
+		expect(result.current.gestures.map(({ handedness, gesture }) => [handedness, gesture.type])).toEqual([
+			["Right", "fist"],
+			["Left", "open_palm"],
+		]);
+		expect(onResults.mock.calls[0][0].map(hand => hand.gesture)).toEqual(["fist", "open_palm"]);
+		expect([canvas.width, canvas.height]).toEqual([640, 480]);
+	});
+
+	it("minScoreを下回る手は無視する", async () => {
+		const { result, detectFrame } = await renderHandpose([
+			toHands([{ keypoints: fist, handedness: "Right", score: 0.4 }, { keypoints: fist, handedness: "Left" }]),
+		], 0.5);
+		await detectFrame();
+		expect(result.current.gestures.map(gesture => gesture.handedness)).toEqual(["Left"]);
+	});
+
+	it("手を横に動かすと動きのジェスチャーを購読者に一度だけ通知する", async () => {
+		const frames = movingHand([200, 240, 280, 320, 360, 400, 440, 480]);
+		const { result, detectFrame } = await renderHandpose(frames);
+		const listener = vi.fn<(event: DynamicGestureEvent) => void>();
+		result.current.subscribeDynamicGesture(listener);
+		for (let i = 0; i < frames.length; i++) {
+			await detectFrame();
+		}
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener.mock.calls[0][0]).toMatchObject({ type: "swipe_right", handedness: "Right" });
+		expect(result.current.dynamicGestures.map(event => event.type)).toEqual(["swipe_right"]);
+	});
+
+	it("購読を解除したら通知しない", async () => {
+		const frames = movingHand([200, 240, 280, 320, 360, 400, 440, 480]);
+		const { result, detectFrame } = await renderHandpose(frames);
+		const listener = vi.fn();
+		const unsubscribe = result.current.subscribeDynamicGesture(listener);
+		unsubscribe();
+		for (let i = 0; i < frames.length; i++) {
+			await detectFrame();
+		}
+		expect(listener).not.toHaveBeenCalled();
+		expect(result.current.dynamicGestures).toHaveLength(1);
+	});
+});
@@ -0,0 +1,165 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { HandGesture, classifyHandGesture } from "../core/handGesture";
+import {
+	DynamicGestureEvent,
+	HandHistoryEntry,
+	DYNAMIC_GESTURE_DISPLAY_DURATION,
+	appendHandHistory,
+	recognizeDynamicGesture,
+	toDynamicGestureLabel,
+} from "../core/dynamicGesture";
+import { HandResult, toRecordedKeypoints } from "../core/sessionRecorder";
+import { FrameInput } from "../core/types";
+import { OverlayRenderer, OverlayScene, renderOverlayScene } from "../core/overlayScene";
+import { OverlayTheme, defaultOverlayTheme } from "../core/overlayTheme";
+import { presentOverlay } from "../core/detectionWorkerClient";
+import { ModelConfig } from "../core/modelManager";
+import { FrameSchedulerOptions, startFrameScheduler } from "../core/frameScheduler";
+import { useModel } from "./useModel";
+
+// 手を検出して、キーポイントと静止・動きのジェスチャーを描画する
+// modelConfigがnullの間はモデルを読み込まず、onResultsにはフレームごとの検出結果を渡す
+export const useHandpose = (
+	videoRef: RefObject<HTMLVideoElement>,
+	canvasRef: RefObject<HTMLCanvasElement>,
+	isVideoReady: boolean,
+	modelConfig: ModelConfig<"hand"> | null, // nullの間はモデルを読み込まない
+	schedulerOptions: FrameSchedulerOptions,
+	onResults?: (hands: HandResult[]) => void,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene, // 独自の描画関数（指定すると描画はメインスレッドで行う）
+) => {
+	const { model, isLoading, loadProgress } = useModel("hand", modelConfig);
+	const minScore = modelConfig?.options.minScore ?? 0;
+	// Workerで推論する場合は描画もWorkerのOffscreenCanvasで行う
+	const inWorker = modelConfig?.worker ?? false;
+	const [gestures, setGestures] = useState<{ handedness: "Left" | "Right"; gesture: HandGesture }[]>([]);
+	// 直近に発生した動きのジェスチャー（新しい順）
+	const [dynamicGestures, setDynamicGestures] = useState<DynamicGestureEvent[]>([]);
+	const dynamicGesturesRef = useRef<DynamicGestureEvent[]>([]);
+	// 手ごとのキーポイント履歴
+	const historyRef = useRef(new Map<"Left" | "Right", HandHistoryEntry[]>());
+	// 動きのジェスチャーの購読者
+	const listenersRef = useRef(new Set<(event: DynamicGestureEvent) => void>());
+
+	// 動きのジェスチャーを購読する。戻り値の関数で購読を解除する
+	const subscribeDynamicGesture = useCallback((listener: (event: DynamicGestureEvent) => void) => {
+		const listeners = listenersRef.current;
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+		};
+	}, []);
+
+	useEffect(() => {
+		const detect = async () => {
+			if (!model) return;
+			if (!videoRef.current) return;
+			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
+			
+			try {
+				// 動画のサイズチェック
+				if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
+					console.log("動画サイズが無効です。スキップします。");
+					return;
+				}
+				
+				const video = videoRef.current;
+				const inferenceStart = performance.now();
+				const hands = (await model.estimateHands(video))
+					.filter(hand => hand.score >= minScore);
+				const inferenceEnd = performance.now();
+
+				if (!canvasRef.current) return;
+
+				// 各手のジェスチャーを分類
+				const detectedGestures = hands.map(hand => ({
+					handedness: hand.handedness,
+					gesture: classifyHandGesture(hand.keypoints),
+				}));
+				setGestures(detectedGestures);
+				onResults?.(hands.map((hand, i) => ({
+					handedness: hand.handedness,
+					score: hand.score,
+					keypoints: toRecordedKeypoints(hand.keypoints),
+					gesture: detectedGestures[i].gesture.type,
+				})));
+
+				// 手ごとに履歴を更新して動きのジェスチャーを認識
+				const now = Date.now();
+				const history = historyRef.current;
+				const newEvents: DynamicGestureEvent[] = [];
+				for (const hand of hands) {
+					const handHistory = appendHandHistory(
+						history.get(hand.handedness) ?? [],
+						{ timestamp: now, keypoints: hand.keypoints },
+					);
+					const recognized = recognizeDynamicGesture(handHistory);
+					if (recognized) {
+						newEvents.push({
+							...recognized,
+							label: toDynamicGestureLabel(recognized.type),
+							handedness: hand.handedness,
+							timestamp: now,
+						});
+						// 同じ動きで連続して発火しないよう履歴をリセット
+						history.set(hand.handedness, []);
+					} else {
+						history.set(hand.handedness, handHistory);
+					}
+				}
+				if (newEvents.length > 0) {
+					for (const event of newEvents) {
+						listenersRef.current.forEach(listener => listener(event));
+					}
+					dynamicGesturesRef.current = [...newEvents, ...dynamicGesturesRef.current].slice(0, 10);
+					setDynamicGestures(dynamicGesturesRef.current);
+				}
+
+				// 検出された各手について、直近の動きのジェスチャーと合わせて描画する
+				const scene: OverlayScene = {
+					type: "hand",
+					hands: hands.map((hand, i) => ({
+						keypoints: hand.keypoints,
+						handedness: hand.handedness,
+						gesture: detectedGestures[i].gesture,
+						dynamicLabel: dynamicGesturesRef.current.find(e =>
+							e.handedness === hand.handedness && now - e.timestamp < DYNAMIC_GESTURE_DISPLAY_DURATION
+						)?.label ?? null,
+					})),
+				};
+				presentOverlay(canvasRef.current, video.videoWidth, video.videoHeight, scene, theme, inWorker, renderer);
+				return { inference: inferenceEnd - inferenceStart, render: performance.now() - inferenceEnd };
+			} catch (error) {
+				console.error("手の検出エラー:", error);
+			}
+		};
+
+		const video = videoRef.current;
+		if (!video) return;
+		// 動画の新しいフレームごとに検出する（前の検出が終わるまで次の検出は始めない）
+		const scheduler = startFrameScheduler(video, detect, schedulerOptions);
+		return () => scheduler.stop();
+	}, [model, videoRef, canvasRef, isVideoReady, schedulerOptions, minScore, inWorker, theme, renderer, onResults]);
+
+	// 1フレーム分を解析して結果を返す（描画はしない。一括解析用）
+	const analyzeFrame = async (input: FrameInput): Promise<HandResult[]> => {
+		if (!model) return [];
+		const hands = (await model.estimateHands(input)).filter(hand => hand.score >= minScore);
+		return hands.map(hand => ({
+			handedness: hand.handedness,
+			score: hand.score,
+			keypoints: toRecordedKeypoints(hand.keypoints),
+			gesture: classifyHandGesture(hand.keypoints).type,
+		}));
+	};
+
+	return {
+		isLoading,
+		loadProgress,
+		gestures,
+		dynamicGestures,
+		subscribeDynamicGesture,
+		analyzeFrame,
+	}
+};
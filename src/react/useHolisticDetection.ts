@@ -0,0 +1,123 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { FaceTrackerState, initialFaceTrackerState } from "../core/faceTracker";
+import { PoseTrackerState, initialPoseTrackerState } from "../core/poseTracker";
+import {
+	FaceResult,
+	HandResult,
+	PoseResult,
+	RecordedFrame,
+} from "../core/sessionRecorder";
+import { FrameInput, HolisticLayers } from "../core/types";
+import { resizeCanvas } from "../core/renderers";
+import { presentOverlay } from "../core/detectionWorkerClient";
+import { OverlayRenderer, renderOverlayScene } from "../core/overlayScene";
+import { OverlayTheme, defaultOverlayTheme } from "../core/overlayTheme";
+import { FrameSchedulerOptions, startFrameScheduler } from "../core/frameScheduler";
+
+// ホリスティック表示で使う各検出器の1フレーム解析関数
+export type HolisticAnalyzers = {
+	hands: (input: FrameInput) => Promise<HandResult[]>;
+	faces: (
+		input: FrameInput,
+		tracker: FaceTrackerState,
+		timestamp: number,
+	) => Promise<{ faces: FaceResult[]; tracker: FaceTrackerState }>;
+	poses: (
+		input: FrameInput,
+		tracker: PoseTrackerState,
+		timestamp: number,
+	) => Promise<{ poses: PoseResult[]; tracker: PoseTrackerState }>;
+};
+
+// 手・顔・ポーズの検出器を同じフレームに対して実行し、レイヤーとして重ねて描画する
+// 非表示のレイヤーは検出も行わない
+export const useHolisticDetection = (
+	videoRef: RefObject<HTMLVideoElement>,
+	canvasRef: RefObject<HTMLCanvasElement>,
+	isVideoReady: boolean,
+	schedulerOptions: FrameSchedulerOptions,
+	layers: HolisticLayers,
+	poseMinScore: number,
+	inWorker: boolean, // trueなら描画をWorkerのOffscreenCanvasで行う
+	analyzers: HolisticAnalyzers,
+	onResults?: (results: Pick<RecordedFrame, "hands" | "faces" | "poses">) => void,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene, // 独自の描画関数（指定すると描画はメインスレッドで行う）
+) => {
+	// 各検出器の解析関数は描画のたびに作り直されるため、最新のものを参照する
+	const analyzersRef = useRef(analyzers);
+	useEffect(() => {
+		analyzersRef.current = analyzers;
+	});
+	const trackerRef = useRef(initialPoseTrackerState);
+	const faceTrackerRef = useRef(initialFaceTrackerState);
+	// 3つの検出器に同じフレームを渡すためのキャンバス
+	const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+	// レイヤーごとの検出数
+	const [counts, setCounts] = useState({ hands: 0, faces: 0, poses: 0 });
+
+	useEffect(() => {
+		const detect = async () => {
+			const video = videoRef.current;
+			const canvas = canvasRef.current;
+			if (!video || !canvas) return;
+			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
+			if (video.videoWidth === 0 || video.videoHeight === 0) return;
+
+			try {
+				// 検出中に動画が進んでもずれないよう、現在のフレームをキャンバスに写してから検出する
+				const frame = frameCanvasRef.current ?? document.createElement("canvas");
+				frameCanvasRef.current = frame;
+				resizeCanvas(frame, video.videoWidth, video.videoHeight);
+				frame.getContext("2d")?.drawImage(video, 0, 0);
+
+				const { hands, faces, poses } = analyzersRef.current;
+				const results: Pick<RecordedFrame, "hands" | "faces" | "poses"> = {};
+				const inferenceStart = performance.now();
+				if (layers.pose) {
+					const result = await poses(frame, trackerRef.current, Date.now());
+					trackerRef.current = result.tracker;
+					results.poses = result.poses;
+				}
+				if (layers.face) {
+					const result = await faces(frame, faceTrackerRef.current, Date.now());
+					faceTrackerRef.current = result.tracker;
+					results.faces = result.faces;
+				}
+				if (layers.hand) {
+					results.hands = await hands(frame);
+				}
+				const inferenceEnd = performance.now();
+
+				presentOverlay(canvas, video.videoWidth, video.videoHeight, {
+					type: "holistic",
+					frame: results,
+					layers,
+					poseMinScore,
+				}, theme, inWorker, renderer);
+
+				setCounts({
+					hands: results.hands?.length ?? 0,
+					faces: results.faces?.length ?? 0,
+					poses: results.poses?.length ?? 0,
+				});
+				onResults?.(results);
+				// どのレイヤーも検出しなかったフレームは処理時間の統計に含めない
+				if (!layers.hand && !layers.face && !layers.pose) return;
+				return { inference: inferenceEnd - inferenceStart, render: performance.now() - inferenceEnd };
+			} catch (error) {
+				console.error("統合検出エラー:", error);
+			}
+		};
+
+		const video = videoRef.current;
+		if (!video) return;
+		// 動画の新しいフレームごとに検出する（前の検出が終わるまで次の検出は始めない）
+		const scheduler = startFrameScheduler(video, detect, schedulerOptions);
+		return () => scheduler.stop();
+	}, [videoRef, canvasRef, isVideoReady, schedulerOptions, layers, poseMinScore, inWorker, theme, renderer, onResults]);
+
+	return {
+		counts,
+	}
+};
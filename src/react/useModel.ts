@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import {
+	Detectors,
+	ModelConfig,
+	ModelKey,
+	ModelLoadProgress,
+	loadModel,
+	modelConfigKey,
+	modelNames,
+} from "../core/modelManager";
+import { loadWorkerModel, onWorkerCrash } from "../core/detectionWorkerClient";
+
+// 設定が渡されたときにモデルを読み込む。nullになったら検出器を手放す（解放はメモリポリシーに従う）
+// config.workerがtrueならWorkerでモデルを読み込み、Workerで推論する検出器を返す
+export const useModel = <K extends ModelKey>(key: K, config: ModelConfig<K> | null) => {
+	const [model, setModel] = useState<Detectors[K]>();
+	const [isLoading, setIsLoading] = useState(false);
+	const [loadProgress, setLoadProgress] = useState<ModelLoadProgress | null>(null);
+	// 設定オブジェクトは描画のたびに作られるため、検出器の作成に関わる設定が変わったときだけ読み込み直す
+	const configKey = config ? modelConfigKey(key, config) : null;
+	const configRef = useRef(config);
+	useEffect(() => {
+		configRef.current = config;
+	});
+
+	// Workerが異常終了したら、起動し直したWorkerでモデルを読み込み直す
+	const inWorker = config?.worker ?? false;
+	const [workerCrashes, setWorkerCrashes] = useState(0);
+	useEffect(() => {
+		if (!inWorker) return;
+		return onWorkerCrash(() => setWorkerCrashes(count => count + 1));
+	}, [inWorker]);
+
+	useEffect(() => {
+		// 設定が変わると前の検出器は解放されるため、読み込み終わるまで使わない
+		setModel(undefined);
+		const config = configRef.current;
+		if (!configKey || !config) return;
+		let cancelled = false;
+		setIsLoading(true);
+		const onProgress = (progress: ModelLoadProgress) => {
+			if (!cancelled) setLoadProgress(progress);
+		};
+		(config.worker ? loadWorkerModel(key, config, onProgress) : loadModel(key, config, onProgress))
+			.then(detector => {
+				if (!cancelled) setModel(detector);
+			})
+			.catch(error => {
+				console.error(`${modelNames[key]}のモデルの読み込みエラー:`, error);
+			})
+			.finally(() => {
+				if (!cancelled) {
+					setIsLoading(false);
+					setLoadProgress(null);
+				}
+			});
+		return () => {
+			cancelled = true;
+			setIsLoading(false);
+			setLoadProgress(null);
+		};
+	}, [key, configKey, workerCrashes]);
+
+	return { model, isLoading, loadProgress };
+};
@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDetector, toPoses } from "../test/fakeDetector";
+import { createPoseKeypoints } from "../test/fixtures/pose";
+import { createFakeVideo, installFakeCanvas } from "../test/fakeVideo";
+import type { ExerciseType } from "../core/exercise";
+import type { FrameSchedulerOptions } from "../core/frameScheduler";
+import type { ModelConfig } from "../core/modelManager";
+import type { OverlayRenderer } from "../core/overlayScene";
+import type { PoseResult } from "../core/sessionRecorder";
+import { usePoseDetection } from "./usePoseDetection";
+
+// モデルを読み込む代わりに偽の検出器を返す（TensorFlow.jsも読み込まない）
+const { loadModel } = vi.hoisted(() => ({ loadModel: vi.fn() }));
+vi.mock("../core/modelManager", () => ({
+	loadModel,
+	modelConfigKey: (key: string, config: unknown) => JSON.stringify({ key, config }),
+	modelNames: { hand: "手", face: "顔", pose: "ポーズ" },
+}));
+
+const schedulerOptions: FrameSchedulerOptions = { maxFps: null };
+
+const modelConfig: ModelConfig<"pose"> = {
+	runtime: "tfjs",
+	backend: "cpu",
+	options: { modelType: "movenet_multipose_lightning", maxPoses: 6, minKeypointScore: 0.3, enableSmoothing: true },
+};
+
+// 偽の検出器と動画でフックを動かし、モデルを読み込み終わるまで待つ
+// 戻り値のdetectFrameでフレームを1つずつ進められる
+const renderPoseDetection = async (frames: ReturnType<typeof toPoses>[], exercise: ExerciseType | null = null) => {
+	const fake = createFakeDetector("pose", frames);
+	loadModel.mockResolvedValue(fake.detector);
+	const { video, nextFrame } = createFakeVideo();
+	const canvas = document.createElement("canvas");
+	const onResults = vi.fn<(poses: PoseResult[]) => void>();
+	const renderer = vi.fn<OverlayRenderer>();
+	const hook = renderHook(props => usePoseDetection(
+		{ current: video },
+		{ current: canvas },
+		true,
+		modelConfig,
+		schedulerOptions,
+		props.exercise,
+		undefined,
+		onResults,
+		undefined,
+		renderer,
+	), { initialProps: { exercise } });
+	await waitFor(() => expect(loadModel).toHaveBeenCalled());
+	await act(() => loadModel.mock.results[0].value);
+
+	// 次のフレームを検出し、結果が反映されるまで待つ
+	const detectFrame = async () => {
+		const calls = fake.calls;
+		await act(async () => nextFrame());
+		await waitFor(() => expect(onResults).toHaveBeenCalledTimes(calls + 1));
+	};
+	return { ...hook, onResults, renderer, detectFrame };
+};
+
+// 人物の中心のx座標からポーズを作る
+const people = (...centers: number[]) => toPoses(centers.map(centerX => createPoseKeypoints({ centerX })));
+
+// 膝の角度の列から、1人がスクワットするフレームの列を作る
+const squatting = (kneeAngles: number[]) => kneeAngles.map(kneeAngle => toPoses([createPoseKeypoints({ kneeAngle })]));
+
+describe("usePoseDetection", () => {
+	beforeEach(() => {
+		installFakeCanvas();
+		loadModel.mockReset();
+	});
+
+	it("検出順が入れ替わっても同じ人物には同じIDを割り当てる", async () => {
+		const { detectFrame, onResults } = await renderPoseDetection([people(160, 480), people(490, 170)]);
+		await detectFrame();
+		await detectFrame();
+
+		const idsByPosition = onResults.mock.calls.map(([poses]) =>
+			poses.map(pose => [pose.id, pose.keypoints[0].x < 320 ? "左" : "右"])
+		);
+		expect(idsByPosition).toEqual([
+			[[1, "左"], [2, "右"]],
+			[[2, "右"], [1, "左"]],
+		]);
+	});
+
+	it("ラベルの行は検出順ではなく追跡IDの順にする", async () => {
+		const { detectFrame, renderer } = await renderPoseDetection([people(160, 480), people(490, 170)]);
+		await detectFrame();
+		await detectFrame();
+
+		const rowsById = renderer.mock.calls.map(([, scene]) =>
+			scene.type === "pose" ? scene.poses.map(pose => [pose.id, pose.row]) : []
+		);
+		expect(rowsById).toEqual([
+			[[1, 0], [2, 1]],
+			[[1, 0], [2, 1]],
+		]);
+	});
+
+	it("人物ごとに運動の回数を数える", async () => {
+		const frames = squatting([175, 120, 90, 120, 175, 90, 175]);
+		const { result, detectFrame } = await renderPoseDetection(frames, "squat");
+		for (let i = 0; i < frames.length; i++) {
+			await detectFrame();
+		}
+
+		expect(result.current.repCounters).toHaveLength(1);
+		expect(result.current.repCounters[0]).toMatchObject({ id: 1, state: { count: 2, phase: "start" } });
+	});
+
+	it("運動の種類を切り替えたら回数をリセットする", async () => {
+		const frames = squatting([175, 90, 175]);
+		const { result, detectFrame, rerender } = await renderPoseDetection(frames, "squat");
+		for (let i = 0; i < frames.length; i++) {
+			await detectFrame();
+		}
+		expect(result.current.repCounters[0].state.count).toBe(1);
+
+		rerender({ exercise: "pushup" });
+		expect(result.current.repCounters).toEqual([]);
+	});
+
+	it("運動を選んでいなければ回数を数えない", async () => {
+		const frames = squatting([175, 90, 175]);
+		const { result, detectFrame } = await renderPoseDetection(frames);
+		for (let i = 0; i < frames.length; i++) {
+			await detectFrame();
+		}
+		expect(result.current.repCounters).toEqual([]);
+	});
+});
@@ -0,0 +1,192 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import {
+	ExerciseType,
+	RepCounterState,
+	computeJointAngles,
+	exerciseJoints,
+	exerciseList,
+	initialRepCounterState,
+	jointDefinitions,
+	updateRepCounter,
+} from "../core/exercise";
+import {
+	PoseTrackerOptions,
+	PoseTrackerState,
+	defaultPoseTrackerOptions,
+	initialPoseTrackerState,
+	updatePoseTracks,
+} from "../core/poseTracker";
+import { PoseResult, toRecordedKeypoints } from "../core/sessionRecorder";
+import { FrameInput } from "../core/types";
+import { OverlayRenderer, PoseOverlay, assignPoseLabelRows, renderOverlayScene } from "../core/overlayScene";
+import { presentOverlay } from "../core/detectionWorkerClient";
+import { OverlayTheme, defaultOverlayTheme } from "../core/overlayTheme";
+import { ModelConfig } from "../core/modelManager";
+import { FrameSchedulerOptions, startFrameScheduler } from "../core/frameScheduler";
+import { useModel } from "./useModel";
+
+// ポーズを検出して、人ごとにIDを割り当てて描画する
+// exerciseを指定すると、人ごとに運動の回数を数える
+export const usePoseDetection = (
+	videoRef: RefObject<HTMLVideoElement>,
+	canvasRef: RefObject<HTMLCanvasElement>,
+	isVideoReady: boolean,
+	modelConfig: ModelConfig<"pose"> | null, // nullの間はモデルを読み込まない
+	schedulerOptions: FrameSchedulerOptions,
+	exercise: ExerciseType | null,
+	trackerOptions: PoseTrackerOptions = defaultPoseTrackerOptions,
+	onResults?: (poses: PoseResult[]) => void,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene, // 独自の描画関数（指定すると描画はメインスレッドで行う）
+) => {
+	const { model, isLoading, loadProgress } = useModel("pose", modelConfig);
+	const maxPoses = modelConfig?.options.maxPoses;
+	// Workerで推論する場合は描画もWorkerのOffscreenCanvasで行う
+	const inWorker = modelConfig?.worker ?? false;
+	// キーポイントの信頼度の閾値は描画・追跡・角度計算で共通
+	const minScore = trackerOptions.minKeypointScore;
+	// フレーム間で同じ人物に同じIDを割り当てるためのトラッカーの状態
+	const trackerRef = useRef(initialPoseTrackerState);
+	// 人ごとの回数カウント（キーはトラッキングID）
+	const [repCounters, setRepCounters] = useState<{ id: number; state: RepCounterState }[]>([]);
+	const repCountersRef = useRef(new Map<number, RepCounterState>());
+
+	// 回数カウントをリセット
+	const resetRepCounters = useCallback(() => {
+		repCountersRef.current.clear();
+		setRepCounters([]);
+	}, []);
+
+	// 運動の種類を切り替えたらカウントをやり直す
+	useEffect(() => {
+		resetRepCounters();
+	}, [exercise, resetRepCounters]);
+
+	useEffect(() => {
+		const detect = async () => {
+			if (!model) return;
+			if (!videoRef.current) return;
+			if (!canvasRef.current) return;
+			if (!isVideoReady) return; // 動画が準備できていなければ検出しない
+			
+			try {
+				// 動画のサイズチェック
+				if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
+					console.log("動画サイズが無効です。スキップします。");
+					return;
+				}
+				
+				const video = videoRef.current;
+				const canvas = canvasRef.current;
+				const inferenceStart = performance.now();
+				const poses = await model.estimatePoses(video, { maxPoses });
+				const inferenceEnd = performance.now();
+
+				// 前のフレームの人物と対応付けてIDを決める
+				const tracked = updatePoseTracks(trackerRef.current, poses, Date.now(), trackerOptions);
+				trackerRef.current = tracked.state;
+
+				onResults?.(poses.flatMap((pose, i) => {
+					const id = tracked.ids[i];
+					if (id === null) return [];
+					return [{ id, score: pose.score ?? 0, keypoints: toRecordedKeypoints(pose.keypoints) }];
+				}));
+
+				// 各検出されたポーズを処理
+				const overlays: Omit<PoseOverlay, "row">[] = [];
+				for (let i = 0; i < poses.length; i++) {
+					const pose = poses[i];
+					const keypoints = pose.keypoints;
+					const id = tracked.ids[i];
+					if (id === null) continue; // 信頼できるキーポイントがない
+
+					// 信頼度スコアの表示
+					const score = Math.round((pose.score || 0) * 100) / 100;
+					let scoreText = `ID ${id} 信頼度: ${score}`;
+					const jointAngles: PoseOverlay["jointAngles"] = [];
+
+					if (exercise) {
+						// 回数カウントを更新
+						const counter = updateRepCounter(
+							exercise,
+							repCountersRef.current.get(id) ?? initialRepCounterState,
+							keypoints,
+							minScore
+						);
+						repCountersRef.current.set(id, counter);
+
+						const exerciseName = exerciseList.find(e => e.type === exercise)?.name;
+						scoreText += ` | ${exerciseName}: ${counter.count}回`;
+						if (counter.feedback) {
+							scoreText += ` (${counter.feedback})`;
+						}
+
+						// 運動に関係する関節の角度を関節の横に表示
+						const angles = computeJointAngles(keypoints, minScore);
+						for (const joint of exerciseJoints[exercise]) {
+							const angle = angles[joint];
+							const center = keypoints.find(kp => kp.name === jointDefinitions[joint][1]);
+							if (angle === null || !center) continue;
+							jointAngles.push({ joint: center, angle });
+						}
+					}
+
+					overlays.push({ id, keypoints, label: scoreText, jointAngles });
+				}
+				presentOverlay(canvas, video.videoWidth, video.videoHeight, {
+					type: "pose",
+					poses: assignPoseLabelRows(overlays),
+					count: poses.length,
+					minScore,
+				}, theme, inWorker, renderer);
+
+				if (exercise) {
+					// 見失った人物のカウントは破棄
+					for (const counterId of repCountersRef.current.keys()) {
+						if (!trackerRef.current.tracks.some(track => track.id === counterId)) {
+							repCountersRef.current.delete(counterId);
+						}
+					}
+					setRepCounters(Array.from(repCountersRef.current, ([id, state]) => ({ id, state })));
+				}
+				return { inference: inferenceEnd - inferenceStart, render: performance.now() - inferenceEnd };
+			} catch (error) {
+				console.error("ポーズ検出エラー:", error);
+			}
+		};
+
+		const video = videoRef.current;
+		if (!video) return;
+		// 動画の新しいフレームごとに検出する（前の検出が終わるまで次の検出は始めない）
+		const scheduler = startFrameScheduler(video, detect, schedulerOptions);
+		return () => scheduler.stop();
+	}, [model, videoRef, canvasRef, isVideoReady, schedulerOptions, exercise, trackerOptions, minScore, maxPoses, inWorker, theme, renderer, onResults]);
+
+	// 1フレーム分を解析して結果を返す（描画はしない。一括解析用）
+	// ライブ検出とは別のトラッカーの状態を受け取り、更新後の状態を返す
+	const analyzeFrame = async (
+		input: FrameInput,
+		tracker: PoseTrackerState,
+		timestamp: number,
+	): Promise<{ poses: PoseResult[]; tracker: PoseTrackerState }> => {
+		if (!model) return { poses: [], tracker };
+		const poses = await model.estimatePoses(input, { maxPoses });
+		const tracked = updatePoseTracks(tracker, poses, timestamp, trackerOptions);
+		return {
+			poses: poses.flatMap((pose, i) => {
+				const id = tracked.ids[i];
+				if (id === null) return [];
+				return [{ id, score: pose.score ?? 0, keypoints: toRecordedKeypoints(pose.keypoints) }];
+			}),
+			tracker: tracked.state,
+		};
+	};
+
+	return {
+		isLoading,
+		loadProgress,
+		repCounters,
+		resetRepCounters,
+		analyzeFrame,
+	}
+};
@@ -0,0 +1,70 @@
+import { RefObject, useCallback, useEffect, useState } from "react";
+import { LandmarkSession } from "../core/sessionRecorder";
+import { resizeCanvas } from "../core/renderers";
+import { OverlayRenderer, renderOverlayScene } from "../core/overlayScene";
+import { OverlayTheme, defaultOverlayTheme } from "../core/overlayTheme";
+import { findFrameAt, renderRecordedFrame, sessionDuration } from "../core/sessionPlayer";
+
+// 記録したセッションをキャンバスに再生する（sessionがnullなら何もしない）
+export const useSessionPlayer = (
+	canvasRef: RefObject<HTMLCanvasElement>,
+	session: LandmarkSession | null,
+	theme: OverlayTheme = defaultOverlayTheme,
+	renderer: OverlayRenderer = renderOverlayScene,
+) => {
+	const [isPlaying, setIsPlaying] = useState(false);
+	// 再生位置（セッション開始からのミリ秒）
+	const [currentTime, setCurrentTime] = useState(0);
+	const [speed, setSpeed] = useState(1);
+
+	// セッションを読み込んだら先頭から再生
+	useEffect(() => {
+		setCurrentTime(0);
+		setIsPlaying(session !== null);
+	}, [session]);
+
+	// 再生中はrequestAnimationFrameで再生位置を進める（最後まで行ったらループ）
+	useEffect(() => {
+		if (!session || !isPlaying) return;
+		const duration = sessionDuration(session);
+		let previous = performance.now();
+		let frameId = requestAnimationFrame(function tick(now) {
+			const elapsed = (now - previous) * speed;
+			previous = now;
+			setCurrentTime(time => duration > 0 ? (time + elapsed) % duration : 0);
+			frameId = requestAnimationFrame(tick);
+		});
+		return () => cancelAnimationFrame(frameId);
+	}, [session, isPlaying, speed]);
+
+	// 再生位置のフレームを描画
+	useEffect(() => {
+		if (!session || !canvasRef.current) return;
+		resizeCanvas(canvasRef.current, session.videoWidth || 640, session.videoHeight || 480);
+		const ctx = canvasRef.current.getContext("2d");
+		if (!ctx) return;
+		renderRecordedFrame(ctx, session, findFrameAt(session, currentTime), theme, renderer);
+	}, [canvasRef, session, currentTime, theme, renderer]);
+
+	// 再生終了時にキャンバスを消去
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		return () => {
+			canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+		};
+	}, [canvasRef, session]);
+
+	const seek = useCallback((time: number) => {
+		setCurrentTime(time);
+	}, []);
+
+	return {
+		isPlaying,
+		setIsPlaying,
+		currentTime,
+		duration: session ? sessionDuration(session) : 0,
+		seek,
+		speed,
+		setSpeed,
+	}
+};
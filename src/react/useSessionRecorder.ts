@@ -0,0 +1,93 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { buildEmotionTimeline } from "../core/emotionTimeline";
+import {
+	LandmarkSession,
+	RecordedFrame,
+	downloadFile,
+	sessionFileName,
+	sessionToCSV,
+	sessionToJSON,
+} from "../core/sessionRecorder";
+import { TabType } from "../core/types";
+
+// 検出結果をフレームごとに記録し、JSONやCSVとして書き出す
+export const useSessionRecorder = (
+	videoRef: RefObject<HTMLVideoElement>,
+	videoFile: File | null,
+	activeTab: TabType,
+) => {
+	const [isRecording, setIsRecording] = useState(false);
+	const [frameCount, setFrameCount] = useState(0);
+	// 記録が終わったセッション（エクスポート用）
+	const [session, setSession] = useState<LandmarkSession | null>(null);
+	// 記録中のセッション
+	const recordingRef = useRef<LandmarkSession | null>(null);
+	const startTimeRef = useRef(0);
+
+	const startRecording = useCallback(() => {
+		const video = videoRef.current;
+		startTimeRef.current = Date.now();
+		recordingRef.current = {
+			version: 1,
+			tab: activeTab,
+			source: videoFile ? "file" : "camera",
+			startedAt: new Date(startTimeRef.current).toISOString(),
+			videoWidth: video?.videoWidth ?? 0,
+			videoHeight: video?.videoHeight ?? 0,
+			frames: [],
+		};
+		setSession(null);
+		setFrameCount(0);
+		setIsRecording(true);
+	}, [videoRef, videoFile, activeTab]);
+
+	const stopRecording = useCallback(() => {
+		const recording = recordingRef.current;
+		if (!recording) return;
+		// 顔を記録した場合は、表情の推移も一緒に書き出す
+		const hasFaces = recording.frames.some(frame => frame.faces && frame.faces.length > 0);
+		setSession(hasFaces ? { ...recording, emotionTimeline: buildEmotionTimeline(recording.frames) } : recording);
+		recordingRef.current = null;
+		setIsRecording(false);
+	}, []);
+
+	// 検出結果を1フレーム分記録する（記録中でなければ何もしない）
+	const recordFrame = useCallback((results: Pick<RecordedFrame, "hands" | "faces" | "poses">) => {
+		const recording = recordingRef.current;
+		if (!recording) return;
+		const now = Date.now();
+		recording.frames.push({
+			time: now - startTimeRef.current,
+			timestamp: now,
+			videoTime: recording.source === "file" ? videoRef.current?.currentTime ?? null : null,
+			...results,
+		});
+		setFrameCount(recording.frames.length);
+	}, [videoRef]);
+
+	// タブや入力を切り替えたら記録を終了する
+	useEffect(() => {
+		stopRecording();
+	}, [activeTab, videoFile, stopRecording]);
+
+	const exportJSON = useCallback(() => {
+		if (!session) return;
+		downloadFile(sessionToJSON(session), `${sessionFileName(session)}.json`, "application/json");
+	}, [session]);
+
+	const exportCSV = useCallback(() => {
+		if (!session) return;
+		downloadFile(sessionToCSV(session), `${sessionFileName(session)}.csv`, "text/csv");
+	}, [session]);
+
+	return {
+		isRecording,
+		frameCount,
+		session,
+		startRecording,
+		stopRecording,
+		recordFrame,
+		exportJSON,
+		exportCSV,
+	}
+};
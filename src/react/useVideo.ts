@@ -0,0 +1,154 @@
+import { RefObject, useEffect, useState } from "react";
+
+// カメラ（videoFileがnullの場合）または動画ファイルをvideo要素で再生する
+// isVideoReadyは検出を始められる状態になったらtrueになる
+export const useVideo = (
+	videoRef: RefObject<HTMLVideoElement>,
+	videoFile: File | null,
+	enabled = true, // falseの場合はカメラも動画も使わない（記録の再生中など）
+) => {
+	const [isAllowed, setIsAllowed] = useState(false);
+	const [isVideoReady, setIsVideoReady] = useState(false);
+
+	// ファイルが選択された場合の処理
+	useEffect(() => {
+		if (!enabled) {
+			return;
+		}
+		if (videoFile && videoRef.current) {
+			console.log("動画ファイルが選択されました:", videoFile.name);
+			const video = videoRef.current;
+			
+			// カメラのストリームを停止
+			const mediaStream = videoRef.current.srcObject as MediaStream;
+			if (mediaStream) {
+				mediaStream.getTracks().forEach(track => {
+					track.stop();
+					console.log("カメラトラック停止:", track.kind);
+				});
+			}
+
+			// 動画の準備状態をリセット
+			setIsVideoReady(false);
+
+			try {
+				// ファイルからの動画を設定
+				const fileURL = URL.createObjectURL(videoFile);
+				console.log("動画ファイルURL:", fileURL);
+				
+				// video要素をリセット
+				videoRef.current.pause();
+				videoRef.current.removeAttribute('srcObject');
+				videoRef.current.srcObject = null;
+				videoRef.current.src = fileURL;
+				videoRef.current.muted = false;
+				videoRef.current.crossOrigin = "anonymous";
+				videoRef.current.load();
+				
+				console.log("動画要素設定完了");
+				
+				// メタデータが読み込まれたら準備完了とマーク
+				videoRef.current.onloadedmetadata = () => {
+					console.log("動画メタデータ読み込み完了:", videoRef.current?.videoWidth, "x", videoRef.current?.videoHeight);
+					
+					// メタデータが読み込まれた後、実際の再生開始
+					videoRef.current?.play().then(() => {
+						console.log("動画再生開始");
+						setIsVideoReady(true);
+					}).catch(err => {
+						console.error("動画再生エラー:", err);
+					});
+				};
+				
+				// 再生終了時にループ再生
+				videoRef.current.onended = () => {
+					console.log("動画再生終了、ループします");
+					if (videoRef.current) {
+						videoRef.current.currentTime = 0;
+						videoRef.current.play().catch(err => {
+							console.error("動画ループ再生エラー:", err);
+						});
+					}
+				};
+				
+				// エラーハンドリング
+				videoRef.current.onerror = (e) => {
+					console.error("動画読み込みエラー:", e);
+				};
+				
+				setIsAllowed(true);
+			} catch (error) {
+				console.error("動画設定エラー:", error);
+			}
+			
+			// クリーンアップ
+			return () => {
+				const oldSrc = video.src;
+				video.onloadedmetadata = null;
+				video.onended = null;
+				video.onerror = null;
+				video.pause();
+				video.src = "";
+				video.load();
+				if (oldSrc) {
+					URL.revokeObjectURL(oldSrc);
+				}
+				console.log("動画リソース解放");
+				setIsVideoReady(false);
+			};
+		} else if (!videoFile) {
+			// ファイルがない場合はカメラを使用
+			const video = videoRef.current;
+			let cancelled = false;
+			const setupCamera = async () => {
+				if (!video) return;
+				try {
+					if (navigator.mediaDevices.getUserMedia) {
+						const stream = await navigator.mediaDevices.getUserMedia({
+							video: true,
+						});
+						// 許可を待っている間にクリーンアップされた場合はすぐに停止
+						if (cancelled) {
+							stream.getTracks().forEach(track => track.stop());
+							return;
+						}
+						video.srcObject = stream;
+						video.muted = true; // カメラ映像はミュート
+						
+						// カメラのメタデータが読み込まれたら準備完了とマーク
+						video.onloadedmetadata = () => {
+							console.log("カメラ映像メタデータ読み込み完了");
+							setIsVideoReady(true);
+						};
+					}
+					setIsAllowed(true);
+				} catch (err) {
+					console.error("カメラアクセスエラー:", err);
+					setIsAllowed(false);
+				}
+			};
+
+			setupCamera();
+			
+			// クリーンアップ
+			return () => {
+				cancelled = true;
+				if (video) {
+					video.onloadedmetadata = null;
+					video.onloadeddata = null;
+					if (video.srcObject) {
+						const mediaStream = video.srcObject as MediaStream;
+						mediaStream.getTracks().forEach(track => track.stop());
+						video.srcObject = null;
+					}
+				}
+				setIsVideoReady(false);
+			};
+		}
+	}, [videoRef, videoFile, enabled]);
+
+	return {
+		isAllowed,
+		isVideoReady,
+	}
+};
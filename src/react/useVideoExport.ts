@@ -0,0 +1,59 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { downloadFile } from "../core/sessionRecorder";
+import { CompositeRecording, startCompositeRecording } from "../core/videoExporter";
+
+// 動画と検出結果のキャンバスを重ねた映像をWebMとして書き出す
+export const useVideoExport = (
+	videoRef: RefObject<HTMLVideoElement>,
+	canvasRef: RefObject<HTMLCanvasElement>,
+	videoFile: File | null,
+) => {
+	const [isExporting, setIsExporting] = useState(false);
+	// 書き出し開始からの経過秒数
+	const [elapsed, setElapsed] = useState(0);
+	const recordingRef = useRef<CompositeRecording | null>(null);
+
+	const startExport = useCallback(() => {
+		if (!videoRef.current || !canvasRef.current || recordingRef.current) return;
+		try {
+			recordingRef.current = startCompositeRecording(videoRef.current, canvasRef.current);
+			setElapsed(0);
+			setIsExporting(true);
+		} catch (error) {
+			console.error("動画書き出し開始エラー:", error);
+			alert("このブラウザでは動画を書き出せません");
+		}
+	}, [videoRef, canvasRef]);
+
+	// 書き出しを終了してWebMファイルとしてダウンロード
+	const stopExport = useCallback(async () => {
+		const recording = recordingRef.current;
+		if (!recording) return;
+		recordingRef.current = null;
+		setIsExporting(false);
+		const blob = await recording.stop();
+		const name = `annotated-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.webm`;
+		downloadFile(blob, name, blob.type);
+	}, []);
+
+	// 経過時間の表示を更新
+	useEffect(() => {
+		if (!isExporting) return;
+		const interval = setInterval(() => setElapsed(prev => prev + 1), 1000);
+		return () => clearInterval(interval);
+	}, [isExporting]);
+
+	// 入力を切り替えたら書き出しを終了
+	useEffect(() => {
+		return () => {
+			stopExport();
+		};
+	}, [videoFile, stopExport]);
+
+	return {
+		isExporting,
+		elapsed,
+		startExport,
+		stopExport,
+	}
+};
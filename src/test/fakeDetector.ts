@@ -0,0 +1,60 @@
+import type * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+import type * as handPoseDetection from "@tensorflow-models/hand-pose-detection";
+import type * as poseDetection from "@tensorflow-models/pose-detection";
+import type { Detectors, ModelKey } from "../core/modelManager";
+import type { Keypoint } from "../core/types";
+
+// 検出器ごとの1フレーム分の検出結果
+export type DetectorResults = {
+	hand: handPoseDetection.Hand[];
+	face: faceLandmarksDetection.Face[];
+	pose: poseDetection.Pose[];
+};
+
+// キーポイントを囲む矩形（検出器が返すboxの代わり）
+export const boundingBox = (keypoints: Keypoint[]) => {
+	const xs = keypoints.map(keypoint => keypoint.x);
+	const ys = keypoints.map(keypoint => keypoint.y);
+	const xMin = Math.min(...xs);
+	const yMin = Math.min(...ys);
+	const xMax = Math.max(...xs);
+	const yMax = Math.max(...ys);
+	return { xMin, yMin, xMax, yMax, width: xMax - xMin, height: yMax - yMin };
+};
+
+export const toHands = (hands: { keypoints: Keypoint[]; handedness: "Left" | "Right"; score?: number }[]): DetectorResults["hand"] =>
+	hands.map(({ keypoints, handedness, score = 0.9 }) => ({ keypoints, handedness, score }));
+
+export const toFaces = (faces: Keypoint[][]): DetectorResults["face"] =>
+	faces.map(keypoints => ({ keypoints, box: boundingBox(keypoints) }));
+
+export const toPoses = (poses: Keypoint[][]): DetectorResults["pose"] =>
+	poses.map(keypoints => ({ keypoints, score: 0.9 }));
+
+// カメラやモデルの代わりに、あらかじめ用意した検出結果を1フレームずつ順に返す検出器
+// 用意したフレームを使い切った後は最後のフレームを返し続ける
+export const createFakeDetector = <K extends ModelKey>(key: K, frames: DetectorResults[K][]) => {
+	let frameIndex = 0;
+	const estimate = async () => {
+		const results = frames[Math.min(frameIndex, frames.length - 1)] ?? [];
+		frameIndex++;
+		return results;
+	};
+	const methods: Record<ModelKey, string> = {
+		hand: "estimateHands",
+		face: "estimateFaces",
+		pose: "estimatePoses",
+	};
+	const detector = {
+		[methods[key]]: estimate,
+		dispose: () => {},
+		reset: () => {},
+	};
+	return {
+		detector: detector as unknown as Detectors[K],
+		// 検出した回数
+		get calls() {
+			return frameIndex;
+		},
+	};
+};
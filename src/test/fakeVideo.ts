@@ -0,0 +1,58 @@
+// jsdomには動画の再生とCanvasの描画がないため、フックのテストで使う代わりのものを用意する
+
+// 描画命令をすべて何もしない関数として受け付ける2Dコンテキスト
+const createFakeContext = (canvas: HTMLCanvasElement) => {
+	const properties: Record<string | symbol, unknown> = { canvas };
+	return new Proxy(properties, {
+		get: (target, property) => {
+			if (property in target) return target[property];
+			if (property === "measureText") return (text: string) => ({ width: text.length * 10 });
+			if (property === "getImageData" || property === "createImageData") {
+				return (...args: number[]) => ({ data: new Uint8ClampedArray(4 * (args[2] ?? 1) * (args[3] ?? 1)) });
+			}
+			return () => {};
+		},
+		set: (target, property, value) => {
+			target[property] = value;
+			return true;
+		},
+	}) as unknown as CanvasRenderingContext2D;
+};
+
+// HTMLCanvasElement.getContext("2d") が何もしない2Dコンテキストを返すようにする
+export const installFakeCanvas = () => {
+	const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+	HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement) {
+		const context = contexts.get(this) ?? createFakeContext(this);
+		contexts.set(this, context);
+		return context;
+	} as unknown as typeof HTMLCanvasElement.prototype.getContext;
+};
+
+// 再生中の動画の代わりに、nextFrame() を呼んだときだけ新しいフレームを通知するvideo要素を作る
+export const createFakeVideo = (width = 640, height = 480) => {
+	const video = document.createElement("video");
+	Object.defineProperty(video, "videoWidth", { value: width });
+	Object.defineProperty(video, "videoHeight", { value: height });
+	const callbacks = new Map<number, VideoFrameRequestCallback>();
+	let nextHandle = 1;
+	video.requestVideoFrameCallback = (callback: VideoFrameRequestCallback) => {
+		callbacks.set(nextHandle, callback);
+		return nextHandle++;
+	};
+	video.cancelVideoFrameCallback = (handle: number) => {
+		callbacks.delete(handle);
+	};
+	return {
+		video,
+		// 登録されているコールバックに新しいフレームを通知する
+		nextFrame: () => {
+			const pending = [...callbacks.values()];
+			callbacks.clear();
+			const now = performance.now();
+			for (const callback of pending) {
+				callback(now, {} as VideoFrameCallbackMetadata);
+			}
+		},
+	};
+};
@@ -0,0 +1,135 @@
+import type { Keypoint } from "../../core/types";
+
+// 合成した顔の形。長さは両目の中心間の距離を1とする
+export type FaceShape = {
+	// 目の縦幅の半分（目の横幅は0.5）
+	leftEyeOpen: number;
+	rightEyeOpen: number;
+	// 唇の上下の間隔
+	mouthOpen: number;
+	// 口角が唇の中央より上がっている量（負なら下がっている）
+	mouthCornerLift: number;
+	mouthWidth: number;
+	// 上まぶたから眉の中央までの高さ
+	browHeight: number;
+	// 眉頭どうしの距離
+	browInnerDistance: number;
+	// 目の中心からの虹彩のずれ（目の横幅を1とする。xは画像の右、yは下が正）
+	irisX: number;
+	irisY: number;
+};
+
+// 真顔（classifyEmotionでは「真面目」になる）
+export const neutralFace: FaceShape = {
+	leftEyeOpen: 0.08,
+	rightEyeOpen: 0.08,
+	mouthOpen: 0.02,
+	mouthCornerLift: 0,
+	mouthWidth: 0.8,
+	browHeight: 0.27,
+	browInnerDistance: 0.5,
+	irisX: 0,
+	irisY: 0,
+};
+
+// 表情ごとに真顔から変える部分と、期待する判定結果
+export const faceExpressions: { shape: Partial<FaceShape>; emotion: string }[] = [
+	{ shape: {}, emotion: "真面目 😐" },
+	{ shape: { mouthCornerLift: 0.1 }, emotion: "笑顔 😊" },
+	{ shape: { mouthCornerLift: 0.1, mouthOpen: 0.4, browHeight: 0.5 }, emotion: "大喜び 🤩" },
+	{ shape: { leftEyeOpen: 0.01 }, emotion: "左ウインク 😉" },
+	{ shape: { rightEyeOpen: 0.01 }, emotion: "右ウインク 😉" },
+	{ shape: { mouthOpen: 0.4, browHeight: 0.5 }, emotion: "驚き 😲" },
+	{ shape: { mouthCornerLift: -0.1, leftEyeOpen: 0.04, rightEyeOpen: 0.04 }, emotion: "悲しみ 😢" },
+	{ shape: { browInnerDistance: 0.3, mouthOpen: 0.15 }, emotion: "怒り 😠" },
+	{ shape: { browHeight: 0.4, mouthOpen: 0.1 }, emotion: "困惑 🤔" },
+	{ shape: { mouthOpen: 0.15 }, emotion: "中立 😶" },
+];
+
+// 画像上での顔の位置・大きさ・向き
+export type FaceTransform = {
+	centerX: number;
+	centerY: number;
+	// 両目の中心間の距離（ピクセル）
+	scale: number;
+	// 画面上で時計回りの傾き（度）
+	roll: number;
+	// 画面の右を向く角度（度）
+	yaw: number;
+};
+
+const defaultTransform: FaceTransform = { centerX: 320, centerY: 200, scale: 100, roll: 0, yaw: 0 };
+
+// FaceMeshの478点の形式で合成した顔のランドマークを作る
+// 表情・虹彩位置・頭の向きの計算に使う点だけを配置し、それ以外は鼻の位置に置く
+export const createFaceKeypoints = (
+	shape: Partial<FaceShape> = {},
+	transform: Partial<FaceTransform> = {},
+): Keypoint[] => {
+	const face = { ...neutralFace, ...shape };
+	const { centerX, centerY, scale, roll, yaw } = { ...defaultTransform, ...transform };
+	const points = new Map<number, [number, number]>();
+	const set = (index: number, x: number, y: number) => points.set(index, [x, y]);
+
+	// 目尻・目頭とまぶた（左右の目の中心は x = ∓0.5）
+	const eye = (side: -1 | 1, open: number, [outer, inner, top, bottom]: number[], lids: number[]) => {
+		const cx = side * 0.5;
+		set(outer, cx + side * 0.25, 0);
+		set(inner, cx - side * 0.25, 0);
+		set(top, cx, -open);
+		set(bottom, cx, open);
+		const [top1, top2, bottom2, bottom1] = lids;
+		set(top1, cx + side * 0.1, -open);
+		set(top2, cx - side * 0.1, -open);
+		set(bottom2, cx - side * 0.1, open);
+		set(bottom1, cx + side * 0.1, open);
+	};
+	eye(-1, face.leftEyeOpen, [33, 133, 159, 145], [160, 158, 153, 144]);
+	eye(1, face.rightEyeOpen, [263, 362, 386, 374], [387, 385, 380, 373]);
+
+	// 虹彩の中心と周囲の4点
+	for (const [side, center] of [[-1, 468], [1, 473]] as const) {
+		const x = side * 0.5 + face.irisX * 0.5;
+		const y = face.irisY * 0.1;
+		set(center, x, y);
+		[[0.06, 0], [0, -0.06], [-0.06, 0], [0, 0.06]].forEach(([dx, dy], i) => set(center + 1 + i, x + dx, y + dy));
+	}
+
+	// 眉
+	set(105, -0.5, -face.leftEyeOpen - face.browHeight);
+	set(334, 0.5, -face.rightEyeOpen - face.browHeight);
+	set(55, -face.browInnerDistance / 2, -0.3);
+	set(285, face.browInnerDistance / 2, -0.3);
+
+	// 口（上唇の位置は固定し、口を開けると下唇とあごが下がる）
+	const upperLip = 1;
+	const lowerLip = upperLip + face.mouthOpen;
+	const cornerY = (upperLip + lowerLip) / 2 - face.mouthCornerLift;
+	set(13, 0, upperLip);
+	set(14, 0, lowerLip);
+	set(61, -face.mouthWidth / 2, cornerY);
+	set(291, face.mouthWidth / 2, cornerY);
+	set(81, -0.15, upperLip);
+	set(178, -0.15, lowerLip);
+	set(311, 0.15, upperLip);
+	set(402, 0.15, lowerLip);
+
+	// 額・鼻先・あご
+	const noseTip: [number, number] = [0, 0.6];
+	set(10, 0, -0.9);
+	set(1, ...noseTip);
+	set(152, 0, 1.6 + face.mouthOpen);
+
+	const rollRad = roll * Math.PI / 180;
+	const yawRad = yaw * Math.PI / 180;
+	return Array.from({ length: 478 }, (_, index) => {
+		const [fx, fy] = points.get(index) ?? noseTip;
+		// 首を横に振る回転（奥行きは顔の平面からのずれとして表す）
+		const x = fx * Math.cos(yawRad);
+		const z = fx * Math.sin(yawRad);
+		// 画面上での回転
+		const rx = x * Math.cos(rollRad) - fy * Math.sin(rollRad);
+		const ry = x * Math.sin(rollRad) + fy * Math.cos(rollRad);
+		return { x: centerX + rx * scale, y: centerY + ry * scale, z: z * scale };
+	});
+};
@@ -0,0 +1,88 @@
+import type { Keypoint } from "../../core/types";
+
+export type FingerState = "extended" | "curled";
+
+// 合成した手の形。thumbの "side" は横に伸ばした状態
+export type HandShape = {
+	thumb: "side" | "up" | "down" | "curled";
+	index: FingerState;
+	middle: FingerState;
+	ring: FingerState;
+	pinky: FingerState;
+	// 親指と人差し指の先端をくっつける
+	touching: boolean;
+};
+
+// 指を全部伸ばしたパー
+export const openHand: HandShape = {
+	thumb: "side",
+	index: "extended",
+	middle: "extended",
+	ring: "extended",
+	pinky: "extended",
+	touching: false,
+};
+
+const curledHand: HandShape = {
+	thumb: "curled",
+	index: "curled",
+	middle: "curled",
+	ring: "curled",
+	pinky: "curled",
+	touching: false,
+};
+
+// ジェスチャーごとの手の形と、期待する判定結果
+export const handGestures = [
+	{ shape: openHand, gesture: "open_palm" },
+	{ shape: curledHand, gesture: "fist" },
+	{ shape: { ...curledHand, index: "extended" }, gesture: "pointing" },
+	{ shape: { ...curledHand, thumb: "up" }, gesture: "thumbs_up" },
+	{ shape: { ...curledHand, thumb: "down" }, gesture: "thumbs_down" },
+	{ shape: { ...curledHand, index: "extended", middle: "extended" }, gesture: "peace" },
+	{ shape: { ...openHand, index: "curled", touching: true }, gesture: "ok" },
+	{ shape: { ...curledHand, touching: true }, gesture: "pinch" },
+] satisfies { shape: HandShape; gesture: string }[];
+
+// 手首を原点、手首から中指の付け根までを約1とする座標での各指の付け根
+const FINGER_BASES = {
+	index: [-0.3, -1],
+	middle: [0, -1.05],
+	ring: [0.3, -1],
+	pinky: [0.55, -0.9],
+} as const;
+
+// 親指の [IP, TIP]
+const THUMB_TIPS: Record<HandShape["thumb"], [number, number][]> = {
+	side: [[-0.8, -0.65], [-1.05, -0.95]],
+	up: [[-0.7, -1.2], [-0.75, -1.9]],
+	down: [[-0.65, -0.35], [-0.75, 0]],
+	curled: [[-0.4, -0.55], [0, -0.6]],
+};
+
+// 親指と人差し指の先端をくっつけるときの位置
+const TOUCH_POINT: [number, number] = [-0.55, -1.15];
+
+// MediaPipeHandsの21点の形式で合成した手のランドマークを作る（指先は画面の上向き）
+export const createHandKeypoints = (
+	shape: Partial<HandShape> = {},
+	{ wristX = 320, wristY = 400, scale = 80 } = {},
+): Keypoint[] => {
+	const hand = { ...openHand, ...shape };
+	const [thumbIp, thumbTip] = THUMB_TIPS[hand.thumb];
+	const points: [number, number][] = [
+		[0, 0],
+		[-0.35, -0.25],
+		[-0.55, -0.45],
+		thumbIp,
+		hand.touching ? TOUCH_POINT : thumbTip,
+	];
+	for (const finger of ["index", "middle", "ring", "pinky"] as const) {
+		const [x, y] = FINGER_BASES[finger];
+		const offsets = hand[finger] === "extended" ? [0, -0.4, -0.7, -0.95] : [0, -0.35, -0.25, 0.05];
+		const joints = offsets.map((offset): [number, number] => [x, y + offset]);
+		if (finger === "index" && hand.touching) joints[3] = TOUCH_POINT;
+		points.push(...joints);
+	}
+	return points.map(([x, y]) => ({ x: wristX + x * scale, y: wristY + y * scale }));
+};
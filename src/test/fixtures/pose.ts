@@ -0,0 +1,36 @@
+import type { Keypoint } from "../../core/types";
+
+// 正面を向いて立った人の、MoveNetの17点の形式の合成したキーポイントを作る
+// kneeAngle・elbowAngleで膝と肘の曲がり具合（180でまっすぐ）を変えられる
+export const createPoseKeypoints = (
+	{ kneeAngle = 180, elbowAngle = 180, centerX = 320, score = 0.9 } = {},
+): Keypoint[] => {
+	const bend = (180 - kneeAngle) * Math.PI / 180;
+	const curl = (180 - elbowAngle) * Math.PI / 180;
+	const side = (name: "left" | "right", sign: number): [string, number, number][] => {
+		const kneeX = centerX + sign * 30;
+		const elbowX = centerX + sign * 45;
+		// 前腕を上腕の延長から体の内側に向けて回して肘を曲げる
+		const upperArm = Math.atan2(70, sign * 5);
+		const forearm = upperArm + sign * curl;
+		return [
+			[`${name}_shoulder`, centerX + sign * 40, 80],
+			[`${name}_elbow`, elbowX, 150],
+			[`${name}_wrist`, elbowX + Math.cos(forearm) * 70, 150 + Math.sin(forearm) * 70],
+			[`${name}_hip`, centerX + sign * 30, 200],
+			[`${name}_knee`, kneeX, 300],
+			// 膝から下を前に振り出して膝を曲げる
+			[`${name}_ankle`, kneeX + Math.sin(bend) * 100, 300 + Math.cos(bend) * 100],
+		];
+	};
+	const points: [string, number, number][] = [
+		["nose", centerX, 30],
+		["left_eye", centerX - 8, 22],
+		["right_eye", centerX + 8, 22],
+		["left_ear", centerX - 16, 26],
+		["right_ear", centerX + 16, 26],
+		...side("left", -1),
+		...side("right", 1),
+	];
+	return points.map(([name, x, y]) => ({ x, y, score, name }));
+};
@@ -0,0 +1,17 @@
+import { parseLandmarkSession } from "../../core/sessionPlayer";
+import type { ModelKey } from "../../core/modelManager";
+import type { LandmarkSession } from "../../core/sessionRecorder";
+import face from "./recorded/face.json?raw";
+import hand from "./recorded/hand.json?raw";
+import pose from "./recorded/pose.json?raw";
+
+// 記録機能で書き出す形式（sessionToJSON）の短いセッション。アプリで読み込むときと同じparseLandmarkSessionで読み込む
+// 合成した手・顔・ポーズに検出のぶれ程度のノイズを加えたもので、ラベルは記録時の判定ではなく意図した手の形・表情にしている
+// - hand: 8種類のジェスチャーを位置と大きさを変えて2フレームずつ
+// - face: 真顔・笑顔・左ウインク・驚きを傾きと大きさを変えて1フレームずつ
+// - pose: 1人が約15fpsでスクワットを3回
+export const recordedSessions: Record<ModelKey, LandmarkSession> = {
+	hand: parseLandmarkSession(hand),
+	face: parseLandmarkSession(face),
+	pose: parseLandmarkSession(pose),
+};
@@ -1,8 +1,29 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// 検出WorkerのURLはtscで出力した lib/ でも解決できるように .js で書いているので、
+// アプリの開発・ビルドでは .ts のソースを読み込むように書き換える
+const detectionWorkerSource = (): Plugin => ({
+  name: 'detection-worker-source',
+  enforce: 'pre',
+  transform(code, id) {
+    if (!id.endsWith('/src/core/detectionWorkerClient.ts')) return
+    return code.replace('new URL("./detectionWorker.js", import.meta.url)', 'new URL("./detectionWorker.ts", import.meta.url)')
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), detectionWorkerSource()],
   base: process.env.CI ? '/react-handpose/' : '/',
+  // 検出Workerはモジュール形式でビルドする（iife形式ではWorkerの中でコードを分割できないため）
+  worker: {
+    format: 'es',
+  },
+  test: {
+    // フックのテストはファイルの先頭で jsdom を指定する
+    environment: 'node',
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
 })